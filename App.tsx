@@ -1,42 +1,293 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppStep, ISMElement, SSIMData, ISMResult } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppStep, ISMElement, SSIMData, SSIMValue, ISMResult, ExpertResponse, AggregationSettings, DelphiRound, FuzzyInfluenceData, FuzzyMicmacResult, TISMData, LinkInterpretations, SSIMAnnotations, AnnotatedSSIM, SSIMInputMode, ProjectSnapshot, ProjectSummary, StoredProject, EditableDocument, EditHistory, StudyMetadata, ExampleDataset, Reference } from './types';
 import FactorInput from './components/FactorInput';
 import SSIMGrid from './components/SSIMGrid';
+import ExpertPanel from './components/ExpertPanel';
+import DelphiPanel from './components/DelphiPanel';
+import FuzzyGrid from './components/FuzzyGrid';
+import PreviewPanel from './components/PreviewPanel';
+import ElicitationWizard from './components/ElicitationWizard';
 import ResultsView from './components/ResultsView';
-import { runISMAnalysis } from './services/ismLogic';
-import { HardHat, BookOpen, ChevronDown, ChevronUp, Construction } from 'lucide-react';
-
-// Default factors based on the Sustainability Barriers input
-const DEFAULT_FACTORS: ISMElement[] = [
-  { id: 'F1', name: 'F1', description: 'Lack of commitment from top management', category: 'Management' },
-  { id: 'F2', name: 'F2', description: 'Financial Constraints', category: 'Cost' },
-  { id: 'F3', name: 'F3', description: 'Organizational culture inhibitive to sustainability/CSR', category: 'Organization' },
-  { id: 'F4', name: 'F4', description: 'Lack of new technology/materials and processes on sustainability', category: 'Technology' },
-  { id: 'F5', name: 'F5', description: 'Lack of awareness of benefits of sustainability', category: 'Knowledge' },
-  { id: 'F6', name: 'F6', description: 'Lack of green purchasing', category: 'Process' },
-  { id: 'F7', name: 'F7', description: 'Lack of regulations and enforcement of environment standards', category: 'Policy' },
-  { id: 'F8', name: 'F8', description: 'Lack of R&D on sustainability', category: 'Technology' },
-  { id: 'F9', name: 'F9', description: 'Lack of training/human expertise on sustainability', category: 'Knowledge' },
-  { id: 'F10', name: 'F10', description: 'Resistance to change and adopting innovation in sustainability', category: 'Organization' },
-  { id: 'F11', name: 'F11', description: 'Lack of performance metrics/evaluation standards on sustainability', category: 'Process' },
-];
-
-const FIXED_TOPIC = "Barriers to Sustainability Implementation";
+import ProjectLibrary from './components/ProjectLibrary';
+import HistoryMenu from './components/HistoryMenu';
+import StudySettings from './components/StudySettings';
+import ExampleLibrary from './components/ExampleLibrary';
+import ReferenceManager from './components/ReferenceManager';
+import { runISMAnalysisAsync } from './services/ismEngine';
+import { runISMAnalysis, updateISMAnalysis, diffSSIM } from './services/ismLogic';
+import { findMissingPairs, reorientSSIM, reorientAnnotations, pruneOrphanCells } from './services/ssimModel';
+import { mergeFactorSSIM, splitFactorSSIM, mergeFactorAnnotations, mergeFactorRatings, mergeFactorTISM, splitFactorCells } from './services/factorRestructure';
+import { aggregateExpertSSIMs, DEFAULT_AGGREGATION_SETTINGS } from './services/expertAggregation';
+import { runFuzzyMicmac, deriveSSIMFromFuzzy, seedFuzzyFromSSIM } from './services/fuzzyLogic';
+import { EMPTY_TISM } from './services/tismLogic';
+import { createRound, startNextRound, assessConvergence, buildFeedbackSummary, DEFAULT_STOP_THRESHOLD } from './services/delphi';
+import { encodeProjectFile, decodeProjectFile, readProject, toProjectFile, createEmptySnapshot, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { createStudy } from './services/study';
+import { EXAMPLE_DATASETS, buildExampleSSIM, createExampleStudy } from './services/exampleDatasets';
+import { EMPTY_HISTORY, recordChange, travelHistory } from './services/history';
+import { isProjectStoreAvailable, listProjects, loadProject, saveProject, deleteProject, getLastProjectId, setLastProjectId } from './services/projectStore';
+import { HardHat, BookOpen, ChevronDown, ChevronUp, Construction, Loader2, Activity, FolderOpen, Save, Library, CloudOff } from 'lucide-react';
+
+// Start from the factors of the sustainability barriers example, with an empty SSIM
+const DEFAULT_EXAMPLE = EXAMPLE_DATASETS[0];
+
+// Edits are written to the project library once they pause for this long
+const AUTOSAVE_DELAY_MS = 1000;
+
+const newId = () => crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2);
 
 const App: React.FC = () => {
   // Initialize directly to Factor Definition step with default data
   const [step, setStep] = useState<AppStep>(AppStep.DEFINE_FACTORS);
-  const [topic] = useState(FIXED_TOPIC);
-  const [factors, setFactors] = useState<ISMElement[]>(DEFAULT_FACTORS);
+  const [study, setStudy] = useState<StudyMetadata>(() => createStudy(DEFAULT_EXAMPLE.title));
+  const [factors, setFactors] = useState<ISMElement[]>(DEFAULT_EXAMPLE.factors);
+  const [references, setReferences] = useState<Reference[]>([]);
   const [ssim, setSsim] = useState<SSIMData>({});
+  const [annotations, setAnnotations] = useState<SSIMAnnotations>({});
+  const [rounds, setRounds] = useState<DelphiRound[]>([createRound(1)]);
+  const [activeRoundIndex, setActiveRoundIndex] = useState(0);
+  const [stopThreshold, setStopThreshold] = useState(DEFAULT_STOP_THRESHOLD);
+  const [activeExpertId, setActiveExpertId] = useState<string | null>(null);
+  const [aggregationSettings, setAggregationSettings] = useState<AggregationSettings>(DEFAULT_AGGREGATION_SETTINGS);
+  const [inputMode, setInputMode] = useState<SSIMInputMode>('grid');
+  const fuzzyMode = inputMode === 'fuzzy';
+  // Cells filled in by guided elicitation, per SSIM ('' for the single SSIM, else the expert ID)
+  const [inferredCells, setInferredCells] = useState<Record<string, Record<string, SSIMValue>>>({});
+  const [fuzzyRatings, setFuzzyRatings] = useState<FuzzyInfluenceData>({});
+  const [tism, setTism] = useState<TISMData>(EMPTY_TISM);
   const [result, setResult] = useState<ISMResult | null>(null);
+  const [fuzzyResult, setFuzzyResult] = useState<FuzzyMicmacResult | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<{ stage: string; progress: number } | null>(null);
+  const [showPreview, setShowPreview] = useState(true);
+  const [preview, setPreview] = useState<{ ids: string[]; ssim: SSIMData; result: ISMResult } | null>(null);
   const [isManualOpen, setIsManualOpen] = useState(true);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // Library entry being edited; null until the last session has been recovered
+  const [project, setProject] = useState<ProjectSummary | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const lastSavedJson = useRef('');
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
 
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, [step]);
 
+  // The expert panel being viewed belongs to the active Delphi round
+  const activeRound = rounds[activeRoundIndex];
+  const experts = activeRound.experts;
+  const finalRound = rounds[rounds.length - 1];
+
+  const setExperts: React.Dispatch<React.SetStateAction<ExpertResponse[]>> = (action) => {
+    setRounds(prev => prev.map((round, idx) => idx === activeRoundIndex
+      ? { ...round, experts: typeof action === 'function' ? action(round.experts) : action }
+      : round
+    ));
+  };
+
+  // With an expert panel, the working SSIM is the aggregate of all expert SSIMs
+  const aggregateRound = (round: DelphiRound | undefined) => {
+    if (!round || round.experts.length === 0) return null;
+    return aggregateExpertSSIMs(factors.map(f => f.id), round.experts, aggregationSettings);
+  };
+  const aggregation = useMemo(() => aggregateRound(activeRound), [factors, activeRound, aggregationSettings]);
+  const previousAggregation = useMemo(() => aggregateRound(rounds[activeRoundIndex - 1]), [factors, rounds, activeRoundIndex, aggregationSettings]);
+  const finalAggregation = useMemo(() => aggregateRound(finalRound), [factors, finalRound, aggregationSettings]);
+
+  const convergence = useMemo(() => {
+    if (!aggregation) return null;
+    return assessConvergence(factors.map(f => f.id), experts, aggregation.ssim, previousAggregation ? previousAggregation.ssim : null, stopThreshold);
+  }, [factors, experts, aggregation, previousAggregation, stopThreshold]);
+
+  // The SSIM the analysis runs on: the final round's aggregate, or the single SSIM
+  const workingSsim = finalAggregation ? finalAggregation.ssim : ssim;
+  const factorIds = useMemo(() => factors.map(f => f.id), [factors]);
+  // Every expert SSIM of the panel, which merges and splits restructure with the study SSIM
+  const panelSsims = useMemo(() => rounds.flatMap(round => round.experts.map(e => e.ssim)), [rounds]);
+  // Fuzzy ISM derives the binary SSIM from the linguistic ratings;
+  // otherwise the final Delphi round's aggregate feeds the analysis
+  const analysedSsim = useMemo(
+    () => (fuzzyMode ? deriveSSIMFromFuzzy(factorIds, fuzzyRatings) : workingSsim),
+    [fuzzyMode, factorIds, fuzzyRatings, workingSsim]
+  );
+  const analysisMissingPairs = useMemo(() => findMissingPairs(factorIds, workingSsim), [factorIds, workingSsim]);
+  const previewIsCurrent = !!preview && preview.ssim === workingSsim && preview.ids.join('|') === factorIds.join('|');
+
+  // Live preview: only the cells that changed since the last preview are recomputed
+  useEffect(() => {
+    if (step !== AppStep.FILL_SSIM || inputMode !== 'grid' || !showPreview) return;
+    setPreview(prev => {
+      if (prev && prev.ssim === workingSsim && prev.ids.join('|') === factorIds.join('|')) return prev;
+      const result = prev && prev.ids.join('|') === factorIds.join('|')
+        ? updateISMAnalysis(prev.result, diffSSIM(factorIds, prev.ssim, workingSsim))
+        : runISMAnalysis(factorIds.length, factorIds, workingSsim);
+      return { ids: factorIds, ssim: workingSsim, result };
+    });
+  }, [step, inputMode, showPreview, factorIds, workingSsim]);
+
+  const changedCells = useMemo(() => {
+    if (!convergence) return undefined;
+    return new Set(convergence.changes.map(c => `${factors[c.i].id}|${factors[c.j].id}`));
+  }, [convergence, factors]);
+
+  const handleStartNextRound = () => {
+    setRounds(prev => [...prev, startNextRound(prev[prev.length - 1])]);
+    setActiveRoundIndex(rounds.length);
+  };
+
+  const setRoundFeedback = (feedback: string) => {
+    setRounds(prev => prev.map((round, idx) => idx === activeRoundIndex ? { ...round, feedback } : round));
+  };
+
+  const handleGenerateFeedback = () => {
+    if (!aggregation || !convergence) return;
+    setRoundFeedback(buildFeedbackSummary(activeRound, factors, aggregation, convergence));
+  };
+
+  const activeExpert = experts.find(e => e.id === activeExpertId) || null;
+
+  const setActiveExpertSsim: React.Dispatch<React.SetStateAction<SSIMData>> = (action) => {
+    setExperts(prev => prev.map(e => e.id === activeExpertId
+      ? { ...e, ssim: typeof action === 'function' ? action(e.ssim) : action }
+      : e
+    ));
+  };
+
+  const setActiveExpertAnnotations: React.Dispatch<React.SetStateAction<SSIMAnnotations>> = (action) => {
+    setExperts(prev => prev.map(e => e.id === activeExpertId
+      ? { ...e, annotations: typeof action === 'function' ? action(e.annotations || {}) : action }
+      : e
+    ));
+  };
+
+  // Notes behind the analysed SSIM: each final-round expert's, or the single SSIM's
+  const annotatedSsims: AnnotatedSSIM[] = finalRound.experts.length > 0
+    ? finalRound.experts.map(e => ({ label: e.name, ssim: e.ssim, annotations: e.annotations || {} }))
+    : [{ ssim, annotations }];
+
+  // Inferred cells stay marked until the user overrides their value
+  const inferenceTarget = activeExpert ? activeExpert.id : '';
+  const gridSsim = activeExpert ? activeExpert.ssim : aggregation ? aggregation.ssim : ssim;
+  const visibleInferredCells = useMemo(() => {
+    const cells = inferredCells[inferenceTarget] || {};
+    return new Set(Object.keys(cells).filter(key => {
+      const [rowId, colId] = key.split('|');
+      return gridSsim[rowId]?.[colId] === cells[key];
+    }));
+  }, [inferredCells, inferenceTarget, gridSsim]);
+
+  // Applies a change of the factor list to every expert of every round
+  const updateAllExperts = (update: (expert: ExpertResponse) => ExpertResponse) =>
+    setRounds(prev => prev.map(round => ({ ...round, experts: round.experts.map(update) })));
+
+  // Reordering flips which factor of a pair is the row, so every SSIM follows the new order
+  const reorderFactors = (next: ISMElement[]) => {
+    const ids = next.map(f => f.id);
+    setFactors(next);
+    setSsim(prev => reorientSSIM(prev, ids));
+    setAnnotations(prev => reorientAnnotations(prev, ids));
+    updateAllExperts(e => ({
+      ...e,
+      ssim: reorientSSIM(e.ssim, ids),
+      ...(e.annotations ? { annotations: reorientAnnotations(e.annotations, ids) } : {}),
+    }));
+    setInferredCells({});
+  };
+
+  // The merged factor takes the place of the first source; expert SSIMs use the default union
+  const mergeFactors = (sourceIds: string[], merged: ISMElement, resolutions: Record<string, SSIMValue | null>) => {
+    const at = factors.findIndex(f => sourceIds.includes(f.id));
+    const next = factors.filter(f => !sourceIds.includes(f.id));
+    next.splice(at, 0, merged);
+    const ids = next.map(f => f.id);
+    setFactors(next);
+    setSsim(prev => mergeFactorSSIM(prev, ids, sourceIds, merged.id, resolutions));
+    setAnnotations(prev => mergeFactorAnnotations(prev, ids, sourceIds, merged.id));
+    setFuzzyRatings(prev => mergeFactorRatings(prev, sourceIds, merged.id));
+    setTism(prev => mergeFactorTISM(prev, sourceIds, merged.id));
+    // The resolutions are the facilitator's; each expert keeps the union of their own answers
+    updateAllExperts(e => ({
+      ...e,
+      ssim: mergeFactorSSIM(e.ssim, ids, sourceIds, merged.id),
+      ...(e.annotations ? { annotations: mergeFactorAnnotations(e.annotations, ids, sourceIds, merged.id) } : {}),
+    }));
+  };
+
+  const splitFactor = (parentId: string, children: ISMElement[]) => {
+    const at = factors.findIndex(f => f.id === parentId);
+    const next = [...factors.slice(0, at), ...children, ...factors.slice(at + 1)];
+    const ids = next.map(f => f.id);
+    const childIds = children.map(f => f.id);
+    setFactors(next);
+    setSsim(prev => splitFactorSSIM(prev, ids, parentId, childIds));
+    setAnnotations(prev => splitFactorCells(prev, parentId, childIds));
+    setFuzzyRatings(prev => splitFactorCells(prev, parentId, childIds));
+    setTism(prev => ({
+      interpretations: splitFactorCells(prev.interpretations, parentId, childIds),
+      significantTransitive: splitFactorCells(prev.significantTransitive, parentId, childIds),
+    }));
+    updateAllExperts(e => ({
+      ...e,
+      ssim: splitFactorSSIM(e.ssim, ids, parentId, childIds),
+      ...(e.annotations ? { annotations: splitFactorCells(e.annotations, parentId, childIds) } : {}),
+    }));
+  };
+
+  // Cells of removed factors are dropped wherever they are kept, so no orphaned keys pile up
+  useEffect(() => {
+    setSsim(prev => pruneOrphanCells(prev, factorIds));
+    setAnnotations(prev => pruneOrphanCells(prev, factorIds));
+    setFuzzyRatings(prev => pruneOrphanCells(prev, factorIds));
+    setTism(prev => {
+      const interpretations = pruneOrphanCells(prev.interpretations, factorIds);
+      const significantTransitive = pruneOrphanCells(prev.significantTransitive, factorIds);
+      return interpretations === prev.interpretations && significantTransitive === prev.significantTransitive
+        ? prev
+        : { interpretations, significantTransitive };
+    });
+    setRounds(prev => {
+      let changed = false;
+      const next = prev.map(round => ({
+        ...round,
+        experts: round.experts.map(e => {
+          const ssim = pruneOrphanCells(e.ssim, factorIds);
+          const annotations = e.annotations && pruneOrphanCells(e.annotations, factorIds);
+          if (ssim === e.ssim && annotations === e.annotations) return e;
+          changed = true;
+          return { ...e, ssim, ...(annotations ? { annotations } : {}) };
+        }),
+      }));
+      return changed ? next : prev;
+    });
+  }, [factorIds]);
+
+  // The wizard returns only the cells it decided; cells it started from are left untouched
+  const applyElicitation = (elicited: SSIMData, inferred: string[]) => {
+    const setTarget = activeExpert ? setActiveExpertSsim : setSsim;
+    setTarget(prev => {
+      const next = { ...prev };
+      Object.entries(elicited).forEach(([rowId, row]) => { next[rowId] = { ...(prev[rowId] || {}), ...row }; });
+      return next;
+    });
+    setInferredCells(prev => ({
+      ...prev,
+      [inferenceTarget]: {
+        ...prev[inferenceTarget],
+        ...Object.fromEntries(inferred.map(key => {
+        const [rowId, colId] = key.split('|');
+          return [key, elicited[rowId][colId]];
+        })),
+      },
+    }));
+    setInputMode('grid');
+  };
+
+  const setInterpretations: React.Dispatch<React.SetStateAction<LinkInterpretations>> = (action) => {
+    setTism(prev => ({ ...prev, interpretations: typeof action === 'function' ? action(prev.interpretations) : action }));
+  };
+
   const goToSSIM = () => {
     if (factors.length < 2) {
       alert("Please define at least 2 factors to proceed.");
@@ -45,21 +296,285 @@ const App: React.FC = () => {
     setStep(AppStep.FILL_SSIM);
   };
 
-  const calculateAndShowResults = () => {
-    const factorIds = factors.map(f => f.id);
-    const analysis = runISMAnalysis(factors.length, factorIds, ssim);
-    setResult(analysis);
-    setStep(AppStep.ANALYSIS_RESULT);
+  const calculateAndShowResults = async () => {
+    if (analysisProgress) return;
+    // Unanswered pairs are not O; the grid lists them, this only keeps every path to the analysis closed
+    if (!fuzzyMode && analysisMissingPairs.length > 0) {
+      alert(`${analysisMissingPairs.length} SSIM pair(s) are unanswered. Answer every pair before generating the results.`);
+      return;
+    }
+    // The live preview already holds the result for the working SSIM
+    if (!fuzzyMode && preview && previewIsCurrent) {
+      setResult(preview.result);
+      setFuzzyResult(null);
+      setStep(AppStep.ANALYSIS_RESULT);
+      return;
+    }
+    setAnalysisProgress({ stage: 'Starting analysis', progress: 0 });
+    try {
+      const analysis = await runISMAnalysisAsync(factors.length, factorIds, analysedSsim, (stage, progress) => setAnalysisProgress({ stage, progress }));
+      setResult(analysis);
+      setFuzzyResult(fuzzyMode ? runFuzzyMicmac(factorIds, fuzzyRatings) : null);
+      setStep(AppStep.ANALYSIS_RESULT);
+    } catch (error) {
+      console.error("Analysis failed:", error);
+      alert("Failed to run the analysis.");
+    } finally {
+      setAnalysisProgress(null);
+    }
+  };
+
+  const seedFuzzyRatings = () => {
+    setFuzzyRatings(seedFuzzyFromSSIM(factorIds, workingSsim));
   };
 
   const resetAnalysis = () => {
     if(window.confirm("This will clear the current analysis and SSIM data. The factors will remain. Continue?")) {
       setSsim({});
+      setAnnotations({});
+      setRounds([createRound(1)]);
+      setActiveRoundIndex(0);
+      setActiveExpertId(null);
+      setFuzzyRatings({});
+      setTism(EMPTY_TISM);
       setResult(null);
+      setFuzzyResult(null);
+      setPreview(null);
+      setInferredCells({});
       setStep(AppStep.DEFINE_FACTORS);
     }
   };
 
+  const snapshot: ProjectSnapshot = useMemo(() => ({
+    step, study, factors, references, ssim, annotations, rounds, activeRoundIndex, stopThreshold,
+    aggregationSettings, inputMode, fuzzyRatings, tism, result, fuzzyResult,
+  }), [step, study, factors, references, ssim, annotations, rounds, activeRoundIndex, stopThreshold, aggregationSettings, inputMode, fuzzyRatings, tism, result, fuzzyResult]);
+
+  // Undo/redo covers factor, SSIM, expert panel, note, fuzzy rating and TISM edits
+  const editableDocument: EditableDocument = useMemo(
+    () => ({ factors, ssim, rounds, annotations, fuzzyRatings, tism }),
+    [factors, ssim, rounds, annotations, fuzzyRatings, tism],
+  );
+  const previousDocument = useRef(editableDocument);
+  // 'skip' for changes made by undo/redo, 'reset' when another project is loaded
+  const historyMode = useRef<'record' | 'skip' | 'reset'>('record');
+
+  useEffect(() => {
+    const prev = previousDocument.current;
+    previousDocument.current = editableDocument;
+    if (prev === editableDocument) return;
+    if (historyMode.current === 'record') setHistory(h => recordChange(h, prev, editableDocument));
+    else if (historyMode.current === 'reset') setHistory(EMPTY_HISTORY);
+    historyMode.current = 'record';
+  }, [editableDocument]);
+
+  const travel = (steps: number) => {
+    const moved = travelHistory(history, editableDocument, steps);
+    if (moved.state === editableDocument) return;
+    historyMode.current = 'skip';
+    setHistory(moved.history);
+    setFactors(moved.state.factors);
+    setSsim(moved.state.ssim);
+    setRounds(moved.state.rounds);
+    setActiveRoundIndex(idx => Math.min(idx, moved.state.rounds.length - 1));
+    setAnnotations(moved.state.annotations);
+    setFuzzyRatings(moved.state.fuzzyRatings);
+    setTism(moved.state.tism);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return;
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      travel(e.shiftKey || key === 'y' ? 1 : -1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const applySnapshot = (project: ProjectSnapshot) => {
+    historyMode.current = 'reset';
+    setHistory(EMPTY_HISTORY);
+    setStudy(project.study);
+    setFactors(project.factors);
+    setReferences(project.references);
+    setSsim(project.ssim);
+    setAnnotations(project.annotations);
+    setRounds(project.rounds);
+    setActiveRoundIndex(project.activeRoundIndex);
+    setActiveExpertId(null);
+    setStopThreshold(project.stopThreshold);
+    setAggregationSettings(project.aggregationSettings);
+    setInputMode(project.inputMode);
+    setFuzzyRatings(project.fuzzyRatings);
+    setTism(project.tism);
+    setResult(project.result);
+    setFuzzyResult(project.fuzzyResult);
+    setPreview(null);
+    setInferredCells({});
+    setStep(project.step);
+  };
+
+  const newProjectEntry = (name = 'Untitled project'): ProjectSummary => {
+    const now = new Date().toISOString();
+    return { id: newId(), name, createdAt: now, updatedAt: now };
+  };
+
+  const writeProject = async (entry: ProjectSummary, data: ProjectSnapshot) => {
+    const updatedAt = new Date().toISOString();
+    await saveProject({ ...entry, updatedAt, data: toProjectFile(data) });
+    lastSavedJson.current = JSON.stringify(data);
+    setLastSavedAt(updatedAt);
+  };
+
+  // Writes the open project to the library unless nothing changed since the last write
+  const saveCurrentProject = async () => {
+    if (!project || !isProjectStoreAvailable()) return;
+    if (JSON.stringify(snapshot) === lastSavedJson.current) return;
+    await writeProject(project, snapshot);
+  };
+
+  // Switches to a new library entry, written right away so it shows in the list
+  const startProject = async (entry: ProjectSummary, data: ProjectSnapshot) => {
+    applySnapshot(data);
+    setProject(entry);
+    await writeProject(entry, data);
+  };
+
+  const openStoredProject = (stored: StoredProject) => {
+    const data = readProject(stored.data);
+    applySnapshot(data);
+    lastSavedJson.current = JSON.stringify(data);
+    setLastSavedAt(stored.updatedAt);
+    setProject({ id: stored.id, name: stored.name, createdAt: stored.createdAt, updatedAt: stored.updatedAt });
+  };
+
+  // Recover the last session, or start a library entry from the current state
+  useEffect(() => {
+    if (!isProjectStoreAvailable()) return;
+    let cancelled = false;
+    (async () => {
+      const lastId = getLastProjectId();
+      let stored = lastId ? await loadProject(lastId) : null;
+      if (!stored) {
+        const [newest] = await listProjects();
+        stored = newest ? await loadProject(newest.id) : null;
+      }
+      if (cancelled) return;
+      if (stored) openStoredProject(stored);
+      else setProject(newProjectEntry());
+    })().catch(error => console.error("Session recovery failed:", error));
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (project) setLastProjectId(project.id);
+  }, [project]);
+
+  // Autosave once edits pause
+  useEffect(() => {
+    if (!project) return;
+    const timer = setTimeout(() => {
+      saveCurrentProject().catch(error => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, snapshot]);
+
+  // Saves the open project first, runs the action, then refreshes the library list
+  const runLibraryAction = async (action: () => Promise<void>) => {
+    try {
+      await saveCurrentProject();
+      await action();
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Project library action failed:", error);
+      alert("The project library could not be updated.");
+    }
+  };
+
+  const openLibrary = () => runLibraryAction(async () => setShowLibrary(true));
+
+  const handleCreateProject = () => runLibraryAction(async () => {
+    await startProject(newProjectEntry(), createEmptySnapshot());
+    setShowLibrary(false);
+  });
+
+  const handleOpenLibraryProject = (id: string) => runLibraryAction(async () => {
+    const stored = await loadProject(id);
+    if (!stored) return;
+    openStoredProject(stored);
+    setShowLibrary(false);
+  });
+
+  const handleDuplicateProject = (id: string) => runLibraryAction(async () => {
+    const stored = await loadProject(id);
+    if (!stored) return;
+    const copy = newProjectEntry(`${stored.name} (copy)`);
+    await saveProject({ ...stored, ...copy });
+  });
+
+  const handleRenameProject = (id: string, name: string) => runLibraryAction(async () => {
+    const stored = await loadProject(id);
+    if (!stored) return;
+    await saveProject({ ...stored, name, updatedAt: new Date().toISOString() });
+    if (project?.id === id) setProject({ ...project, name });
+  });
+
+  const handleDeleteProject = (id: string) => runLibraryAction(async () => {
+    await deleteProject(id);
+    if (project?.id !== id) return;
+    // The open project was deleted: continue in the newest remaining one, or a blank one
+    const [newest] = await listProjects();
+    const stored = newest ? await loadProject(newest.id) : null;
+    if (stored) openStoredProject(stored);
+    else await startProject(newProjectEntry(), createEmptySnapshot());
+  });
+
+  // Examples open as a new project, straight at the filled SSIM
+  const handleLoadExample = async (dataset: ExampleDataset) => {
+    const data: ProjectSnapshot = {
+      ...createEmptySnapshot(createExampleStudy(dataset), dataset.factors),
+      ssim: buildExampleSSIM(dataset),
+      step: AppStep.FILL_SSIM,
+    };
+    if (!isProjectStoreAvailable()) {
+      applySnapshot(data);
+      return;
+    }
+    await runLibraryAction(() => startProject(newProjectEntry(dataset.title), data));
+  };
+
+  const handleSaveProject = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([encodeProjectFile(snapshot)], { type: 'application/zip' }));
+    link.download = `ISM_Project_${new Date().toISOString().split('T')[0]}${PROJECT_FILE_EXTENSION}`;
+    link.click();
+  };
+
+  // An opened file becomes a new library entry, so the project it replaces stays saved
+  const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (projectInputRef.current) projectInputRef.current.value = '';
+    if (!file) return;
+    let data: ProjectSnapshot;
+    try {
+      data = decodeProjectFile(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      console.error("Project import failed:", error);
+      alert(`Failed to open project: ${error instanceof Error ? error.message : 'invalid file'}`);
+      return;
+    }
+    const entry = newProjectEntry(file.name.replace(/\.ism$/i, ''));
+    if (!isProjectStoreAvailable()) {
+      applySnapshot(data);
+      return;
+    }
+    await runLibraryAction(() => startProject(entry, data));
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans flex flex-col">
       {/* Professional Header */}
@@ -94,6 +609,34 @@ const App: React.FC = () => {
               3. Analysis
             </div>
           </div>
+
+          <div className="flex items-center gap-2">
+            <HistoryMenu history={history} onUndo={() => travel(-1)} onRedo={() => travel(1)} onTravel={travel} />
+            {project ? (
+              <div className="hidden lg:flex flex-col items-end leading-tight max-w-[12rem]">
+                <span className="text-xs font-bold text-slate-700 truncate max-w-full" title={project.name}>{project.name}</span>
+                <span className="text-[10px] text-slate-400">{lastSavedAt ? `Saved ${new Date(lastSavedAt).toLocaleTimeString(undefined, { timeStyle: 'short' })}` : 'Not saved yet'}</span>
+              </div>
+            ) : !isProjectStoreAvailable() && (
+              <span className="hidden lg:flex items-center gap-1 text-[10px] text-slate-400" title="This browser does not allow local storage, so work is not saved automatically.">
+                <CloudOff className="w-3.5 h-3.5" /> No autosave
+              </span>
+            )}
+            <input type="file" ref={projectInputRef} onChange={handleOpenProject} accept={PROJECT_FILE_EXTENSION} className="hidden" />
+            <div className="flex bg-white rounded-md shadow-sm border border-slate-300 overflow-hidden divide-x divide-slate-200">
+              {isProjectStoreAvailable() && (
+                <button type="button" onClick={openLibrary} className="px-3 py-2 hover:bg-slate-50 text-slate-600 text-xs font-medium flex items-center gap-2" title="Saved projects in this browser">
+                  <Library className="w-4 h-4" /> Projects
+                </button>
+              )}
+              <button type="button" onClick={() => projectInputRef.current?.click()} className="px-3 py-2 hover:bg-slate-50 text-slate-600 text-xs font-medium flex items-center gap-2" title="Open a .ism project file">
+                <FolderOpen className="w-4 h-4" /> Open
+              </button>
+              <button type="button" onClick={handleSaveProject} className="px-3 py-2 hover:bg-slate-50 text-slate-600 text-xs font-medium flex items-center gap-2" title="Save factors, SSIM, expert data, notes and results as one .ism file">
+                <Save className="w-4 h-4" /> Save Project
+              </button>
+            </div>
+          </div>
         </div>
       </header>
 
@@ -175,30 +718,171 @@ const App: React.FC = () => {
                 )}
              </div>
 
+             <ExampleLibrary onLoad={handleLoadExample} />
+
+             <StudySettings study={study} setStudy={setStudy} expertCount={finalRound.experts.length} />
+
+             <ReferenceManager references={references} setReferences={setReferences} factors={factors} setFactors={setFactors} />
+
              <FactorInput 
                 factors={factors} 
                 setFactors={setFactors} 
-                topic={topic} 
+                onReorder={reorderFactors}
+                ssim={ssim}
+                panelSsims={panelSsims}
+                onMerge={mergeFactors}
+                onSplit={splitFactor}
+                topic={study.topic} 
                 onNext={goToSSIM} 
               />
           </div>
         )}
 
         {step === AppStep.FILL_SSIM && (
-          <SSIMGrid 
-            factors={factors} 
-            ssim={ssim} 
-            setSsim={setSsim} 
-            topic={topic}
-            onNext={calculateAndShowResults}
-            onBack={() => setStep(AppStep.DEFINE_FACTORS)}
+          <div className="space-y-6">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex bg-slate-100 p-1 rounded-md">
+                {([
+                  { mode: 'grid', label: 'Binary SSIM (V/A/X/O)' },
+                  { mode: 'guided', label: 'Guided Elicitation' },
+                  { mode: 'fuzzy', label: 'Fuzzy Influence Ratings' },
+                ] as const).map(mode => (
+                  <button
+                    key={mode.label}
+                    type="button"
+                    onClick={() => setInputMode(mode.mode)}
+                    className={`px-3 py-1.5 rounded text-xs font-bold whitespace-nowrap transition-all ${inputMode === mode.mode ? 'bg-white text-slate-900 shadow-sm ring-1 ring-slate-200' : 'text-slate-500 hover:text-slate-900'}`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              {inputMode === 'grid' && (
+                <button
+                  type="button"
+                  onClick={() => setShowPreview(!showPreview)}
+                  className={`hidden lg:flex items-center gap-2 px-3 py-1.5 rounded-md font-bold text-xs transition-colors border ${showPreview ? 'bg-slate-800 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                >
+                  <Activity className="w-4 h-4" /> Live Preview
+                </button>
+              )}
+            </div>
+            {fuzzyMode ? (
+              <FuzzyGrid
+                factors={factors}
+                ratings={fuzzyRatings}
+                setRatings={setFuzzyRatings}
+                onSeedFromSSIM={seedFuzzyRatings}
+                onNext={calculateAndShowResults}
+                onBack={() => setStep(AppStep.DEFINE_FACTORS)}
+              />
+            ) : (
+              <>
+              <ExpertPanel
+                factorIds={factorIds}
+                experts={experts}
+                setExperts={setExperts}
+                activeExpertId={activeExpert ? activeExpert.id : null}
+                setActiveExpertId={setActiveExpertId}
+                settings={aggregationSettings}
+                setSettings={setAggregationSettings}
+              />
+              {convergence && (
+                <DelphiPanel
+                  factors={factors}
+                  rounds={rounds}
+                  activeRoundIndex={activeRoundIndex}
+                  setActiveRoundIndex={setActiveRoundIndex}
+                  onStartNextRound={handleStartNextRound}
+                  convergence={convergence}
+                  stopThreshold={stopThreshold}
+                  setStopThreshold={setStopThreshold}
+                  onFeedbackChange={setRoundFeedback}
+                  onGenerateFeedback={handleGenerateFeedback}
+                />
+              )}
+              {inputMode === 'guided' ? (
+                <ElicitationWizard
+                  key={`${inferenceTarget}-${factorIds.join('|')}`}
+                  factors={factors}
+                  ssim={gridSsim}
+                  onApply={applyElicitation}
+                  disabledReason={!activeExpert && experts.length > 0 ? 'Select an expert in the panel above to answer the questions on their behalf.' : undefined}
+                />
+              ) : (
+              <div className="flex gap-4 items-start">
+              <div className="flex-1 min-w-0">
+              <SSIMGrid 
+                factors={factors} 
+                ssim={gridSsim} 
+                setSsim={activeExpert ? setActiveExpertSsim : setSsim} 
+                topic={study.topic}
+                relationPhrase={study.relationPhrase}
+                onNext={calculateAndShowResults}
+                onBack={() => setStep(AppStep.DEFINE_FACTORS)}
+                readOnly={!activeExpert && !!aggregation}
+                decisions={!activeExpert && aggregation ? aggregation.decisions : undefined}
+                changedCells={!activeExpert ? changedCells : undefined}
+                contextLabel={activeExpert ? `Editing: ${activeExpert.name}` : undefined}
+                interpretations={tism.interpretations}
+                setInterpretations={setInterpretations}
+                inferredCells={visibleInferredCells}
+                missingPairs={analysisMissingPairs}
+                annotations={activeExpert ? activeExpert.annotations || {} : aggregation ? undefined : annotations}
+                setAnnotations={activeExpert ? setActiveExpertAnnotations : aggregation ? undefined : setAnnotations}
+              />
+              </div>
+              {showPreview && (
+                <div className="hidden lg:block w-72 flex-shrink-0">
+                  <PreviewPanel factors={factors} result={previewIsCurrent ? preview!.result : null} />
+                </div>
+              )}
+              </div>
+              )}
+              </>
+            )}
+          </div>
+        )}
+
+        {showLibrary && (
+          <ProjectLibrary
+            projects={projects}
+            currentId={project ? project.id : null}
+            onOpen={handleOpenLibraryProject}
+            onCreate={handleCreateProject}
+            onDuplicate={handleDuplicateProject}
+            onRename={handleRenameProject}
+            onDelete={handleDeleteProject}
+            onClose={() => setShowLibrary(false)}
           />
         )}
 
+        {analysisProgress && (
+          <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/30 p-4">
+            <div className="bg-white rounded-lg border border-slate-200 shadow-xl w-full max-w-sm p-5 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-bold text-slate-800">
+                <Loader2 className="w-4 h-4 animate-spin" /> {analysisProgress.stage}...
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-slate-800 transition-all" style={{ width: `${Math.round(analysisProgress.progress * 100)}%` }} />
+              </div>
+              <p className="text-xs text-slate-500 text-right">{Math.round(analysisProgress.progress * 100)}%</p>
+            </div>
+          </div>
+        )}
+
         {step === AppStep.ANALYSIS_RESULT && result && (
           <ResultsView 
             factors={factors} 
             result={result} 
+            experts={finalRound.experts}
+            study={study}
+            ssim={analysedSsim}
+            references={references}
+            annotatedSsims={annotatedSsims}
+            fuzzyMicmac={fuzzyResult}
+            tism={tism}
+            setTism={setTism}
             onReset={resetAnalysis}
             onBack={goToSSIM}
           />
@@ -0,0 +1,104 @@
+
+import React from 'react';
+import { ISMElement, ExpertResponse, AgreementStats } from '../types';
+import { interpretKappa } from '../services/agreementStats';
+
+interface Props {
+  factors: ISMElement[];
+  experts: ExpertResponse[];
+  stats: AgreementStats;
+}
+
+const formatStat = (val: number | null, digits = 3) => val === null ? 'n/a' : val.toFixed(digits);
+
+const AgreementTable: React.FC<Props> = ({ factors, experts, stats }) => {
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-4 rounded-lg border border-slate-200 bg-slate-50">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Experts</p>
+          <p className="text-2xl font-bold text-slate-900 mt-1">{stats.raterCount}</p>
+        </div>
+        <div className="p-4 rounded-lg border border-slate-200 bg-slate-50">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Mean Cell Agreement</p>
+          <p className="text-2xl font-bold text-slate-900 mt-1">{(stats.meanAgreement * 100).toFixed(1)}%</p>
+        </div>
+        <div className="p-4 rounded-lg border border-slate-200 bg-slate-50">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Fleiss' Kappa</p>
+          <p className="text-2xl font-bold text-slate-900 mt-1">{formatStat(stats.fleissKappa)}</p>
+          <p className="text-xs text-slate-500 italic">{interpretKappa(stats.fleissKappa)} agreement</p>
+        </div>
+        <div className="p-4 rounded-lg border border-slate-200 bg-slate-50">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Kendall's W</p>
+          <p className="text-2xl font-bold text-slate-900 mt-1">{formatStat(stats.kendallW)}</p>
+          <p className="text-xs text-slate-500 italic">
+            &chi;&sup2; = {formatStat(stats.kendallChiSquare, 2)}, df = {stats.degreesOfFreedom}
+          </p>
+        </div>
+      </div>
+
+      {/* Per-cell agreement */}
+      <div>
+        <h4 className="font-bold text-slate-800 mb-2 text-sm">Per-cell agreement</h4>
+        <div className="overflow-x-auto border rounded-lg border-slate-200">
+          <table className="w-full border-collapse text-sm text-left">
+            <thead className="bg-slate-50 text-slate-700 font-semibold">
+              <tr>
+                <th className="p-3 border border-slate-200">Pair (i, j)</th>
+                <th className="p-3 border border-slate-200 text-center">V</th>
+                <th className="p-3 border border-slate-200 text-center">A</th>
+                <th className="p-3 border border-slate-200 text-center">X</th>
+                <th className="p-3 border border-slate-200 text-center">O</th>
+                <th className="p-3 border border-slate-200 text-center" title="Experts who left the pair unanswered; not counted as votes">Blank</th>
+                <th className="p-3 border border-slate-200 text-center">Modal</th>
+                <th className="p-3 border border-slate-200 text-center">Agreement</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white">
+              {stats.cells.map(cell => (
+                <tr key={`${cell.i}-${cell.j}`} className="hover:bg-slate-50 transition-colors">
+                  <td className="p-3 border border-slate-200 font-semibold text-slate-900">{factors[cell.i].name}, {factors[cell.j].name}</td>
+                  <td className="p-3 border border-slate-200 text-center text-slate-600">{cell.votes.V}</td>
+                  <td className="p-3 border border-slate-200 text-center text-slate-600">{cell.votes.A}</td>
+                  <td className="p-3 border border-slate-200 text-center text-slate-600">{cell.votes.X}</td>
+                  <td className="p-3 border border-slate-200 text-center text-slate-600">{cell.votes.O}</td>
+                  <td className="p-3 border border-slate-200 text-center text-slate-400">{cell.unanswered}</td>
+                  <td className="p-3 border border-slate-200 text-center font-bold text-slate-800">{cell.modalValue ?? '–'}</td>
+                  <td className={`p-3 border border-slate-200 text-center font-bold ${cell.agreement > 0.5 ? 'text-indigo-600' : 'text-red-600'}`}>
+                    {(cell.agreement * 100).toFixed(0)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Driving power by expert (basis for Kendall's W) */}
+      <div>
+        <h4 className="font-bold text-slate-800 mb-2 text-sm">Driving power by expert</h4>
+        <div className="overflow-x-auto border rounded-lg border-slate-200">
+          <table className="w-full border-collapse text-sm text-left">
+            <thead className="bg-slate-50 text-slate-700 font-semibold">
+              <tr>
+                <th className="p-3 border border-slate-200">Expert</th>
+                {factors.map(f => <th key={f.id} className="p-3 border border-slate-200 text-center">{f.name}</th>)}
+              </tr>
+            </thead>
+            <tbody className="bg-white">
+              {stats.drivingPowerByExpert.map((row, e) => (
+                <tr key={experts[e]?.id || e} className="hover:bg-slate-50 transition-colors">
+                  <td className="p-3 border border-slate-200 font-semibold text-slate-900 whitespace-nowrap">{experts[e]?.name}</td>
+                  {row.map((val, j) => <td key={j} className="p-3 border border-slate-200 text-center text-slate-600">{val}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgreementTable;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { ISMElement, SSIMValue, LinkInterpretations, CellAnnotation, ConfidenceLevel } from '../types';
+import { X } from 'lucide-react';
+
+interface Props {
+  rowFactor: ISMElement;
+  colFactor: ISMElement;
+  value: SSIMValue | null;
+  interpretations?: LinkInterpretations; // Omitted when TISM is not in use
+  onInterpretationChange?: (fromId: string, toId: string, text: string) => void;
+  annotation?: CellAnnotation;
+  onAnnotationChange?: (annotation: CellAnnotation) => void;
+  onClose: () => void;
+}
+
+const CONFIDENCE_LEVELS = [ConfidenceLevel.LOW, ConfidenceLevel.MEDIUM, ConfidenceLevel.HIGH];
+
+const CellDetailsPopover: React.FC<Props> = ({ rowFactor, colFactor, value, interpretations, onInterpretationChange, annotation, onAnnotationChange, onClose }) => {
+  // Directed links implied by the cell value
+  const links: [ISMElement, ISMElement][] = [];
+  if (value === SSIMValue.V || value === SSIMValue.X) links.push([rowFactor, colFactor]);
+  if (value === SSIMValue.A || value === SSIMValue.X) links.push([colFactor, rowFactor]);
+
+  const rationale = annotation?.rationale || '';
+  const confidence = annotation?.confidence;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/30 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg border border-slate-200 shadow-xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <h3 className="font-bold text-slate-800 text-sm">
+            Cell ({rowFactor.name}, {colFactor.name}): <span className="font-mono">{value ?? 'unanswered'}</span>
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {onAnnotationChange && (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">Why was this relation chosen?</label>
+                <textarea
+                  value={rationale}
+                  onChange={e => onAnnotationChange({ rationale: e.target.value, confidence })}
+                  rows={2}
+                  placeholder="Rationale, source or expert remark"
+                  className="w-full p-2 rounded-md border border-slate-300 text-sm outline-none resize-y focus:border-slate-500 focus:ring-1 focus:ring-slate-500"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-bold text-slate-500">Confidence</span>
+                <div className="flex bg-slate-100 p-1 rounded-md">
+                  {CONFIDENCE_LEVELS.map(level => (
+                    <button
+                      key={level}
+                      type="button"
+                      // Clicking the selected level clears it
+                      onClick={() => onAnnotationChange({ rationale, confidence: confidence === level ? undefined : level })}
+                      className={`px-3 py-1 rounded text-xs font-bold capitalize transition-all ${confidence === level ? 'bg-white text-slate-900 shadow-sm ring-1 ring-slate-200' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      {level}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {interpretations && onInterpretationChange && (
+            <div className={`space-y-4 ${onAnnotationChange ? 'pt-4 border-t border-slate-100' : ''}`}>
+              {links.length === 0 ? (
+                <p className="text-xs text-slate-400">
+                  {value === null ? 'Unanswered: choose a relation before interpreting it.' : 'No relation (O): there is no link to interpret.'}
+                </p>
+              ) : (
+                links.map(([from, to]) => (
+                  <div key={`${from.id}-${to.id}`}>
+                    <label className="block text-xs font-bold text-slate-500 mb-1">
+                      How does {from.name} influence {to.name}?
+                    </label>
+                    <textarea
+                      value={interpretations[from.id]?.[to.id] || ''}
+                      onChange={e => onInterpretationChange(from.id, to.id, e.target.value)}
+                      rows={2}
+                      placeholder={`${from.description || from.name} → ${to.description || to.name}`}
+                      className="w-full p-2 rounded-md border border-slate-300 text-sm outline-none resize-y focus:border-slate-500 focus:ring-1 focus:ring-slate-500"
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CellDetailsPopover;
@@ -0,0 +1,60 @@
+
+import React from 'react';
+import { ISMElement, TransitivityViolation, SSIMValue } from '../types';
+import { AlertTriangle, CheckCircle2, Crosshair, Wand2, X } from 'lucide-react';
+
+interface Props {
+  factors: ISMElement[];
+  violations: TransitivityViolation[];
+  onJumpToCell: (i: number, j: number) => void;
+  onProceed: () => void;
+  onClose: () => void;
+}
+
+const describeStated = (value: SSIMValue) => (value === SSIMValue.O ? 'marked O (no relation)' : `marked ${value} (opposite direction)`);
+
+const ConsistencyReport: React.FC<Props> = ({ factors, violations, onJumpToCell, onProceed, onClose }) => {
+  const passed = violations.length === 0;
+
+  return (
+    <div className={`flex-shrink-0 rounded-lg border shadow-sm ${passed ? 'bg-emerald-50 border-emerald-200' : 'bg-amber-50 border-amber-200'}`}>
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5">
+        <div className={`flex items-center gap-2 text-sm font-bold ${passed ? 'text-emerald-800' : 'text-amber-800'}`}>
+          {passed ? <CheckCircle2 className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+          {passed
+            ? 'No transitivity conflicts: every 1* link falls on an unanswered cell.'
+            : `${violations.length} transitive link${violations.length === 1 ? '' : 's'} contradict answered cells`}
+        </div>
+        <div className="flex items-center gap-2">
+          {!passed && (
+            <button type="button" onClick={onProceed} className="px-3 py-1.5 border border-amber-300 bg-white text-amber-800 rounded-md text-xs font-bold flex items-center gap-1.5 hover:bg-amber-100">
+              <Wand2 className="w-3.5 h-3.5" /> Generate anyway
+            </button>
+          )}
+          <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!passed && (
+        <ul className="max-h-40 overflow-y-auto border-t border-amber-200 divide-y divide-amber-100 text-xs">
+          {violations.map(v => (
+            <li key={`${v.from}-${v.to}`} className="flex items-center justify-between gap-3 px-4 py-1.5">
+              <span className="text-slate-700">
+                <span className="font-bold">{factors[v.from].name} &rarr; {factors[v.to].name}</span>
+                {' '}is implied by <span className="font-mono">{v.path.map(el => factors[el].name).join(' → ')}</span>,
+                {' '}but cell ({factors[v.i].name}, {factors[v.j].name}) is {describeStated(v.stated)}.
+              </span>
+              <button type="button" onClick={() => onJumpToCell(v.i, v.j)} className="flex-shrink-0 px-2 py-1 border border-slate-300 bg-white text-slate-600 rounded text-[11px] font-medium flex items-center gap-1 hover:bg-slate-50">
+                <Crosshair className="w-3.5 h-3.5" /> Show cell
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ConsistencyReport;
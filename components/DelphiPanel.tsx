@@ -0,0 +1,136 @@
+
+import React from 'react';
+import { ISMElement, DelphiRound, RoundConvergence } from '../types';
+import { Repeat, Plus, CheckCircle2, AlertTriangle, FileText } from 'lucide-react';
+
+interface Props {
+  factors: ISMElement[];
+  rounds: DelphiRound[];
+  activeRoundIndex: number;
+  setActiveRoundIndex: (index: number) => void;
+  onStartNextRound: () => void;
+  convergence: RoundConvergence;
+  stopThreshold: number;
+  setStopThreshold: (threshold: number) => void;
+  onFeedbackChange: (feedback: string) => void;
+  onGenerateFeedback: () => void;
+}
+
+const DelphiPanel: React.FC<Props> = ({
+  factors,
+  rounds,
+  activeRoundIndex,
+  setActiveRoundIndex,
+  onStartNextRound,
+  convergence,
+  stopThreshold,
+  setStopThreshold,
+  onFeedbackChange,
+  onGenerateFeedback,
+}) => {
+  const activeRound = rounds[activeRoundIndex];
+  const isFinalRound = activeRoundIndex === rounds.length - 1;
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Repeat className="w-4 h-4 text-slate-500" />
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Delphi Rounds</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-slate-100 p-1 rounded-md">
+            {rounds.map((round, idx) => (
+              <button
+                key={round.number}
+                type="button"
+                onClick={() => setActiveRoundIndex(idx)}
+                className={`px-3 py-1 rounded text-xs font-bold whitespace-nowrap transition-all ${idx === activeRoundIndex ? 'bg-white text-slate-900 shadow-sm ring-1 ring-slate-200' : 'text-slate-500 hover:text-slate-900'}`}
+              >
+                Round {round.number}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            Stop at
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={Math.round(stopThreshold * 100)}
+              onChange={e => setStopThreshold(Math.min(100, Math.max(0, Number(e.target.value))) / 100)}
+              className="w-16 p-1.5 rounded border border-slate-300 text-slate-700 outline-none"
+            />
+            % agreement
+          </label>
+          <button
+            type="button"
+            onClick={onStartNextRound}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-md font-bold text-xs transition-colors border bg-slate-800 text-white border-slate-900 hover:bg-slate-700"
+          >
+            <Plus className="w-4 h-4" /> Start Round {rounds.length + 1}
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-4 text-sm">
+        <div className="space-y-3">
+          <div className={`flex items-center gap-2 p-3 rounded border ${convergence.passed ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+            {convergence.passed ? <CheckCircle2 className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+            <span className="font-bold">
+              Mean agreement {(convergence.meanAgreement * 100).toFixed(1)}%
+            </span>
+            <span className="text-xs">
+              {convergence.passed ? 'Stop threshold reached.' : `Below the ${Math.round(stopThreshold * 100)}% stop threshold.`}
+            </span>
+          </div>
+
+          {convergence.stability !== null ? (
+            <div>
+              <p className="text-xs font-bold text-slate-500 mb-1">
+                {convergence.changes.length} cells changed since round {activeRound.number - 1} ({(convergence.stability * 100).toFixed(0)}% stable)
+              </p>
+              {convergence.changes.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+                  {convergence.changes.map(change => (
+                    <span key={`${change.i}-${change.j}`} className="px-2 py-0.5 rounded border border-purple-200 bg-purple-50 text-purple-800 text-[11px] font-medium">
+                      {factors[change.i].name}/{factors[change.j].name}: {change.from} &rarr; {change.to}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400">First round: no previous round to compare against.</p>
+          )}
+
+          {!isFinalRound && (
+            <p className="text-xs text-slate-500 italic">
+              Viewing an earlier round. The analysis always uses the aggregate of round {rounds.length}.
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-500">Feedback summary for round {activeRound.number}</span>
+            <button type="button" onClick={onGenerateFeedback} className="px-2 py-1 border border-slate-300 bg-white text-slate-600 rounded text-xs font-medium flex items-center gap-1 hover:bg-slate-50">
+              <FileText className="w-3.5 h-3.5" /> Draft from results
+            </button>
+          </div>
+          <textarea
+            value={activeRound.feedback}
+            onChange={e => onFeedbackChange(e.target.value)}
+            rows={4}
+            placeholder="Summary of this round's results and comments to send back to the panel..."
+            className="w-full p-2 rounded-md border border-slate-300 text-xs outline-none resize-y"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DelphiPanel;
@@ -0,0 +1,137 @@
+
+import React, { useState, useMemo } from 'react';
+import { ISMElement, SSIMData, SSIMValue, ElicitationAnswer } from '../types';
+import { inferRelations, nextQuestion, allowedValues, countDecided, knowledgeToSSIM, answersFromSSIM } from '../services/elicitation';
+import { Undo2, ClipboardCheck, MessageCircleQuestion } from 'lucide-react';
+
+interface Props {
+  factors: ISMElement[];
+  ssim: SSIMData; // The SSIM being filled in; its answered cells are kept unless the user starts over
+  onApply: (ssim: SSIMData, inferred: string[]) => void;
+  disabledReason?: string;
+}
+
+const ElicitationWizard: React.FC<Props> = ({ factors, ssim, onApply, disabledReason }) => {
+  const [answers, setAnswers] = useState<ElicitationAnswer[]>([]);
+  // Off: every cell is asked again and applying overwrites the SSIM's answers
+  const [keepAnswered, setKeepAnswered] = useState(true);
+
+  const ids = useMemo(() => factors.map(f => f.id), [factors]);
+  const given = useMemo(() => (keepAnswered ? answersFromSSIM(ids, ssim) : []), [keepAnswered, ids, ssim]);
+  const known = useMemo(() => inferRelations(factors.length, [...given, ...answers]), [factors.length, given, answers]);
+  const question = nextQuestion(known);
+  // One question per SSIM cell, as in the grid
+  const total = (factors.length * (factors.length - 1)) / 2;
+  const decided = countDecided(known);
+  const inferredCount = decided - given.length - answers.length;
+
+  const answer = (value: SSIMValue) => {
+    if (!question) return;
+    setAnswers(prev => [...prev, { ...question, value }]);
+  };
+
+  const toggleKeepAnswered = (checked: boolean) => {
+    setKeepAnswered(checked);
+    setAnswers([]);
+  };
+
+  const handleApply = () => {
+    const { ssim: elicited, inferred } = knowledgeToSSIM(ids, known, answers, given);
+    onApply(elicited, inferred);
+  };
+
+  if (disabledReason) {
+    return (
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6 text-sm text-slate-500 text-center">{disabledReason}</div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <MessageCircleQuestion className="w-4 h-4 text-slate-500" />
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Guided Elicitation</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+          <span><span className="font-bold text-slate-800">{answers.length}</span> asked</span>
+          <span><span className="font-bold text-indigo-700">{inferredCount}</span> inferred</span>
+          <span className="px-2 py-0.5 rounded border border-emerald-200 bg-emerald-50 text-emerald-800 font-bold">
+            {inferredCount} question{inferredCount === 1 ? '' : 's'} saved
+          </span>
+        </div>
+      </div>
+
+      <div className="h-1.5 bg-slate-100">
+        <div className="h-full bg-slate-800 transition-all" style={{ width: `${total ? (decided / total) * 100 : 0}%` }} />
+      </div>
+
+      <div className="p-6 flex flex-col items-center text-center gap-4">
+        {given.length > 0 && (
+          <p className="text-xs text-slate-500">{given.length} of {total} cells were already answered in the SSIM and are kept.</p>
+        )}
+        {question ? (
+          <>
+            <p className="text-xs text-slate-400">Question {answers.length + 1} &middot; {decided} of {total} cells decided</p>
+            <h3 className="text-xl font-bold text-slate-800">
+              How do {factors[question.i].name} and {factors[question.j].name} relate?
+            </h3>
+            <p className="text-sm text-slate-600 max-w-xl">
+              <span className="font-semibold">{factors[question.i].name}</span>: {factors[question.i].description || factors[question.i].name}
+              <br />
+              <span className="font-semibold">{factors[question.j].name}</span>: {factors[question.j].description || factors[question.j].name}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full max-w-lg">
+              {([
+                { value: SSIMValue.V, label: `${factors[question.i].name} influences ${factors[question.j].name}` },
+                { value: SSIMValue.A, label: `${factors[question.j].name} influences ${factors[question.i].name}` },
+                { value: SSIMValue.X, label: 'Both influence each other' },
+                { value: SSIMValue.O, label: 'Neither influences the other' },
+              ]).filter(option => allowedValues(known, question.i, question.j).includes(option.value)).map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => answer(option.value)}
+                  className="px-4 py-2.5 bg-white border border-slate-300 hover:border-slate-900 hover:bg-slate-50 text-slate-700 text-sm rounded-md shadow-sm flex items-center gap-2 text-left"
+                >
+                  <span className="w-6 h-6 flex-shrink-0 rounded bg-slate-900 text-white text-xs font-bold flex items-center justify-center">{option.value}</span>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {allowedValues(known, question.i, question.j).length < 4 && (
+              <p className="text-xs text-indigo-700">One direction already follows from earlier answers, so only the matching options are offered.</p>
+            )}
+          </>
+        ) : (
+          <>
+            <h3 className="text-xl font-bold text-slate-800">All cells decided</h3>
+            <p className="text-sm text-slate-600">
+              {answers.length} of {total - given.length} open cells asked; transitivity answered the other {inferredCount}.
+            </p>
+          </>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          <button type="button" onClick={() => setAnswers(prev => prev.slice(0, -1))} disabled={answers.length === 0} className="px-4 py-2 border border-slate-300 bg-white text-slate-600 rounded-md hover:bg-slate-50 text-sm font-medium flex items-center gap-2 disabled:opacity-40">
+            <Undo2 className="w-4 h-4" /> Undo
+          </button>
+          <button type="button" onClick={handleApply} disabled={answers.length === 0} className="px-4 py-2 bg-slate-900 hover:bg-slate-800 text-white rounded-md text-sm font-bold flex items-center gap-2 disabled:opacity-40">
+            <ClipboardCheck className="w-4 h-4" /> Review in SSIM
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={keepAnswered} onChange={e => toggleKeepAnswered(e.target.checked)} className="accent-slate-900" />
+          Keep the cells already answered in the SSIM
+        </label>
+        <p className="text-xs text-slate-400 max-w-md">
+          {keepAnswered
+            ? 'Reviewing writes the newly decided cells to the SSIM. Inferred cells are marked there and can be overridden before generating the model.'
+            : 'Every cell is asked again, and reviewing overwrites the answers already in the SSIM.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ElicitationWizard;
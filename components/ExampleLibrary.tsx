@@ -0,0 +1,77 @@
+
+import React, { useState } from 'react';
+import { ExampleDataset, MicmacQuadrant } from '../types';
+import { EXAMPLE_DATASETS } from '../services/exampleDatasets';
+import { GraduationCap, ChevronDown, ChevronUp, Download } from 'lucide-react';
+
+interface Props {
+  onLoad: (dataset: ExampleDataset) => void;
+}
+
+const QUADRANT_LABELS: { quadrant: MicmacQuadrant; label: string }[] = [
+  { quadrant: MicmacQuadrant.DRIVER, label: 'Driving' },
+  { quadrant: MicmacQuadrant.LINKAGE, label: 'Linkage' },
+  { quadrant: MicmacQuadrant.DEPENDENT, label: 'Dependent' },
+  { quadrant: MicmacQuadrant.AUTONOMOUS, label: 'Autonomous' },
+];
+
+const ExampleLibrary: React.FC<Props> = ({ onLoad }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center justify-between hover:bg-slate-100 transition-colors"
+      >
+        <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <GraduationCap className="w-4 h-4" /> Example Studies
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-slate-500">
+            Illustrative studies with a filled SSIM and the levels and MICMAC quadrants the analysis gives for it. They are
+            teaching cases, not data from published studies. Loading one opens it as a new project; the current project stays in the library.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {EXAMPLE_DATASETS.map(dataset => (
+              <div key={dataset.id} className="border border-slate-200 rounded-md p-3 flex flex-col gap-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h4 className="text-sm font-bold text-slate-800">{dataset.title}</h4>
+                    <p className="text-[11px] text-slate-500">
+                      {dataset.factors.length} factors · {dataset.expectedLevels.length} levels · "{dataset.relationPhrase}"
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => onLoad(dataset)}
+                    className="px-2.5 py-1 bg-slate-900 hover:bg-slate-800 text-white rounded text-[11px] font-bold flex items-center gap-1 flex-shrink-0"
+                  >
+                    <Download className="w-3.5 h-3.5" /> Load
+                  </button>
+                </div>
+                <p className="text-xs text-slate-600">{dataset.summary}</p>
+                <dl className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-[11px]">
+                  {QUADRANT_LABELS.map(({ quadrant, label }) => (
+                    <div key={quadrant} className="flex gap-1">
+                      <dt className="font-bold text-slate-500">{label}:</dt>
+                      <dd className="text-slate-700">{dataset.expectedQuadrants[quadrant].join(', ') || '–'}</dd>
+                    </div>
+                  ))}
+                </dl>
+                <p className="text-[10px] text-slate-400 italic">{dataset.source}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExampleLibrary;
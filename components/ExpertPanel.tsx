@@ -0,0 +1,234 @@
+
+import React, { useState, useRef } from 'react';
+import { ExpertResponse, AggregationMethod, AggregationSettings, TieBreakRule } from '../types';
+import { normaliseImportedSSIM, sanitiseAnnotations, SSIM_FILE_VERSION } from '../services/ssimModel';
+import { Users, UserPlus, Upload, Save, Trash2, X, Scale } from 'lucide-react';
+
+interface Props {
+  factorIds: string[];
+  experts: ExpertResponse[];
+  setExperts: React.Dispatch<React.SetStateAction<ExpertResponse[]>>;
+  activeExpertId: string | null;
+  setActiveExpertId: (id: string | null) => void;
+  settings: AggregationSettings;
+  setSettings: React.Dispatch<React.SetStateAction<AggregationSettings>>;
+}
+
+const newId = () => crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2);
+
+// Accepts a panel export (versioned, or a bare array from older versions),
+// a single expert object, or an SSIM saved from the grid
+const parseExpertFile = (parsed: any, fileName: string, ids: string[]): ExpertResponse[] => {
+  const version = typeof parsed?.version === 'number' ? parsed.version : undefined;
+  const toExperts = (list: any[]) => list
+    .filter(e => e && typeof e.ssim === 'object')
+    .map((e, idx) => ({ id: newId(), name: e.name || `Expert ${idx + 1}`, role: e.role, ssim: normaliseImportedSSIM(e.ssim, ids, version), annotations: sanitiseAnnotations(e.annotations) }));
+
+  if (Array.isArray(parsed)) return toExperts(parsed);
+  if (parsed && Array.isArray(parsed.experts)) return toExperts(parsed.experts);
+  if (parsed && typeof parsed.ssim === 'object') {
+    return [{ id: newId(), name: parsed.name || fileName, role: parsed.role, ssim: normaliseImportedSSIM(parsed.ssim, ids, version), annotations: sanitiseAnnotations(parsed.annotations) }];
+  }
+  if (parsed && typeof parsed === 'object') {
+    return [{ id: newId(), name: fileName, ssim: normaliseImportedSSIM(parsed, ids) }];
+  }
+  return [];
+};
+
+const ExpertPanel: React.FC<Props> = ({ factorIds, experts, setExperts, activeExpertId, setActiveExpertId, settings, setSettings }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newExpert, setNewExpert] = useState({ name: '', role: '' });
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddExpert = () => {
+    if (!newExpert.name.trim()) {
+      alert("Expert name is required.");
+      return;
+    }
+    const expert: ExpertResponse = {
+      id: newId(),
+      name: newExpert.name.trim(),
+      role: newExpert.role.trim() || undefined,
+      ssim: {},
+    };
+    setExperts(prev => [...prev, expert]);
+    setActiveExpertId(expert.id);
+    setNewExpert({ name: '', role: '' });
+    setIsAdding(false);
+  };
+
+  const handleDeleteClick = (id: string) => {
+    if (deleteConfirmId === id) {
+      setExperts(prev => prev.filter(e => e.id !== id));
+      if (activeExpertId === id) setActiveExpertId(null);
+      setDeleteConfirmId(null);
+    } else {
+      setDeleteConfirmId(id);
+      setTimeout(() => setDeleteConfirmId(current => current === id ? null : current), 3000);
+    }
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []) as File[];
+    if (files.length === 0) return;
+
+    Promise.all(files.map(file => file.text().then(text => {
+      try {
+        return parseExpertFile(JSON.parse(text), file.name.replace(/\.json$/i, ''), factorIds);
+      } catch (err) {
+        console.error(err);
+        return [];
+      }
+    }))).then(results => {
+      const imported = results.flat();
+      if (imported.length === 0) {
+        alert("No valid expert SSIMs found.");
+      } else {
+        setExperts(prev => [...prev, ...imported]);
+      }
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify({ version: SSIM_FILE_VERSION, experts }, null, 2)], { type: "application/json" });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `Expert_Panel_${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4 text-slate-500" />
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Expert Panel</span>
+          <span className="text-xs font-bold text-slate-400 bg-white px-2 py-0.5 rounded border border-slate-200">{experts.length} Experts</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2 text-xs">
+            <Scale className="w-4 h-4 text-slate-400" />
+            <select
+              value={settings.method}
+              onChange={e => setSettings(prev => ({ ...prev, method: e.target.value as AggregationMethod }))}
+              className="p-1.5 rounded border border-slate-300 bg-white text-slate-700 outline-none"
+            >
+              <option value={AggregationMethod.MAJORITY}>Majority rule (&gt;50%)</option>
+              <option value={AggregationMethod.THRESHOLD}>Agreement threshold</option>
+              <option value={AggregationMethod.MODE}>Most frequent relation</option>
+            </select>
+            {settings.method === AggregationMethod.THRESHOLD && (
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(settings.threshold * 100)}
+                onChange={e => setSettings(prev => ({ ...prev, threshold: Math.min(100, Math.max(0, Number(e.target.value))) / 100 }))}
+                className="w-16 p-1.5 rounded border border-slate-300 text-slate-700 outline-none"
+                title="Minimum share of experts (%)"
+              />
+            )}
+            {settings.method === AggregationMethod.MODE && (
+              <select
+                value={settings.tieBreak}
+                onChange={e => setSettings(prev => ({ ...prev, tieBreak: e.target.value as TieBreakRule }))}
+                className="p-1.5 rounded border border-slate-300 bg-white text-slate-700 outline-none"
+                title="Tie-break"
+              >
+                <option value="conservative">Ties: prefer O</option>
+                <option value="inclusive">Ties: prefer X</option>
+              </select>
+            )}
+          </div>
+
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json" multiple className="hidden" />
+          <div className="flex bg-white rounded-md shadow-sm border border-slate-300 overflow-hidden divide-x divide-slate-200">
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 hover:bg-slate-50 text-slate-600 text-xs font-medium flex items-center gap-2">
+              <Upload className="w-4 h-4" /> Import
+            </button>
+            <button type="button" onClick={handleExport} disabled={experts.length === 0} className="px-3 py-1.5 hover:bg-slate-50 text-slate-600 text-xs font-medium flex items-center gap-2 disabled:text-slate-300">
+              <Save className="w-4 h-4" /> Save
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsAdding(!isAdding)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-md font-bold text-xs transition-colors border ${isAdding ? 'bg-slate-100 text-slate-600 border-slate-300' : 'bg-slate-800 text-white border-slate-900 hover:bg-slate-700'}`}
+          >
+            {isAdding ? <><X className="w-4 h-4"/> Cancel</> : <><UserPlus className="w-4 h-4"/> Add Expert</>}
+          </button>
+        </div>
+      </div>
+
+      {isAdding && (
+        <div className="p-4 border-b border-slate-200 grid grid-cols-1 md:grid-cols-12 gap-3 bg-slate-50">
+          <input
+            type="text"
+            placeholder="Expert name"
+            value={newExpert.name}
+            onChange={e => setNewExpert({ ...newExpert, name: e.target.value })}
+            className="md:col-span-5 p-2 rounded-md border border-slate-300 text-sm outline-none"
+          />
+          <input
+            type="text"
+            placeholder="Role (e.g. Project Manager, Academic)"
+            value={newExpert.role}
+            onChange={e => setNewExpert({ ...newExpert, role: e.target.value })}
+            className="md:col-span-5 p-2 rounded-md border border-slate-300 text-sm outline-none"
+          />
+          <button type="button" onClick={handleAddExpert} className="md:col-span-2 py-2 bg-slate-800 text-white font-bold text-sm rounded-md hover:bg-slate-700">
+            Save Expert
+          </button>
+        </div>
+      )}
+
+      <div className="p-3 flex flex-wrap gap-2">
+        {experts.length === 0 ? (
+          <p className="text-xs text-slate-400 px-1 py-1">
+            No experts added. The grid below is edited directly. Add or import expert SSIMs to aggregate a panel.
+          </p>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => setActiveExpertId(null)}
+              className={`px-3 py-1.5 rounded-md text-xs font-bold border transition-colors ${activeExpertId === null ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+            >
+              Aggregate SSIM
+            </button>
+            {experts.map(expert => {
+              const isActive = activeExpertId === expert.id;
+              const isDeleteConfirming = deleteConfirmId === expert.id;
+              return (
+                <div key={expert.id} className={`flex items-center rounded-md border text-xs overflow-hidden ${isActive ? 'border-slate-900 ring-1 ring-slate-900' : 'border-slate-300'}`}>
+                  <button
+                    type="button"
+                    onClick={() => setActiveExpertId(expert.id)}
+                    className={`px-3 py-1.5 font-medium ${isActive ? 'bg-slate-100 text-slate-900' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    <span className="font-bold">{expert.name}</span>
+                    {expert.role && <span className="text-slate-400 ml-1">({expert.role})</span>}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteClick(expert.id)}
+                    className={`px-2 py-1.5 border-l border-slate-200 ${isDeleteConfirming ? 'bg-red-600 text-white' : 'bg-white text-slate-400 hover:text-red-600'}`}
+                    title={isDeleteConfirming ? "Confirm Delete" : "Remove Expert"}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExpertPanel;
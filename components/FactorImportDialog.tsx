@@ -0,0 +1,254 @@
+
+import React, { useMemo, useState } from 'react';
+import { ISMElement, FactorField, FactorColumnMapping, FactorImportMode } from '../types';
+import { readFactorTable, guessColumnMapping, validateFactorImport, mergeImportedFactors, ENCODINGS } from '../services/factorFile';
+import { Upload, X, AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface Props {
+  fileName: string;
+  bytes: Uint8Array;
+  factors: ISMElement[]; // Current list, for merging
+  knownCategories: string[];
+  onApply: (factors: ISMElement[]) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<FactorField, string> = {
+  name: 'Code',
+  description: 'Description',
+  category: 'Category',
+  id: 'ID',
+};
+
+const DELIMITER_LABELS: Record<string, string> = { ',': 'Comma', ';': 'Semicolon', '\t': 'Tab', '|': 'Pipe' };
+
+// Rows shown in the mapping preview
+const PREVIEW_ROWS = 8;
+
+const selectClass = "px-2 py-1 rounded border border-slate-300 text-xs bg-white outline-none focus:border-slate-500";
+
+const FactorImportDialog: React.FC<Props> = ({ fileName, bytes, factors, knownCategories, onApply, onClose }) => {
+  // Empty settings use what was detected in the file
+  const [encoding, setEncoding] = useState('');
+  const [delimiter, setDelimiter] = useState('');
+  const [hasHeader, setHasHeader] = useState<boolean | undefined>(undefined);
+  const [sheet, setSheet] = useState('');
+  // Null until the user changes the guessed mapping
+  const [mapping, setMapping] = useState<FactorColumnMapping | null>(null);
+  const [mode, setMode] = useState<FactorImportMode>(factors.length > 0 ? 'merge' : 'replace');
+
+  const loaded = useMemo(() => {
+    try {
+      return { table: readFactorTable(bytes, fileName, { encoding: encoding || undefined, delimiter: delimiter || undefined, hasHeader, sheet: sheet || undefined }) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'The file could not be read.' };
+    }
+  }, [bytes, fileName, encoding, delimiter, hasHeader, sheet]);
+  const table = loaded.table;
+
+  const effectiveMapping = useMemo(() => mapping ?? (table ? guessColumnMapping(table) : null), [mapping, table]);
+  const validation = useMemo(() => (table && effectiveMapping ? validateFactorImport(table, effectiveMapping, knownCategories) : null), [table, effectiveMapping, knownCategories]);
+  const outcome = useMemo(() => {
+    if (!validation) return null;
+    return mode === 'merge'
+      ? mergeImportedFactors(factors, validation.factors)
+      : { factors: validation.factors, added: validation.factors.length, updated: 0 };
+  }, [validation, mode, factors]);
+
+  // Changing how the file is read changes its columns, so the mapping is guessed again
+  const changeSettings = (update: () => void) => {
+    update();
+    setMapping(null);
+  };
+
+  const fieldOfColumn = (column: number) =>
+    effectiveMapping ? (Object.keys(effectiveMapping) as FactorField[]).find(field => effectiveMapping[field] === column) : undefined;
+
+  // A field is read from one column only, so assigning it moves it
+  const assignColumn = (column: number, field: FactorField | '') => {
+    if (!effectiveMapping) return;
+    const next = { ...effectiveMapping };
+    (Object.keys(next) as FactorField[]).forEach(f => { if (next[f] === column) next[f] = null; });
+    if (field) next[field] = column;
+    setMapping(next);
+  };
+
+  const issues = validation?.issues || [];
+  const errorRows = new Set(issues.filter(issue => issue.severity === 'error').map(issue => issue.row));
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const importCount = validation?.factors.length || 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/30 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg border border-slate-200 shadow-xl w-full max-w-4xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <h3 className="font-bold text-slate-800 text-sm flex items-center gap-2">
+            <Upload className="w-4 h-4 text-slate-500" /> Import factors from {fileName}
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600">
+            {table && table.format === 'xlsx' ? (
+              <label className="flex items-center gap-2">
+                <span className="font-bold text-slate-500">Sheet</span>
+                <select value={table.sheet || ''} onChange={e => changeSettings(() => setSheet(e.target.value))} className={selectClass}>
+                  {table.sheets.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </label>
+            ) : (
+              <label className="flex items-center gap-2">
+                <span className="font-bold text-slate-500">Encoding</span>
+                <select value={encoding} onChange={e => changeSettings(() => setEncoding(e.target.value))} className={selectClass}>
+                  <option value="">Detected ({table?.encoding || 'unknown'})</option>
+                  {ENCODINGS.map(enc => <option key={enc} value={enc}>{enc}</option>)}
+                </select>
+              </label>
+            )}
+            {table && table.delimiter !== null && (
+              <label className="flex items-center gap-2">
+                <span className="font-bold text-slate-500">Delimiter</span>
+                <select value={delimiter} onChange={e => changeSettings(() => setDelimiter(e.target.value))} className={selectClass}>
+                  <option value="">Detected ({DELIMITER_LABELS[table.delimiter] || table.delimiter})</option>
+                  {Object.entries(DELIMITER_LABELS).map(([value, label]) => <option key={label} value={value}>{label}</option>)}
+                </select>
+              </label>
+            )}
+            {table && table.format !== 'json' && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={table.hasHeader}
+                  onChange={e => changeSettings(() => setHasHeader(e.target.checked))}
+                  className="accent-slate-900"
+                />
+                <span className="font-bold text-slate-500">First row is a header</span>
+              </label>
+            )}
+          </div>
+
+          {loaded.error ? (
+            <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded px-3 py-2">{loaded.error}</p>
+          ) : table && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Column mapping</h4>
+              <p className="text-xs text-slate-500 mb-2">Choose what each column holds. Only the code is required.</p>
+              <div className="overflow-x-auto border border-slate-200 rounded-md">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left font-bold text-slate-400">Row</th>
+                      {table.headers.map((header, column) => (
+                        <th key={column} className="px-2 py-1.5 text-left align-top">
+                          <select
+                            value={fieldOfColumn(column) || ''}
+                            onChange={e => assignColumn(column, e.target.value as FactorField | '')}
+                            className={`${selectClass} w-full ${fieldOfColumn(column) ? 'border-slate-900 font-bold' : 'text-slate-400'}`}
+                          >
+                            <option value="">Not imported</option>
+                            {(Object.keys(FIELD_LABELS) as FactorField[]).map(field => <option key={field} value={field}>{FIELD_LABELS[field]}</option>)}
+                          </select>
+                          <div className="mt-1 font-bold text-slate-600 truncate max-w-[12rem]" title={header}>{header}</div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {table.rows.slice(0, PREVIEW_ROWS).map((values, idx) => {
+                      const row = table.firstRowNumber + idx;
+                      return (
+                        <tr key={row} className={errorRows.has(row) ? 'bg-red-50 text-red-700' : 'text-slate-700'}>
+                          <td className="px-2 py-1 text-slate-400">{row}</td>
+                          {table.headers.map((_, column) => (
+                            <td key={column} className={`px-2 py-1 max-w-[16rem] truncate ${fieldOfColumn(column) ? '' : 'text-slate-300'}`} title={values[column]}>
+                              {values[column]}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {table.rows.length > PREVIEW_ROWS && (
+                <p className="text-[11px] text-slate-400 mt-1">Showing the first {PREVIEW_ROWS} of {table.rows.length} rows.</p>
+              )}
+            </div>
+          )}
+
+          {validation && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
+                Validation: {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+              </h4>
+              {issues.length === 0 ? (
+                <p className="text-xs text-emerald-700 bg-emerald-50 border border-emerald-100 rounded px-3 py-2 flex items-center gap-2">
+                  <CheckCircle2 className="w-3.5 h-3.5" /> All {importCount} rows are valid.
+                </p>
+              ) : (
+                <ul className="max-h-40 overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-md">
+                  {issues.map((issue, idx) => (
+                    <li key={idx} className={`flex items-start gap-2 px-3 py-1.5 text-xs ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}>
+                      {issue.severity === 'error' ? <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" /> : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />}
+                      <span>{issue.row > 0 && <span className="font-bold mr-1">Row {issue.row}:</span>}{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {errorCount > 0 && importCount > 0 && (
+                <p className="text-[11px] text-slate-500 mt-1">Rows with errors are left out of the import.</p>
+              )}
+            </div>
+          )}
+
+          {validation && factors.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Current factors</h4>
+              <div className="flex flex-col sm:flex-row gap-2">
+                {([
+                  { value: 'merge', label: 'Merge', hint: 'Update factors with the same ID or code, add the rest.' },
+                  { value: 'replace', label: 'Replace', hint: `Discard the ${factors.length} current factors.` },
+                ] as const).map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setMode(option.value)}
+                    className={`flex-1 text-left px-3 py-2 rounded-md border text-xs ${mode === option.value ? 'border-slate-900 bg-slate-50 ring-1 ring-slate-900' : 'border-slate-200 hover:bg-slate-50'}`}
+                  >
+                    <span className="font-bold text-slate-800">{option.label}</span>
+                    <span className="block text-slate-500">{option.hint}</span>
+                  </button>
+                ))}
+              </div>
+              {outcome && (
+                <p className="text-xs text-slate-600">
+                  {mode === 'merge'
+                    ? `${outcome.added} added, ${outcome.updated} updated; ${outcome.factors.length} factors in total.`
+                    : `${factors.length} factors replaced by ${outcome.factors.length}.`}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-slate-200">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 border border-slate-300 bg-white text-slate-600 rounded-md text-xs font-bold hover:bg-slate-50">Cancel</button>
+          <button
+            type="button"
+            onClick={() => outcome && onApply(outcome.factors)}
+            disabled={importCount === 0}
+            className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 text-white rounded-md text-xs font-bold flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-3.5 h-3.5" /> Import {importCount} {importCount === 1 ? 'factor' : 'factors'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FactorImportDialog;
@@ -1,75 +1,38 @@
 
 import React, { useState, useMemo, useRef } from 'react';
-import { ISMElement } from '../types';
-import { Tag, Plus, Trash2, Edit2, Save, X, Upload, FileJson, FileText, Trash, FileDown, ArrowRight, Check } from 'lucide-react';
+import { ISMElement, SSIMData, SSIMValue } from '../types';
+import { getCategoryColorClasses } from '../services/categoryColors';
+import { serialiseFactorCSV } from '../services/factorFile';
+import FactorMergeDialog from './FactorMergeDialog';
+import FactorSplitDialog from './FactorSplitDialog';
+import FactorImportDialog from './FactorImportDialog';
+import { Tag, Plus, Trash2, Edit2, Save, X, Upload, FileJson, FileText, Trash, FileDown, ArrowRight, Check, GripVertical, ArrowDownAZ, Merge, Split, BookMarked } from 'lucide-react';
 
 interface Props {
   factors: ISMElement[];
   setFactors: React.Dispatch<React.SetStateAction<ISMElement[]>>;
+  onReorder: (factors: ISMElement[]) => void; // Changes the order only; the SSIM is remapped to match
+  ssim: SSIMData; // Source of the merge conflicts
+  panelSsims: SSIMData[]; // Expert SSIMs, merged by union whatever is chosen for the study SSIM
+  onMerge: (sourceIds: string[], merged: ISMElement, resolutions: Record<string, SSIMValue | null>) => void;
+  onSplit: (parentId: string, children: ISMElement[]) => void;
   topic: string;
   onNext: () => void;
 }
 
-// Professional Color Palette - High Contrast & Distinct
-// Using explicit class strings to ensure Tailwind picks them up
-const PALETTE = [
-  { name: 'Red', bg: 'bg-red-100', text: 'text-red-900', border: 'border-red-300', borderL: 'border-l-red-600', hex: '#dc2626' },
-  { name: 'Blue', bg: 'bg-blue-100', text: 'text-blue-900', border: 'border-blue-300', borderL: 'border-l-blue-600', hex: '#2563eb' },
-  { name: 'Emerald', bg: 'bg-emerald-100', text: 'text-emerald-900', border: 'border-emerald-300', borderL: 'border-l-emerald-600', hex: '#059669' },
-  { name: 'Amber', bg: 'bg-amber-100', text: 'text-amber-900', border: 'border-amber-300', borderL: 'border-l-amber-600', hex: '#d97706' },
-  { name: 'Purple', bg: 'bg-purple-100', text: 'text-purple-900', border: 'border-purple-300', borderL: 'border-l-purple-600', hex: '#7c3aed' },
-  { name: 'Pink', bg: 'bg-pink-100', text: 'text-pink-900', border: 'border-pink-300', borderL: 'border-l-pink-600', hex: '#db2777' },
-  { name: 'Cyan', bg: 'bg-cyan-100', text: 'text-cyan-900', border: 'border-cyan-300', borderL: 'border-l-cyan-600', hex: '#0891b2' },
-  { name: 'Lime', bg: 'bg-lime-100', text: 'text-lime-900', border: 'border-lime-300', borderL: 'border-l-lime-600', hex: '#65a30d' },
-  { name: 'Orange', bg: 'bg-orange-100', text: 'text-orange-900', border: 'border-orange-300', borderL: 'border-l-orange-600', hex: '#ea580c' },
-  { name: 'Slate', bg: 'bg-slate-200', text: 'text-slate-800', border: 'border-slate-400', borderL: 'border-l-slate-600', hex: '#475569' },
-];
-
-const KNOWN_MAPPINGS: Record<string, number> = {
-  'management': 0, // Red
-  'cost': 8, // Orange
-  'financial': 8,
-  'organization': 1, // Blue
-  'technology': 6, // Cyan
-  'technical': 6,
-  'knowledge': 4, // Purple
-  'process': 3, // Amber
-  'policy': 9, // Slate
-  'legal': 9,
-  'environment': 2, // Emerald
-  'safety': 7, // Lime
-};
+const DEFAULT_CATEGORIES = ['Management', 'Cost', 'Organization', 'Technology', 'Knowledge', 'Process', 'Policy', 'Environment', 'Safety'];
 
-export const getCategoryTheme = (category?: string) => {
-  if (!category) return PALETTE[9]; // Default Slate
-  
-  const normalizedCat = category.toLowerCase().trim();
-  
-  if (KNOWN_MAPPINGS[normalizedCat] !== undefined) {
-      return PALETTE[KNOWN_MAPPINGS[normalizedCat]];
-  }
-
-  // Robust Hashing for unknown categories
-  // Modified to use a different prime multiplier to separate similar strings better
-  let hash = 0;
-  for (let i = 0; i < normalizedCat.length; i++) {
-    hash = ((hash << 5) - hash) + normalizedCat.charCodeAt(i);
-    hash |= 0; // Convert to 32bit integer
-  }
-  // Added salt to shift distribution
-  return PALETTE[Math.abs(hash + 13) % PALETTE.length];
-};
+const newId = () => crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2);
 
-export const getCategoryColorClasses = (category?: string) => {
-  const theme = getCategoryTheme(category);
-  return `${theme.bg} ${theme.text} ${theme.border}`;
-};
+// Numbers inside codes sort naturally (F2 before F10)
+const compareText = (a = '', b = '') => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
 
-export const getCategoryColorHex = (category?: string) => getCategoryTheme(category).hex;
-
-const DEFAULT_CATEGORIES = ['Management', 'Cost', 'Organization', 'Technology', 'Knowledge', 'Process', 'Policy', 'Environment', 'Safety'];
+const SORTS = {
+  category: (a: ISMElement, b: ISMElement) => compareText(a.category, b.category) || compareText(a.name, b.name),
+  name: (a: ISMElement, b: ISMElement) => compareText(a.name, b.name),
+};
 
-const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
+const FactorInput: React.FC<Props> = ({ factors, setFactors, onReorder, ssim, panelSsims, onMerge, onSplit, onNext }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValues, setEditValues] = useState<Partial<ISMElement>>({});
   const [isAdding, setIsAdding] = useState(false);
@@ -79,7 +42,18 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
   const [clearConfirm, setClearConfirm] = useState(false);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
 
+  // Drag-and-drop: the dragged factor and the gap it would drop into (0..N)
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Factors ticked for a merge, and the open merge/split dialog
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+  const [splitId, setSplitId] = useState<string | null>(null);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // File waiting in the import dialog
+  const [importFile, setImportFile] = useState<{ name: string; bytes: Uint8Array } | null>(null);
 
   const availableCategories = useMemo(() => {
     const existing = new Set(factors.map(f => f.category || '').filter(Boolean));
@@ -93,7 +67,7 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
       return;
     }
     const factor: ISMElement = {
-      id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2),
+      id: newId(),
       name: newFactor.name.trim(),
       description: newFactor.description.trim(),
       category: newFactor.category
@@ -127,6 +101,55 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
     }
   };
 
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  // Keep the list order, not the order the boxes were ticked in
+  const mergeSourceIds = factors.filter(f => selectedIds.includes(f.id)).map(f => f.id);
+
+  const handleMerge = (merged: Omit<ISMElement, 'id'>, resolutions: Record<string, SSIMValue | null>) => {
+    // The merged factor keeps every source that mentioned one of the originals
+    const references = Array.from(new Set(factors.filter(f => mergeSourceIds.includes(f.id)).flatMap(f => f.references || [])));
+    onMerge(mergeSourceIds, { ...merged, id: newId(), ...(references.length > 0 ? { references } : {}) }, resolutions);
+    setSelectedIds([]);
+    setIsMerging(false);
+  };
+
+  const handleSplit = (children: Omit<ISMElement, 'id'>[]) => {
+    const references = factors.find(f => f.id === splitId)?.references;
+    if (splitId) onSplit(splitId, children.map(child => ({ ...child, id: newId(), ...(references ? { references } : {}) })));
+    setSplitId(null);
+  };
+
+  const moveFactor = (id: string, toIndex: number) => {
+    const from = factors.findIndex(f => f.id === id);
+    if (from === -1) return;
+    const insertAt = toIndex > from ? toIndex - 1 : toIndex;
+    if (insertAt === from) return;
+    const next = factors.filter(f => f.id !== id);
+    next.splice(insertAt, 0, factors[from]);
+    onReorder(next);
+  };
+
+  const handleSort = (key: keyof typeof SORTS) => {
+    const sorted = [...factors].sort(SORTS[key]);
+    if (sorted.some((f, idx) => f !== factors[idx])) onReorder(sorted);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, idx: number) => {
+    if (!dragId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientY < rect.top + rect.height / 2 ? idx : idx + 1);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (dragId && dropIndex !== null) moveFactor(dragId, dropIndex);
+    setDragId(null);
+    setDropIndex(null);
+  };
+
   const startEdit = (factor: ISMElement) => {
     setEditingId(factor.id);
     setEditValues({ ...factor });
@@ -139,61 +162,21 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
     setEditValues({});
   };
 
-  const parseCSV = (text: string): ISMElement[] => {
-    const lines = text.trim().split(/\r?\n/);
-    if (lines.length < 2) return [];
-    const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, '').toLowerCase());
-    const parsedFactors: ISMElement[] = [];
-    for (let i = 1; i < lines.length; i++) {
-        const line = lines[i];
-        if (!line.trim()) continue;
-        const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(v => v.trim().replace(/^"|"$/g, '').replace(/""/g, '"'));
-        
-        // Generate a new ID by default
-        const factor: any = { id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2) };
-        
-        headers.forEach((h, idx) => {
-            if (values[idx] !== undefined) {
-                // Only use the CSV ID if it is non-empty
-                if (h === 'id' && values[idx].trim()) factor.id = values[idx].trim();
-                else if (h === 'name' || h === 'factor') factor.name = values[idx];
-                else if (h === 'description' || h === 'desc') factor.description = values[idx];
-                else if (h === 'category' || h === 'cat') factor.category = values[idx];
-            }
-        });
-        if (factor.name) parsedFactors.push(factor as ISMElement);
-    }
-    return parsedFactors;
-  };
-
+  // Read as bytes so the import dialog can detect the encoding
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (event) => {
-        const text = event.target?.result as string;
-        try {
-            let parsed: ISMElement[] = [];
-            if (file.name.toLowerCase().endsWith('.csv')) {
-                parsed = parseCSV(text);
-            } else {
-                parsed = JSON.parse(text);
-            }
-
-            if (Array.isArray(parsed) && parsed.length > 0) {
-                // Ensure all imported items have unique IDs
-                const processed = parsed.map(f => ({
-                    ...f,
-                    id: f.id || (crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2))
-                }));
-                setFactors(processed);
-            } else {
-                alert("No valid factors found.");
-            }
-        } catch (err) { console.error(err); alert("Failed to parse file."); }
+        setImportFile({ name: file.name, bytes: new Uint8Array(event.target?.result as ArrayBuffer) });
         if (fileInputRef.current) fileInputRef.current.value = "";
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
+  };
+
+  const applyImport = (next: ISMElement[]) => {
+    setFactors(next);
+    setImportFile(null);
   };
 
   const handleExportJSON = () => {
@@ -205,11 +188,7 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
   };
 
   const handleExportCSV = () => {
-    const headers = ["id", "name", "description", "category"];
-    const rows = factors.map(f => [
-        `"${f.id}"`, `"${f.name.replace(/"/g, '""')}"`, `"${(f.description || '').replace(/"/g, '""')}"`, `"${(f.category || '').replace(/"/g, '""')}"`
-    ].join(","));
-    const blob = new Blob([[headers.join(","), ...rows].join("\n")], { type: "text/csv" });
+    const blob = new Blob([serialiseFactorCSV(factors)], { type: "text/csv" });
     const link = document.createElement('a');
     link.href = URL.createObjectURL(blob);
     link.download = `Factors_${new Date().toISOString().split('T')[0]}.csv`;
@@ -233,7 +212,7 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
         </div>
         
         <div className="flex flex-wrap items-center gap-3 w-full xl:w-auto">
-           <input type="file" ref={fileInputRef} className="hidden" accept=".json,.csv" onChange={handleImport} />
+           <input type="file" ref={fileInputRef} className="hidden" accept=".json,.csv,.tsv,.txt,.xlsx" onChange={handleImport} />
            
            <div className="flex flex-wrap gap-3">
              <div className="flex bg-white rounded-md shadow-sm border border-slate-300 overflow-hidden divide-x divide-slate-200">
@@ -330,7 +309,25 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
       <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
         <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex justify-between items-center">
             <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Factor List</span>
-            <span className="text-xs font-bold text-slate-400 bg-white px-2 py-0.5 rounded border border-slate-200">{factors.length} Items</span>
+            <div className="flex items-center gap-3">
+              {mergeSourceIds.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setIsMerging(true)}
+                  disabled={mergeSourceIds.length < 2}
+                  className="px-2 py-1 bg-slate-900 hover:bg-slate-800 text-white rounded-md text-[11px] font-bold flex items-center gap-1 disabled:opacity-40"
+                  title={mergeSourceIds.length < 2 ? 'Tick at least two factors to merge' : 'Merge the ticked factors into one'}
+                >
+                  <Merge className="w-3.5 h-3.5" /> Merge {mergeSourceIds.length}
+                </button>
+              )}
+              <div className="flex items-center bg-white rounded-md border border-slate-200 overflow-hidden divide-x divide-slate-200 text-[11px]" title="Reorder factors; SSIM entries are kept">
+                <span className="px-2 py-1 text-slate-400 flex items-center gap-1"><ArrowDownAZ className="w-3.5 h-3.5" /> Sort</span>
+                <button type="button" onClick={() => handleSort('category')} disabled={factors.length < 2} className="px-2 py-1 text-slate-600 font-medium hover:bg-slate-50 disabled:opacity-40">Category</button>
+                <button type="button" onClick={() => handleSort('name')} disabled={factors.length < 2} className="px-2 py-1 text-slate-600 font-medium hover:bg-slate-50 disabled:opacity-40">Name</button>
+              </div>
+              <span className="text-xs font-bold text-slate-400 bg-white px-2 py-0.5 rounded border border-slate-200">{factors.length} Items</span>
+            </div>
         </div>
         <div className="divide-y divide-slate-100 max-h-[600px] overflow-y-auto custom-scrollbar">
           {factors.length === 0 && (
@@ -339,7 +336,7 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
                  <p className="text-sm mt-1">Add items manually or use Import.</p>
              </div>
           )}
-          {factors.map((factor) => {
+          {factors.map((factor, idx) => {
              const isEditing = editingId === factor.id;
              const isDeleteConfirming = deleteConfirmId === factor.id;
              const catColor = getCategoryColorClasses(factor.category);
@@ -385,8 +382,25 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
              }
 
              return (
-              <div key={factor.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-4 hover:bg-slate-50 transition-colors group relative gap-3 sm:gap-4">
+              <div
+                key={factor.id}
+                draggable={!editingId}
+                onDragStart={e => { e.dataTransfer.effectAllowed = 'move'; e.dataTransfer.setData('text/plain', factor.id); setDragId(factor.id); }}
+                onDragOver={e => handleDragOver(e, idx)}
+                onDrop={handleDrop}
+                onDragEnd={() => { setDragId(null); setDropIndex(null); }}
+                className={`flex flex-col sm:flex-row sm:items-center justify-between p-4 hover:bg-slate-50 transition-colors group relative gap-3 sm:gap-4 border-y-2 border-transparent
+                  ${dropIndex === idx ? 'border-t-slate-900' : ''} ${dropIndex === idx + 1 && idx === factors.length - 1 ? 'border-b-slate-900' : ''} ${dragId === factor.id ? 'opacity-40' : ''}`}
+              >
                 <div className="flex items-center gap-4 overflow-hidden flex-1">
+                  <GripVertical className="w-4 h-4 flex-shrink-0 text-slate-300 group-hover:text-slate-500 cursor-grab" aria-label="Drag to reorder" />
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(factor.id)}
+                    onChange={() => toggleSelected(factor.id)}
+                    className="flex-shrink-0 accent-slate-900"
+                    title="Select for merging"
+                  />
                   <span className={`flex-shrink-0 flex items-center justify-center w-10 h-10 rounded text-xs font-bold border ${catColor}`}>
                     {factor.name}
                   </span>
@@ -398,6 +412,11 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
                           {factor.category}
                         </span>
                       )}
+                      {factor.references && factor.references.length > 0 && (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold border border-slate-200 bg-slate-50 text-slate-500" title="Literature sources mentioning this factor">
+                          <BookMarked className="w-3 h-3" /> {factor.references.length}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -411,6 +430,14 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
                     >
                         <Edit2 className="w-4 h-4" />
                     </button>
+                    <button
+                        type="button"
+                        onClick={(e) => { e.stopPropagation(); setSplitId(factor.id); }}
+                        className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors"
+                        title="Split into several factors"
+                    >
+                        <Split className="w-4 h-4" />
+                    </button>
                     <button 
                         type="button"
                         onClick={(e) => handleSingleDeleteClick(factor.id, e)}
@@ -436,6 +463,23 @@ const FactorInput: React.FC<Props> = ({ factors, setFactors, onNext }) => {
           Proceed to SSIM <ArrowRight className="w-4 h-4" />
         </button>
       </div>
+
+      {isMerging && (
+        <FactorMergeDialog factors={factors} sourceIds={mergeSourceIds} ssim={ssim} panelSsims={panelSsims} onConfirm={handleMerge} onClose={() => setIsMerging(false)} />
+      )}
+      {splitId && factors.some(f => f.id === splitId) && (
+        <FactorSplitDialog parent={factors.find(f => f.id === splitId)!} onConfirm={handleSplit} onClose={() => setSplitId(null)} />
+      )}
+      {importFile && (
+        <FactorImportDialog
+          fileName={importFile.name}
+          bytes={importFile.bytes}
+          factors={factors}
+          knownCategories={availableCategories}
+          onApply={applyImport}
+          onClose={() => setImportFile(null)}
+        />
+      )}
     </div>
   );
 };
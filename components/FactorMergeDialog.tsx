@@ -0,0 +1,143 @@
+
+import React, { useMemo, useState } from 'react';
+import { ISMElement, SSIMData, SSIMValue } from '../types';
+import { findMergeConflicts } from '../services/factorRestructure';
+import { Merge, X } from 'lucide-react';
+
+interface Props {
+  factors: ISMElement[];
+  sourceIds: string[];
+  ssim: SSIMData;
+  panelSsims: SSIMData[];
+  onConfirm: (merged: Omit<ISMElement, 'id'>, resolutions: Record<string, SSIMValue | null>) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 rounded-md border border-slate-300 text-sm outline-none focus:border-slate-500 focus:ring-1 focus:ring-slate-500";
+const labelClass = "block text-xs font-bold text-slate-500 mb-1";
+
+const FactorMergeDialog: React.FC<Props> = ({ factors, sourceIds, ssim, panelSsims, onConfirm, onClose }) => {
+  const sources = factors.filter(f => sourceIds.includes(f.id));
+  const [merged, setMerged] = useState({
+    name: sources[0]?.name || '',
+    description: sources.map(f => f.description || f.name).join(' / '),
+    category: sources[0]?.category || '',
+  });
+  const conflicts = useMemo(() => findMergeConflicts(ssim, factors, sourceIds), [ssim, factors, sourceIds]);
+  const conflictingExperts = useMemo(
+    () => panelSsims.filter(expertSsim => findMergeConflicts(expertSsim, factors, sourceIds).length > 0).length,
+    [panelSsims, factors, sourceIds],
+  );
+  // '' leaves the pair unanswered
+  const [choices, setChoices] = useState<Record<string, SSIMValue | ''>>(() =>
+    Object.fromEntries(conflicts.map(c => [c.otherId, c.suggested ?? ''])));
+
+  const nameOf = (id: string) => factors.find(f => f.id === id)?.name || id;
+  const mergedName = merged.name.trim() || 'merged';
+  const describe = (value: SSIMValue, otherId: string) => ({
+    [SSIMValue.V]: `${mergedName} → ${nameOf(otherId)}`,
+    [SSIMValue.A]: `${nameOf(otherId)} → ${mergedName}`,
+    [SSIMValue.X]: `${mergedName} ↔ ${nameOf(otherId)}`,
+    [SSIMValue.O]: 'no relation',
+  }[value]);
+
+  const handleConfirm = () => {
+    if (!merged.name.trim()) {
+      alert("The merged factor needs a code.");
+      return;
+    }
+    onConfirm(
+      { name: merged.name.trim(), description: merged.description.trim(), category: merged.category.trim() || undefined },
+      Object.fromEntries(Object.entries(choices).map(([otherId, value]) => [otherId, value || null]))
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/30 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg border border-slate-200 shadow-xl w-full max-w-2xl flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <h3 className="font-bold text-slate-800 text-sm flex items-center gap-2">
+            <Merge className="w-4 h-4 text-slate-500" /> Merge {sources.map(f => f.name).join(', ')}
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+            <div className="md:col-span-1">
+              <label className={labelClass}>Code</label>
+              <input value={merged.name} onChange={e => setMerged({ ...merged, name: e.target.value })} className={inputClass} />
+            </div>
+            <div className="md:col-span-3">
+              <label className={labelClass}>Description</label>
+              <input value={merged.description} onChange={e => setMerged({ ...merged, description: e.target.value })} className={inputClass} />
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClass}>Category</label>
+              <input value={merged.category} onChange={e => setMerged({ ...merged, category: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">SSIM relations</h4>
+            <p className="text-xs text-slate-500 mb-2">
+              Where the merged factors agree, or only one was answered, that relation is kept. Otherwise the merged factor
+              takes both directions by default (e.g. V and A become X); choose another relation below if needed.
+              Notes, fuzzy ratings and TISM interpretations of the merged factors are carried over and joined.
+            </p>
+            {conflictingExperts > 0 && (
+              <p className="text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded px-3 py-2 mb-2">
+                {conflictingExperts} expert SSIM{conflictingExperts === 1 ? '' : 's'} also disagree{conflictingExperts === 1 ? 's' : ''} across
+                the merged factors. Your choices below apply to the study SSIM only: each expert keeps the combined relation of their own
+                answers, so no expert answer is overwritten.
+              </p>
+            )}
+            {conflicts.length === 0 ? (
+              <p className="text-xs text-emerald-700 bg-emerald-50 border border-emerald-100 rounded px-3 py-2">No conflicting relations.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md">
+                {conflicts.map(conflict => {
+                  const offered = Array.from(new Set([conflict.suggested, ...conflict.options.map(o => o.value)]
+                    .filter((v): v is SSIMValue => v !== null)));
+                  return (
+                    <li key={conflict.otherId} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2 text-xs">
+                      <div className="text-slate-700">
+                        <span className="font-bold">{nameOf(conflict.otherId)}</span>
+                        <span className="text-slate-400 ml-2">
+                          {conflict.options.map(o => `${nameOf(o.sourceId)}: ${o.value ?? '–'}`).join(' · ')}
+                        </span>
+                      </div>
+                      <select
+                        value={choices[conflict.otherId] ?? ''}
+                        onChange={e => setChoices({ ...choices, [conflict.otherId]: e.target.value as SSIMValue | '' })}
+                        className="px-2 py-1 rounded border border-slate-300 text-xs bg-white outline-none focus:border-slate-500"
+                      >
+                        {offered.map(value => (
+                          <option key={value} value={value}>
+                            {value} ({describe(value, conflict.otherId)}){value === conflict.suggested ? ' – combined' : ''}
+                          </option>
+                        ))}
+                        <option value="">Leave unanswered</option>
+                      </select>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-slate-200">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 border border-slate-300 bg-white text-slate-600 rounded-md text-xs font-bold hover:bg-slate-50">Cancel</button>
+          <button type="button" onClick={handleConfirm} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 text-white rounded-md text-xs font-bold flex items-center gap-1.5">
+            <Merge className="w-3.5 h-3.5" /> Merge {sources.length} factors
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FactorMergeDialog;
@@ -0,0 +1,86 @@
+
+import React, { useState } from 'react';
+import { ISMElement } from '../types';
+import { Split, Plus, Trash2, X } from 'lucide-react';
+
+interface Props {
+  parent: ISMElement;
+  onConfirm: (children: Omit<ISMElement, 'id'>[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 rounded-md border border-slate-300 text-sm outline-none focus:border-slate-500 focus:ring-1 focus:ring-slate-500";
+
+const FactorSplitDialog: React.FC<Props> = ({ parent, onConfirm, onClose }) => {
+  const makeChild = (suffix: string) => ({ name: `${parent.name}${suffix}`, description: parent.description || '', category: parent.category || '' });
+  const [children, setChildren] = useState(() => [makeChild('a'), makeChild('b')]);
+
+  const updateChild = (idx: number, field: 'name' | 'description' | 'category', value: string) =>
+    setChildren(children.map((child, i) => i === idx ? { ...child, [field]: value } : child));
+
+  const handleConfirm = () => {
+    if (children.some(child => !child.name.trim())) {
+      alert("Every new factor needs a code.");
+      return;
+    }
+    onConfirm(children.map(child => ({
+      name: child.name.trim(),
+      description: child.description.trim(),
+      category: child.category.trim() || undefined,
+    })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/30 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg border border-slate-200 shadow-xl w-full max-w-2xl flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <h3 className="font-bold text-slate-800 text-sm flex items-center gap-2">
+            <Split className="w-4 h-4 text-slate-500" /> Split {parent.name}
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <p className="text-xs text-slate-500">
+            {parent.description || parent.name}. Each new factor starts with a copy of {parent.name}'s SSIM relations (including expert SSIMs),
+            notes, fuzzy ratings and TISM interpretations for later refinement; the pairs between the new factors are left unanswered.
+          </p>
+          {children.map((child, idx) => (
+            <div key={idx} className="grid grid-cols-12 gap-2 items-center">
+              <input value={child.name} onChange={e => updateChild(idx, 'name', e.target.value)} placeholder="Code" className={`${inputClass} col-span-2`} />
+              <input value={child.description} onChange={e => updateChild(idx, 'description', e.target.value)} placeholder="Description" className={`${inputClass} col-span-6`} />
+              <input value={child.category} onChange={e => updateChild(idx, 'category', e.target.value)} placeholder="Category" className={`${inputClass} col-span-3`} />
+              <button
+                type="button"
+                onClick={() => setChildren(children.filter((_, i) => i !== idx))}
+                disabled={children.length <= 2}
+                className="col-span-1 p-1.5 text-slate-400 hover:text-red-600 rounded disabled:opacity-30 justify-self-center"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setChildren([...children, makeChild(String.fromCharCode(97 + children.length))])}
+            className="px-2.5 py-1 border border-slate-300 bg-white text-slate-600 rounded text-[11px] font-medium flex items-center gap-1 hover:bg-slate-50"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add factor
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-slate-200">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 border border-slate-300 bg-white text-slate-600 rounded-md text-xs font-bold hover:bg-slate-50">Cancel</button>
+          <button type="button" onClick={handleConfirm} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 text-white rounded-md text-xs font-bold flex items-center gap-1.5">
+            <Split className="w-3.5 h-3.5" /> Split into {children.length} factors
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FactorSplitDialog;
@@ -0,0 +1,131 @@
+
+import React, { useState } from 'react';
+import { ISMElement, FuzzyRating, FuzzyInfluenceData } from '../types';
+import { RotateCcw, Wand2, ArrowLeft, Copy } from 'lucide-react';
+import { getCategoryTheme } from '../services/categoryColors';
+import { FUZZY_RATING_ORDER, FUZZY_RATING_LABELS, FUZZY_SCALE } from '../services/fuzzyLogic';
+
+interface Props {
+  factors: ISMElement[];
+  ratings: FuzzyInfluenceData;
+  setRatings: React.Dispatch<React.SetStateAction<FuzzyInfluenceData>>;
+  onSeedFromSSIM: () => void;
+  onNext: () => void;
+  onBack: () => void;
+}
+
+const RATING_COLORS: Record<FuzzyRating, string> = {
+  [FuzzyRating.NO]: 'bg-white text-slate-300 border-slate-200 hover:bg-slate-50',
+  [FuzzyRating.VERY_LOW]: 'bg-indigo-50 text-indigo-400 border-indigo-100 hover:bg-indigo-100',
+  [FuzzyRating.LOW]: 'bg-indigo-100 text-indigo-600 border-indigo-200 hover:bg-indigo-200',
+  [FuzzyRating.MEDIUM]: 'bg-indigo-200 text-indigo-800 border-indigo-300 hover:bg-indigo-300',
+  [FuzzyRating.HIGH]: 'bg-indigo-400 text-white border-indigo-500 hover:bg-indigo-500',
+  [FuzzyRating.VERY_HIGH]: 'bg-indigo-700 text-white border-indigo-800 hover:bg-indigo-800',
+};
+
+const FuzzyGrid: React.FC<Props> = ({ factors, ratings, setRatings, onSeedFromSSIM, onNext, onBack }) => {
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const cycleRating = (iId: string, jId: string) => {
+    const current = ratings[iId]?.[jId] || FuzzyRating.NO;
+    const next = FUZZY_RATING_ORDER[(FUZZY_RATING_ORDER.indexOf(current) + 1) % FUZZY_RATING_ORDER.length];
+    setRatings(prev => ({
+      ...prev,
+      [iId]: {
+        ...(prev[iId] || {}),
+        [jId]: next
+      }
+    }));
+  };
+
+  const handleClearClick = () => {
+    if (confirmClear) {
+        setRatings({});
+        setConfirmClear(false);
+    } else {
+        setConfirmClear(true);
+        setTimeout(() => setConfirmClear(false), 3000);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500 flex flex-col h-[calc(100vh-140px)]">
+      <div className="flex flex-col sm:flex-row flex-shrink-0 justify-between items-start sm:items-center gap-4 border-b border-slate-200 pb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Fuzzy Influence Ratings</h2>
+          <p className="text-slate-500 text-sm mt-1">Rate how strongly row factor i influences column factor j.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs font-medium">
+          {FUZZY_RATING_ORDER.map(r => (
+            <div key={r} className={`flex items-center gap-1.5 px-2 py-1 border rounded ${RATING_COLORS[r]}`} title={`(${FUZZY_SCALE[r].join(', ')})`}>
+              <span className="font-bold">{r}</span>: {FUZZY_RATING_LABELS[r]}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-white rounded-lg border border-slate-300 shadow-sm relative pb-4">
+        <table className="border-collapse w-max min-w-full table-fixed">
+          <thead>
+            <tr>
+              <th className="sticky top-0 left-0 z-30 bg-slate-50 p-2 text-left text-slate-600 font-bold text-xs border-b border-r border-slate-300 min-w-[200px] shadow-sm w-[250px]">
+                Factor i &rarr; j
+              </th>
+              {factors.map(f => (
+                <th key={f.id} className="sticky top-0 z-20 bg-slate-50 p-2 text-slate-700 font-bold text-xs w-12 text-center border-b border-slate-300 border-r border-slate-100 shadow-sm">
+                   {f.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {factors.map((rowFactor, i) => (
+              <tr key={rowFactor.id} className="hover:bg-slate-50">
+                <td className={`sticky left-0 z-20 bg-white p-2 text-slate-700 text-xs font-semibold border-r border-slate-300 border-b border-slate-100 border-l-4 ${getCategoryTheme(rowFactor.category).borderL} min-w-[200px] max-w-[300px] shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)] whitespace-normal leading-tight`} title={rowFactor.description}>
+                  <span className="text-slate-400 mr-2">{rowFactor.name}.</span>
+                  {rowFactor.description || rowFactor.name}
+                </td>
+                {factors.map((colFactor, j) => {
+                  if (i === j) return <td key={colFactor.id} className="bg-slate-100 border border-slate-200"></td>;
+                  const val = ratings[rowFactor.id]?.[colFactor.id] || FuzzyRating.NO;
+                  return (
+                    <td key={colFactor.id} className="p-0.5 border border-slate-200 text-center">
+                        <button
+                          type="button"
+                          onClick={() => cycleRating(rowFactor.id, colFactor.id)}
+                          title={`${rowFactor.name} → ${colFactor.name}: ${FUZZY_RATING_LABELS[val]}`}
+                          className={`w-full h-8 md:h-9 rounded-sm border font-bold text-xs md:text-sm transition-all flex items-center justify-center ${RATING_COLORS[val]}`}
+                        >
+                          {val}
+                        </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex-shrink-0 flex flex-col sm:flex-row justify-between items-center gap-4 pt-2 pb-4 border-t border-slate-200 bg-slate-50 -mx-4 sm:-mx-6 px-4 sm:px-6 -mb-6 rounded-b-lg">
+        <div className="flex flex-wrap items-center gap-3 w-full sm:w-auto justify-center sm:justify-start">
+            <button onClick={onBack} className="px-4 py-2 border border-slate-300 bg-white text-slate-600 rounded-md hover:bg-slate-50 text-sm font-medium flex items-center gap-2">
+                <ArrowLeft className="w-4 h-4"/> Back
+            </button>
+            <button onClick={handleClearClick} className={`px-4 py-2 border rounded-md text-sm font-medium flex items-center gap-2 ${confirmClear ? 'bg-red-50 text-red-700 border-red-200' : 'bg-white text-slate-600 border-slate-300 hover:text-red-600'}`}>
+                <RotateCcw className="w-4 h-4" /> {confirmClear ? "Confirm?" : "Clear"}
+            </button>
+            <button onClick={onSeedFromSSIM} className="px-4 py-2 border border-slate-300 bg-white text-slate-600 rounded-md hover:bg-slate-50 text-sm font-medium flex items-center gap-2" title="Rate every V/A/X relation of the binary SSIM as Medium">
+                <Copy className="w-4 h-4" /> Seed from SSIM
+            </button>
+        </div>
+
+        <button onClick={onNext} className="w-full sm:w-auto px-6 py-2.5 bg-slate-900 hover:bg-slate-800 text-white font-bold text-sm rounded-md shadow-sm flex items-center justify-center gap-2">
+          Generate Model <Wand2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FuzzyGrid;
@@ -1,15 +1,22 @@
 
 import React, { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
-import { ISMResult, ISMElement } from '../types';
-import { getCategoryColorHex } from './FactorInput';
+import { ISMResult, ISMElement, TISMData } from '../types';
+import { getCategoryColorHex } from '../services/categoryColors';
+import { buildTISMLinks } from '../services/tismLogic';
 
 interface Props {
   result: ISMResult;
   factors: ISMElement[];
+  tism?: TISMData; // Draws the TISM variant: labelled edges, significant transitive edges dashed
+  svgId?: string;
+  title?: string; // Study topic, appended to the graph title
 }
 
-const HierarchyGraph: React.FC<Props> = ({ result, factors }) => {
+// Edge labels are cut short on the graph; the full text is kept in the tooltip
+const truncateLabel = (text: string, max = 40) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const HierarchyGraph: React.FC<Props> = ({ result, factors, tism, svgId = 'hierarchy-graph-svg', title }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -19,23 +26,40 @@ const HierarchyGraph: React.FC<Props> = ({ result, factors }) => {
     // Clear previous
     d3.select(svgRef.current).selectAll("*").remove();
 
-    const { levels, initialReachabilityMatrix } = result;
+    const { levels, initialReachabilityMatrix, componentOf } = result;
     
     // Configuration for Boxes
     const boxWidth = 220;
     const boxHeight = 80;
     const hGap = 40; // Horizontal gap between boxes
     const vGap = 100; // Vertical gap between levels
-    const footerHeight = 80; // Extra space for Title and Legend
+    const groupPad = 12; // Padding around the members of a cycle group
+    const innerGap = 16; // Gap between members inside a cycle group
+    const footerHeight = tism ? 110 : 80; // Extra space for Title and Legend
     
     // Calculate Legend Width to ensure it fits
     const categories = Array.from(new Set(factors.map(f => f.category).filter(Boolean))) as string[];
     const itemWidth = 180; // Increased to 180px to accommodate full category names
     const minFooterWidth = categories.length * itemWidth + 100; // Extra padding
 
+    // Each level is laid out as units: a single factor or a whole cycle group
+    const levelUnits = levels.map(lvl => {
+        const units = new Map<number, number[]>();
+        lvl.elements.forEach(el => {
+            const c = componentOf[el];
+            if (!units.has(c)) units.set(c, []);
+            units.get(c)!.push(el);
+        });
+        return Array.from(units.values()).map(members => ({
+            members,
+            width: members.length * boxWidth + (members.length - 1) * innerGap + (members.length > 1 ? 2 * groupPad : 0)
+        }));
+    });
+    const getLevelWidth = (units: { width: number }[]) =>
+        units.reduce((sum, u) => sum + u.width, 0) + (units.length - 1) * hGap;
+
     // Calculate canvas size
-    const maxNodesInLevel = Math.max(...levels.map(l => l.elements.length));
-    const requiredNodeWidth = maxNodesInLevel * (boxWidth + hGap) + 100;
+    const requiredNodeWidth = Math.max(...levelUnits.map(getLevelWidth)) + 100;
     const containerWidth = containerRef.current.clientWidth || 800;
     
     // Width should accommodate the widest part: nodes or footer legend
@@ -79,45 +103,73 @@ const HierarchyGraph: React.FC<Props> = ({ result, factors }) => {
       .attr("fill", "#94a3b8");
 
     const nodes: any[] = [];
+    const anchors: any[] = []; // Link endpoints: a factor box, or the box around a cycle group
+    const anchorOf = new Map<number, any>();
     
     // Position Levels (Top-Down)
-    levels.forEach((lvl, lvlIndex) => {
+    levelUnits.forEach((units, lvlIndex) => {
         const y = 50 + (lvlIndex * (boxHeight + vGap));
-        const count = lvl.elements.length;
+        const level = levels[lvlIndex].level;
         
         // Center the level horizontally
-        const totalLevelWidth = count * boxWidth + (count - 1) * hGap;
-        const startX = (width - totalLevelWidth) / 2;
-
-        lvl.elements.forEach((elIndex, i) => {
-            nodes.push({
-                id: elIndex,
-                x: startX + i * (boxWidth + hGap),
-                y: y,
-                level: lvl.level,
-                data: factors[elIndex]
+        let x = (width - getLevelWidth(units)) / 2;
+
+        units.forEach(unit => {
+            const isGroup = unit.members.length > 1;
+            const anchor = {
+                x,
+                y: isGroup ? y - groupPad : y,
+                width: unit.width,
+                height: isGroup ? boxHeight + 2 * groupPad : boxHeight,
+                level,
+                isGroup
+            };
+            anchors.push(anchor);
+
+            let memberX = isGroup ? x + groupPad : x;
+            unit.members.forEach(elIndex => {
+                nodes.push({ id: elIndex, x: memberX, y, level, data: factors[elIndex] });
+                anchorOf.set(elIndex, anchor);
+                memberX += boxWidth + innerGap;
             });
+            x += unit.width + hGap;
         });
     });
 
     // Prepare Link Data from Initial Reachability Matrix
-    const links: any[] = [];
+    // Links are drawn between anchors; links inside a cycle group are implied by its box
+    const linkMap = new Map<string, any>();
     const matrix = initialReachabilityMatrix;
+
+    const addLink = (i: number, j: number, label = '', transitive = false) => {
+        const source = anchorOf.get(i);
+        const target = anchorOf.get(j);
+        if (!source || !target || source === target) return;
+        const levelDiff = source.level - target.level;
+        // Significant transitive links are drawn whatever the level gap
+        if (!(levelDiff === 0 || levelDiff === 1 || (transitive && levelDiff > 1))) return;
+
+        const key = `${anchors.indexOf(source)}-${anchors.indexOf(target)}`;
+        const existing = linkMap.get(key);
+        if (existing) {
+            if (label) existing.label = existing.label ? `${existing.label}; ${label}` : label;
+            existing.transitive = existing.transitive && transitive;
+        } else {
+            linkMap.set(key, { source, target, levelDiff, label, transitive });
+        }
+    };
     
-    for(let i=0; i<matrix.length; i++) {
-        for(let j=0; j<matrix.length; j++) {
-            if(matrix[i][j] === 1 && i !== j) {
-                const source = nodes.find(n => n.id === i);
-                const target = nodes.find(n => n.id === j);
-                if (source && target) {
-                    const levelDiff = source.level - target.level;
-                    if (levelDiff === 0 || levelDiff === 1) {
-                        links.push({ source, target, levelDiff });
-                    }
-                }
+    if (tism) {
+        buildTISMLinks(result, factors.map(f => f.id), tism)
+            .forEach(link => addLink(link.source, link.target, link.interpretation, link.transitive));
+    } else {
+        for(let i=0; i<matrix.length; i++) {
+            for(let j=0; j<matrix.length; j++) {
+                if(matrix[i][j] === 1 && i !== j) addLink(i, j);
             }
         }
     }
+    const links = Array.from(linkMap.values());
 
     // Draw Links
     svg.selectAll(".link")
@@ -127,16 +179,16 @@ const HierarchyGraph: React.FC<Props> = ({ result, factors }) => {
         .attr("class", "link")
         .attr("d", (d: any) => {
             if (d.levelDiff === 0) {
-                const sx = d.source.x + boxWidth / 2;
-                const sy = d.source.y + boxHeight / 2;
-                const tx = d.target.x + boxWidth / 2;
-                const ty = d.target.y + boxHeight / 2;
+                const sx = d.source.x + d.source.width / 2;
+                const sy = d.source.y + d.source.height / 2;
+                const tx = d.target.x + d.target.width / 2;
+                const ty = d.target.y + d.target.height / 2;
                 return `M${sx},${sy}L${tx},${ty}`;
             } else {
-                const startX = d.source.x + boxWidth / 2;
+                const startX = d.source.x + d.source.width / 2;
                 const startY = d.source.y;
-                const endX = d.target.x + boxWidth / 2;
-                const endY = d.target.y + boxHeight;
+                const endX = d.target.x + d.target.width / 2;
+                const endY = d.target.y + d.target.height;
                 const midY = (startY + endY) / 2;
                 return `M${startX},${startY}V${midY}H${endX}V${endY}`;
             }
@@ -144,8 +196,59 @@ const HierarchyGraph: React.FC<Props> = ({ result, factors }) => {
         .attr("fill", "none")
         .attr("stroke", "#94a3b8")
         .attr("stroke-width", 2)
+        .attr("stroke-dasharray", (d: any) => d.transitive ? "6,4" : null)
         .attr("marker-end", (d: any) => d.levelDiff === 0 ? "url(#arrowhead-side)" : "url(#arrowhead-bottom)");
 
+    // Edge Labels (TISM interpretations)
+    if (tism) {
+        svg.selectAll(".link-label")
+            .data(links.filter((d: any) => d.label))
+            .enter()
+            .append("text")
+            .attr("class", "link-label")
+            .attr("x", (d: any) => (d.source.x + d.source.width / 2 + d.target.x + d.target.width / 2) / 2)
+            .attr("y", (d: any) => d.levelDiff === 0
+                ? d.source.y + d.source.height / 2 - 6
+                : (d.source.y + d.target.y + d.target.height) / 2 - 4)
+            .attr("text-anchor", "middle")
+            .attr("font-size", "10px")
+            .attr("font-style", (d: any) => d.transitive ? "italic" : "normal")
+            .attr("font-family", "Helvetica Neue, Helvetica, Arial, sans-serif")
+            .attr("fill", "#475569")
+            .attr("paint-order", "stroke")
+            .attr("stroke", "#ffffff")
+            .attr("stroke-width", 3)
+            .text((d: any) => truncateLabel(d.label))
+            .append("title")
+            .text((d: any) => d.label);
+    }
+
+    // Cycle Group Boxes (strongly connected components drawn as one unit)
+    const groupBoxes = svg.selectAll(".cycle-group")
+        .data(anchors.filter(a => a.isGroup))
+        .enter()
+        .append("g")
+        .attr("class", "cycle-group")
+        .attr("transform", (d: any) => `translate(${d.x},${d.y})`);
+
+    groupBoxes.append("rect")
+        .attr("width", (d: any) => d.width)
+        .attr("height", (d: any) => d.height)
+        .attr("rx", 10)
+        .attr("fill", "#f8fafc")
+        .attr("stroke", "#64748b")
+        .attr("stroke-width", 1.5)
+        .attr("stroke-dasharray", "5,3");
+
+    groupBoxes.append("text")
+        .attr("x", 8)
+        .attr("y", 9)
+        .attr("font-size", "9px")
+        .attr("font-weight", "bold")
+        .attr("font-family", "Helvetica Neue, Helvetica, Arial, sans-serif")
+        .attr("fill", "#64748b")
+        .text("Cycle group");
+
     // Draw Nodes (Groups)
     const nodeGroups = svg.selectAll(".node")
         .data(nodes)
@@ -214,7 +317,16 @@ const HierarchyGraph: React.FC<Props> = ({ result, factors }) => {
       .attr("font-family", "Helvetica Neue, Helvetica, Arial, sans-serif")
       .attr("font-size", "18px")
       .attr("fill", "#1e293b")
-      .text("ISM-based model");
+      .text(`${tism ? "TISM-based model" : "ISM-based model"}${title ? ` of ${title}` : ''}`);
+
+    // Edge style legend (TISM)
+    if (tism) {
+        const edgeLegend = footerGroup.append("g").attr("transform", `translate(${width / 2 - 170}, 50)`);
+        edgeLegend.append("line").attr("x1", 0).attr("y1", 0).attr("x2", 30).attr("y2", 0).attr("stroke", "#94a3b8").attr("stroke-width", 2);
+        edgeLegend.append("text").attr("x", 35).attr("y", 4).text("Direct link").attr("font-size", "12px").attr("font-family", "Helvetica Neue, Helvetica, Arial, sans-serif").attr("fill", "#475569");
+        edgeLegend.append("line").attr("x1", 140).attr("y1", 0).attr("x2", 170).attr("y2", 0).attr("stroke", "#94a3b8").attr("stroke-width", 2).attr("stroke-dasharray", "6,4");
+        edgeLegend.append("text").attr("x", 175).attr("y", 4).text("Significant transitive link").attr("font-size", "12px").attr("font-family", "Helvetica Neue, Helvetica, Arial, sans-serif").attr("fill", "#475569");
+    }
 
     // Legend Categories
     const totalLegendWidth = categories.length * itemWidth;
@@ -245,11 +357,11 @@ const HierarchyGraph: React.FC<Props> = ({ result, factors }) => {
         currentX += itemWidth;
     });
 
-  }, [result, factors]);
+  }, [result, factors, tism, title]);
 
   return (
     <div ref={containerRef} className="w-full bg-white rounded-xl border border-slate-200 shadow-inner overflow-x-auto overflow-y-hidden">
-        <svg id="hierarchy-graph-svg" ref={svgRef} className="block min-w-[600px] mx-auto"></svg>
+        <svg id={svgId} ref={svgRef} className="block min-w-[600px] mx-auto"></svg>
     </div>
   );
 };
@@ -0,0 +1,70 @@
+
+import React, { useState } from 'react';
+import { EditHistory } from '../types';
+import { Undo2, Redo2, History } from 'lucide-react';
+
+interface Props {
+  history: EditHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onTravel: (steps: number) => void; // < 0 undoes, > 0 redoes that many steps
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString(undefined, { timeStyle: 'short' });
+
+const HistoryMenu: React.FC<Props> = ({ history, onUndo, onRedo, onTravel }) => {
+  const [open, setOpen] = useState(false);
+  const { past, future } = history;
+  const lastUndo = past[past.length - 1];
+
+  // Each row restores the document as it was right after that step
+  const travel = (steps: number) => {
+    if (steps !== 0) onTravel(steps);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative flex bg-white rounded-md shadow-sm border border-slate-300 divide-x divide-slate-200">
+      <button type="button" onClick={onUndo} disabled={!lastUndo} className="px-2.5 py-2 hover:bg-slate-50 text-slate-600 disabled:opacity-40 rounded-l-md" title={lastUndo ? `Undo ${lastUndo.label} (Ctrl+Z)` : 'Nothing to undo'}>
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button type="button" onClick={onRedo} disabled={future.length === 0} className="px-2.5 py-2 hover:bg-slate-50 text-slate-600 disabled:opacity-40" title={future.length ? `Redo ${future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+        <Redo2 className="w-4 h-4" />
+      </button>
+      <button type="button" onClick={() => setOpen(!open)} className={`px-2.5 py-2 hover:bg-slate-50 text-slate-600 rounded-r-md ${open ? 'bg-slate-50' : ''}`} title="Edit history">
+        <History className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-lg border border-slate-200 shadow-xl z-[60] overflow-hidden">
+          <div className="px-3 py-2 border-b border-slate-200 bg-slate-50 text-xs font-bold text-slate-500 uppercase tracking-wider">Edit History</div>
+          <ul className="max-h-80 overflow-y-auto text-xs divide-y divide-slate-100">
+            {[...future].reverse().map((entry, idx) => (
+              <li key={`future-${idx}`}>
+                <button type="button" onClick={() => travel(future.length - idx)} className="w-full flex justify-between gap-3 px-3 py-1.5 text-left text-slate-400 italic hover:bg-slate-50">
+                  <span className="truncate">{entry.label}</span>
+                  <span className="flex-shrink-0">{formatTime(entry.at)}</span>
+                </button>
+              </li>
+            ))}
+            {[...past].reverse().map((entry, idx) => (
+              <li key={`past-${idx}`}>
+                <button type="button" onClick={() => travel(-idx)} className={`w-full flex justify-between gap-3 px-3 py-1.5 text-left hover:bg-slate-50 ${idx === 0 ? 'font-bold text-slate-900 bg-slate-50' : 'text-slate-700'}`}>
+                  <span className="truncate">{entry.label}</span>
+                  <span className="flex-shrink-0 text-slate-400 font-normal">{formatTime(entry.at)}</span>
+                </button>
+              </li>
+            ))}
+            <li>
+              <button type="button" onClick={() => travel(-past.length)} className={`w-full px-3 py-1.5 text-left hover:bg-slate-50 ${past.length === 0 ? 'font-bold text-slate-900 bg-slate-50' : 'text-slate-500'}`}>
+                Start of history
+              </button>
+            </li>
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryMenu;
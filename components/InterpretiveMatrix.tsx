@@ -0,0 +1,99 @@
+
+import React from 'react';
+import { ISMElement, ISMResult, TISMData, ReachabilityKind } from '../types';
+import { setLinkText, isSignificantTransitive } from '../services/tismLogic';
+
+interface Props {
+  factors: ISMElement[];
+  result: ISMResult;
+  tism: TISMData;
+  setTism: React.Dispatch<React.SetStateAction<TISMData>>;
+}
+
+const InterpretiveMatrix: React.FC<Props> = ({ factors, result, tism, setTism }) => {
+  const kinds = result.finalReachabilityKinds;
+
+  const toggleSignificant = (fromId: string, toId: string) => {
+    setTism(prev => ({
+      ...prev,
+      significantTransitive: setLinkText(prev.significantTransitive, fromId, toId, isSignificantTransitive(prev, fromId, toId) ? null : ''),
+    }));
+  };
+
+  const setTransitiveText = (fromId: string, toId: string, text: string) => {
+    setTism(prev => ({ ...prev, significantTransitive: setLinkText(prev.significantTransitive, fromId, toId, text) }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-xs bg-slate-50 p-3 rounded border border-slate-200 matrix-key whitespace-nowrap">
+          <span className="font-bold text-slate-700">Key:</span>
+          <div className="flex items-center gap-1.5"><span className="min-w-[1.5rem] h-6 px-1 flex items-center justify-center bg-blue-100 text-blue-900 font-bold border border-blue-200 rounded text-[10px]">1</span> Direct link with interpretation</div>
+          <div className="flex items-center gap-1.5"><span className="min-w-[1.5rem] h-6 px-1 flex items-center justify-center bg-amber-100 text-amber-900 font-bold border border-amber-200 rounded text-[10px]">1*</span> Transitive link (tick to keep as significant)</div>
+          <div className="flex items-center gap-1.5"><span className="min-w-[1.5rem] h-6 px-1 flex items-center justify-center bg-white text-slate-300 border border-slate-200 rounded text-[10px]">0</span> No Relation</div>
+      </div>
+      <div className="overflow-x-auto pb-4">
+        <table className="border-collapse text-xs border border-slate-300 table-auto">
+          <thead>
+            <tr>
+              <th className="p-2 border border-slate-300 bg-slate-800 text-white font-mono text-xs text-left min-w-[160px]">i \ j</th>
+              {factors.map(f => (
+                <th key={f.id} className="p-2 border border-slate-300 bg-slate-100 text-slate-800 text-center text-xs font-bold font-mono min-w-[140px]">
+                    {f.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {factors.map((rowFactor, i) => (
+              <tr key={rowFactor.id}>
+                <td className="p-2 border border-slate-300 bg-slate-100 text-slate-800 font-bold text-left whitespace-normal leading-tight" title={rowFactor.description}>
+                  <span className="mr-1">{rowFactor.name}:</span>
+                  <span className="font-normal text-slate-600">{rowFactor.description}</span>
+                </td>
+                {factors.map((colFactor, j) => {
+                  if (i === j) return <td key={colFactor.id} className="p-2 border border-slate-300 bg-slate-50"></td>;
+
+                  if (kinds[i][j] === ReachabilityKind.DIRECT) {
+                    const text = tism.interpretations[rowFactor.id]?.[colFactor.id];
+                    return (
+                      <td key={colFactor.id} className="p-2 border border-slate-300 bg-blue-50 text-blue-900 align-top">
+                        <span className="font-bold mr-1">1</span>
+                        {text ? <span>{text}</span> : <span className="italic text-slate-400">No interpretation</span>}
+                      </td>
+                    );
+                  }
+
+                  if (kinds[i][j] === ReachabilityKind.TRANSITIVE) {
+                    const significant = isSignificantTransitive(tism, rowFactor.id, colFactor.id);
+                    return (
+                      <td key={colFactor.id} className={`p-2 border border-slate-300 align-top ${significant ? 'bg-amber-50' : ''}`}>
+                        <label className="flex items-center gap-1.5 font-bold text-amber-700 cursor-pointer">
+                          <input type="checkbox" checked={significant} onChange={() => toggleSignificant(rowFactor.id, colFactor.id)} />
+                          1*
+                        </label>
+                        {significant && (
+                          <textarea
+                            value={tism.significantTransitive[rowFactor.id][colFactor.id]}
+                            onChange={e => setTransitiveText(rowFactor.id, colFactor.id, e.target.value)}
+                            rows={2}
+                            placeholder="Interpretation..."
+                            className="mt-1 w-full p-1 rounded border border-amber-200 text-[11px] outline-none resize-y"
+                          />
+                        )}
+                      </td>
+                    );
+                  }
+
+                  return <td key={colFactor.id} className="p-2 border border-slate-300 text-center text-slate-300">0</td>;
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default InterpretiveMatrix;
@@ -2,14 +2,15 @@
 import React, { useEffect, useRef, useMemo } from 'react';
 import * as d3 from 'd3';
 import { ISMResult, ISMElement } from '../types';
-import { getCategoryColorHex } from './FactorInput';
+import { getCategoryColorHex } from '../services/categoryColors';
 
 interface Props {
   result: ISMResult;
   factors: ISMElement[];
+  title?: string; // Study topic, appended to the graph title
 }
 
-const InterrelationshipGraph: React.FC<Props> = ({ result, factors }) => {
+const InterrelationshipGraph: React.FC<Props> = ({ result, factors, title }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -179,7 +180,7 @@ const InterrelationshipGraph: React.FC<Props> = ({ result, factors }) => {
       .attr("font-family", "Helvetica Neue, Helvetica, Arial, sans-serif")
       .attr("font-size", "18px")
       .attr("fill", "#1e293b")
-      .text("Interrelationships between factors / barriers");
+      .text(title ? `Interrelationships between factors of ${title}` : "Interrelationships between factors / barriers");
 
     // Legend 1: Arrows
     const arrowLegend = footerGroup.append("g").attr("transform", `translate(${width/2 - 150}, 30)`);
@@ -209,7 +210,7 @@ const InterrelationshipGraph: React.FC<Props> = ({ result, factors }) => {
         currentX += itemWidth;
     });
 
-  }, [result, factors]);
+  }, [result, factors, title]);
 
   return (
     <div ref={containerRef} className="w-full bg-white rounded-xl border border-slate-200 shadow-inner overflow-x-auto overflow-y-hidden">
@@ -1,12 +1,14 @@
 
 import React, { useEffect, useRef, useMemo } from 'react';
 import * as d3 from 'd3';
-import { ISMResult, ISMElement } from '../types';
-import { getCategoryColorHex } from './FactorInput';
+import { ISMResult, ISMElement, FuzzyMicmacResult, MicmacQuadrant } from '../types';
+import { getCategoryColorHex } from '../services/categoryColors';
+import { computeMicmacPowers, classifyQuadrant } from '../services/micmac';
 
 interface Props {
   result: ISMResult;
   factors: ISMElement[];
+  fuzzy?: FuzzyMicmacResult | null; // Plot fuzzy powers instead of binary ones
 }
 
 interface MicmacDataPoint {
@@ -25,33 +27,37 @@ interface GroupedPoint {
   label: string;
 }
 
-const MicmacAnalysis: React.FC<Props> = ({ result, factors }) => {
+// Fuzzy powers are shown to two decimals
+const roundPower = (val: number) => Math.round(val * 100) / 100;
+
+const MicmacAnalysis: React.FC<Props> = ({ result, factors, fuzzy }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
   // 1. Calculate Powers
   const rawData: MicmacDataPoint[] = useMemo(() => {
-    const size = factors.length;
     const frm = result.finalReachabilityMatrix;
-    return factors.map((f, i) => {
-      // Driving Power = Sum of Row
-      const drivingPower = frm[i].reduce((sum, val) => sum + val, 0);
-      // Dependence Power = Sum of Column
-      const dependencePower = frm.reduce((sum, row) => sum + row[i], 0);
-      return {
+    if (fuzzy) {
+      return factors.map((f, i) => ({
         ...f,
-        drivingPower,
-        dependencePower
-      };
-    });
-  }, [result, factors]);
+        drivingPower: roundPower(fuzzy.drivingPower[i]),
+        dependencePower: roundPower(fuzzy.dependencePower[i])
+      }));
+    }
+    const { drivingPower, dependencePower } = computeMicmacPowers(frm);
+    return factors.map((f, i) => ({
+      ...f,
+      drivingPower: drivingPower[i],
+      dependencePower: dependencePower[i]
+    }));
+  }, [result, factors, fuzzy]);
 
   // 2. Group Points to avoid Overlap
   const groupedData: GroupedPoint[] = useMemo(() => {
     const map = new Map<string, MicmacDataPoint[]>();
     
     rawData.forEach(p => {
-        const key = `${p.dependencePower}-${p.drivingPower}`;
+        const key = `${p.dependencePower}|${p.drivingPower}`;
         if (!map.has(key)) {
             map.set(key, []);
         }
@@ -59,7 +65,7 @@ const MicmacAnalysis: React.FC<Props> = ({ result, factors }) => {
     });
 
     return Array.from(map.entries()).map(([key, points]) => {
-        const [dep, drv] = key.split('-').map(Number);
+        const [dep, drv] = key.split('|').map(Number);
         return {
             dependencePower: dep,
             drivingPower: drv,
@@ -70,26 +76,22 @@ const MicmacAnalysis: React.FC<Props> = ({ result, factors }) => {
   }, [rawData]);
 
   // 3. Classify into Quadrants (based on raw data for the lists)
-  const splitPoint = factors.length / 2; // Standard split at N/2
+  // Binary powers range up to N; fuzzy powers up to the largest observed power
+  const scaleMax = fuzzy
+    ? Math.max(1, Math.ceil(Math.max(...rawData.map(p => Math.max(p.drivingPower, p.dependencePower)))))
+    : factors.length;
+  const splitPoint = scaleMax / 2; // Standard split at the midpoint of the scale
   
   const quadrants = useMemo(() => {
-    const q = {
-      autonomous: [] as MicmacDataPoint[],
-      dependent: [] as MicmacDataPoint[],
-      linkage: [] as MicmacDataPoint[],
-      driver: [] as MicmacDataPoint[],
+    const q: Record<MicmacQuadrant, MicmacDataPoint[]> = {
+      [MicmacQuadrant.AUTONOMOUS]: [],
+      [MicmacQuadrant.DEPENDENT]: [],
+      [MicmacQuadrant.LINKAGE]: [],
+      [MicmacQuadrant.DRIVER]: [],
     };
 
     rawData.forEach(p => {
-        if (p.drivingPower <= splitPoint && p.dependencePower <= splitPoint) {
-            q.autonomous.push(p);
-        } else if (p.drivingPower <= splitPoint && p.dependencePower > splitPoint) {
-            q.dependent.push(p);
-        } else if (p.drivingPower > splitPoint && p.dependencePower > splitPoint) {
-            q.linkage.push(p);
-        } else {
-            q.driver.push(p);
-        }
+        q[classifyQuadrant(p.drivingPower, p.dependencePower, splitPoint)].push(p);
     });
     return q;
   }, [rawData, splitPoint]);
@@ -123,8 +125,8 @@ const MicmacAnalysis: React.FC<Props> = ({ result, factors }) => {
       .attr("transform", `translate(${margin.left},${margin.top})`);
 
     // Scales
-    // Max value is number of factors (N)
-    const maxVal = factors.length;
+    // Max value is number of factors (N), or the fuzzy scale maximum
+    const maxVal = scaleMax;
     
     // Adjusted domains to add a small buffer so points aren't cut off on the edge
     const xScale = d3.scaleLinear()
@@ -369,7 +371,7 @@ const MicmacAnalysis: React.FC<Props> = ({ result, factors }) => {
         tooltip.remove();
     };
 
-  }, [groupedData, factors, splitPoint]);
+  }, [groupedData, factors, splitPoint, scaleMax]);
 
   const renderQuadrantList = (title: string, items: MicmacDataPoint[], colorClass: string, desc: string) => (
     <div className={`p-4 rounded-lg border ${colorClass} bg-white shadow-sm flex flex-col h-full`}>
@@ -403,6 +405,7 @@ const MicmacAnalysis: React.FC<Props> = ({ result, factors }) => {
             <div className="absolute top-2 right-2 bg-white/90 p-2 text-xs border border-slate-200 rounded shadow-sm z-10" style={{top: '10px', right: '10px'}}>
                 <p><strong>Split Point:</strong> {splitPoint.toFixed(1)}</p>
                 <p><strong>Total Factors:</strong> {factors.length}</p>
+                {fuzzy && <p><strong>Fuzzy MICMAC</strong> ({fuzzy.iterations} iterations)</p>}
             </div>
         </div>
 
@@ -0,0 +1,40 @@
+
+import React from 'react';
+import { ISMElement } from '../types';
+import { CircleSlash, X } from 'lucide-react';
+
+interface Props {
+  factors: ISMElement[];
+  missingPairs: { i: number; j: number }[];
+  onJumpToCell: (i: number, j: number) => void;
+  onClose: () => void;
+}
+
+const MissingPairsReport: React.FC<Props> = ({ factors, missingPairs, onJumpToCell, onClose }) => (
+  <div className="flex-shrink-0 rounded-lg border shadow-sm bg-red-50 border-red-200">
+    <div className="flex items-center justify-between gap-3 px-4 py-2.5">
+      <div className="flex items-center gap-2 text-sm font-bold text-red-800">
+        <CircleSlash className="w-4 h-4" />
+        {missingPairs.length} pair{missingPairs.length === 1 ? ' is' : 's are'} still unanswered. Answer every pair (O for no relation) before generating the model.
+      </div>
+      <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Close">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto border-t border-red-200 px-4 py-2">
+      {missingPairs.map(({ i, j }) => (
+        <button
+          key={`${i}-${j}`}
+          type="button"
+          onClick={() => onJumpToCell(i, j)}
+          className="px-2 py-0.5 rounded border border-red-200 bg-white text-red-800 text-[11px] font-medium hover:bg-red-100"
+          title="Show cell"
+        >
+          {factors[i].name}/{factors[j].name}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default MissingPairsReport;
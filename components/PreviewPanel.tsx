@@ -0,0 +1,69 @@
+
+import React from 'react';
+import { ISMElement, ISMResult, ReachabilityKind } from '../types';
+import { getCategoryColorClasses } from '../services/categoryColors';
+import { Activity } from 'lucide-react';
+
+interface Props {
+  factors: ISMElement[];
+  result: ISMResult | null;
+}
+
+const PreviewPanel: React.FC<Props> = ({ factors, result }) => {
+  if (!result) return null;
+
+  const kinds = result.finalReachabilityKinds.flat();
+  const directCount = kinds.filter(k => k === ReachabilityKind.DIRECT).length;
+  const transitiveCount = kinds.filter(k => k === ReachabilityKind.TRANSITIVE).length;
+  const cycleGroups = result.components.filter(c => c.length > 1);
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm flex flex-col h-[calc(100vh-140px)]">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center gap-2 rounded-t-lg">
+        <Activity className="w-4 h-4 text-slate-500" />
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Live Preview</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 p-3 border-b border-slate-100 text-center">
+        <div>
+          <div className="text-lg font-bold text-slate-800">{result.levels.length}</div>
+          <div className="text-[10px] text-slate-500 uppercase tracking-wider">Levels</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-blue-900">{directCount}</div>
+          <div className="text-[10px] text-slate-500 uppercase tracking-wider">Direct</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold text-amber-700">{transitiveCount}</div>
+          <div className="text-[10px] text-slate-500 uppercase tracking-wider">1* Links</div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {result.levels.map(lvl => (
+          <div key={lvl.level}>
+            <div className="text-[11px] font-bold text-slate-500 mb-1">Level {lvl.level}{lvl.level === 1 ? ' (top)' : ''}</div>
+            <div className="flex flex-wrap gap-1">
+              {lvl.elements.map(el => (
+                <span key={factors[el].id} className={`px-1.5 py-0.5 rounded border text-[11px] font-bold ${getCategoryColorClasses(factors[el].category)}`} title={factors[el].description}>
+                  {factors[el].name}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {cycleGroups.length > 0 && (
+          <div className="pt-2 border-t border-slate-100">
+            <div className="text-[11px] font-bold text-slate-500 mb-1">Cycle groups</div>
+            {cycleGroups.map(group => (
+              <p key={group[0]} className="text-[11px] text-slate-600">{group.map(el => factors[el].name).join(' ⇄ ')}</p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPanel;
@@ -0,0 +1,120 @@
+
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+import { FolderOpen, Plus, Copy, Pencil, Trash2, Check, X, Library } from 'lucide-react';
+
+interface Props {
+  projects: ProjectSummary[];
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatModified = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const ProjectLibrary: React.FC<Props> = ({ projects, currentId, onOpen, onCreate, onDuplicate, onRename, onDelete, onClose }) => {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const submitRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const handleDeleteClick = (id: string) => {
+    if (confirmDeleteId === id) {
+      onDelete(id);
+      setConfirmDeleteId(null);
+    } else {
+      setConfirmDeleteId(id);
+      setTimeout(() => setConfirmDeleteId(prev => (prev === id ? null : prev)), 3000);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/30 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg border border-slate-200 shadow-xl w-full max-w-2xl flex flex-col max-h-[80vh]" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <h3 className="font-bold text-slate-800 text-sm flex items-center gap-2">
+            <Library className="w-4 h-4 text-slate-500" /> Project Library
+          </h3>
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={onCreate} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 text-white rounded-md text-xs font-bold flex items-center gap-1.5">
+              <Plus className="w-3.5 h-3.5" /> New Project
+            </button>
+            <button type="button" onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {projects.length === 0 && (
+            <li className="px-4 py-6 text-center text-sm text-slate-400">No saved projects yet.</li>
+          )}
+          {projects.map(project => {
+            const isCurrent = project.id === currentId;
+            const isRenaming = renaming?.id === project.id;
+            return (
+              <li key={project.id} className={`flex items-center justify-between gap-3 px-4 py-2.5 ${isCurrent ? 'bg-slate-50' : ''}`}>
+                <div className="min-w-0 flex-1">
+                  {isRenaming ? (
+                    <form onSubmit={e => { e.preventDefault(); submitRename(); }} className="flex items-center gap-1.5">
+                      <input
+                        autoFocus
+                        value={renaming.name}
+                        onChange={e => setRenaming({ id: project.id, name: e.target.value })}
+                        onKeyDown={e => e.key === 'Escape' && setRenaming(null)}
+                        className="flex-1 px-2 py-1 rounded-md border border-slate-300 text-sm outline-none focus:border-slate-500 focus:ring-1 focus:ring-slate-500"
+                      />
+                      <button type="submit" className="p-1 text-emerald-600 hover:text-emerald-800 rounded" title="Save name">
+                        <Check className="w-4 h-4" />
+                      </button>
+                    </form>
+                  ) : (
+                    <div className="text-sm font-bold text-slate-800 truncate">
+                      {project.name}
+                      {isCurrent && <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider">Open</span>}
+                    </div>
+                  )}
+                  <div className="text-[11px] text-slate-500">Last modified {formatModified(project.updatedAt)}</div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {!isCurrent && (
+                    <button type="button" onClick={() => onOpen(project.id)} className="px-2 py-1 border border-slate-300 bg-white text-slate-600 rounded text-[11px] font-medium flex items-center gap-1 hover:bg-slate-50">
+                      <FolderOpen className="w-3.5 h-3.5" /> Open
+                    </button>
+                  )}
+                  <button type="button" onClick={() => setRenaming({ id: project.id, name: project.name })} className="p-1.5 text-slate-400 hover:text-slate-700 rounded" title="Rename">
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button type="button" onClick={() => onDuplicate(project.id)} className="p-1.5 text-slate-400 hover:text-slate-700 rounded" title="Duplicate">
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteClick(project.id)}
+                    className={`p-1.5 rounded text-[11px] font-medium flex items-center gap-1 ${confirmDeleteId === project.id ? 'bg-red-50 text-red-700 border border-red-200' : 'text-slate-400 hover:text-red-600'}`}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" /> {confirmDeleteId === project.id && 'Confirm?'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <p className="px-4 py-2 border-t border-slate-200 text-[11px] text-slate-400">
+          Projects are saved automatically in this browser and stay available offline. Use Save Project to keep a copy as a file.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
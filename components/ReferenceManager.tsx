@@ -0,0 +1,213 @@
+
+import React, { useRef, useState } from 'react';
+import { ISMElement, Reference } from '../types';
+import { createReference, makeCitationKey, parseBibTeX, serialiseBibTeX, citeLabel } from '../services/references';
+import SourceMatrix from './SourceMatrix';
+import { BookMarked, Plus, Pencil, Trash2, Save, X, Upload, FileDown, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface Props {
+  references: Reference[];
+  setReferences: React.Dispatch<React.SetStateAction<Reference[]>>;
+  factors: ISMElement[];
+  setFactors: React.Dispatch<React.SetStateAction<ISMElement[]>>;
+}
+
+const ENTRY_TYPES = ['article', 'inproceedings', 'book', 'incollection', 'phdthesis', 'techreport', 'misc'];
+
+const inputClass = "w-full px-2 py-1.5 rounded-md border border-slate-300 text-sm outline-none focus:border-slate-500 focus:ring-1 focus:ring-slate-500";
+const labelClass = "block text-[11px] font-bold text-slate-500 mb-1";
+const buttonClass = "px-2.5 py-1 border border-slate-300 bg-white text-slate-600 rounded text-[11px] font-medium flex items-center gap-1 hover:bg-slate-50";
+
+const ReferenceManager: React.FC<Props> = ({ references, setReferences, factors, setFactors }) => {
+  const [isOpen, setIsOpen] = useState(references.length > 0);
+  // Entry in the form: a copy of an existing reference, or a new one not yet in the list
+  const [draft, setDraft] = useState<Reference | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isNew = draft !== null && !references.some(r => r.id === draft.id);
+
+  const saveDraft = () => {
+    if (!draft) return;
+    if (!draft.authors.trim() && !draft.title.trim()) {
+      alert("Enter at least the authors or the title.");
+      return;
+    }
+    const taken = references.filter(r => r.id !== draft.id).map(r => r.key);
+    const key = draft.key.trim().replace(/\s+/g, '') || makeCitationKey(draft, taken);
+    if (taken.includes(key)) {
+      alert(`The citation key "${key}" is already used.`);
+      return;
+    }
+    const saved = { ...draft, key, authors: draft.authors.trim(), title: draft.title.trim(), source: draft.source.trim(), year: draft.year.trim() };
+    setReferences(prev => isNew ? [...prev, saved] : prev.map(r => r.id === saved.id ? saved : r));
+    setDraft(null);
+  };
+
+  // Removing a source also removes it from the factors that cite it
+  const handleDeleteClick = (id: string) => {
+    if (deleteConfirmId === id) {
+      setReferences(prev => prev.filter(r => r.id !== id));
+      setFactors(prev => prev.map(f => f.references?.includes(id) ? { ...f, references: f.references.filter(r => r !== id) } : f));
+      setDeleteConfirmId(null);
+    } else {
+      setDeleteConfirmId(id);
+      setTimeout(() => setDeleteConfirmId(current => current === id ? null : current), 3000);
+    }
+  };
+
+  const toggleMention = (factorId: string, referenceId: string) =>
+    setFactors(prev => prev.map(f => {
+      if (f.id !== factorId) return f;
+      const current = f.references || [];
+      return { ...f, references: current.includes(referenceId) ? current.filter(r => r !== referenceId) : [...current, referenceId] };
+    }));
+
+  // Entries whose key is already in the bibliography update it in place
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const imported = parseBibTeX(event.target?.result as string);
+      if (imported.length === 0) {
+        alert("No BibTeX entries found.");
+      } else {
+        setReferences(prev => {
+          const next = [...prev];
+          imported.forEach(entry => {
+            const idx = next.findIndex(r => r.key === entry.key);
+            if (idx === -1) next.push(entry);
+            else next[idx] = { ...entry, id: next[idx].id };
+          });
+          return next;
+        });
+        setIsOpen(true);
+      }
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    };
+    reader.readAsText(file);
+  };
+
+  const handleExport = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([serialiseBibTeX(references)], { type: 'application/x-bibtex' }));
+    link.download = 'references.bib';
+    link.click();
+  };
+
+  const updateDraft = <K extends keyof Reference>(field: K, value: Reference[K]) =>
+    setDraft(prev => prev && { ...prev, [field]: value });
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+      <div
+        className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center justify-between cursor-pointer hover:bg-slate-100 transition-colors"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <div className="flex items-center gap-2">
+          <BookMarked className="w-4 h-4 text-slate-500" />
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Literature Sources ({references.length})</span>
+        </div>
+        {isOpen ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </div>
+
+      {isOpen && (
+        <div className="p-4 space-y-5">
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => setDraft(createReference())} className={buttonClass}>
+              <Plus className="w-3.5 h-3.5" /> Add source
+            </button>
+            <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              <Upload className="w-3.5 h-3.5" /> Import .bib
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleImport} accept=".bib,.txt" className="hidden" />
+            <button type="button" onClick={handleExport} disabled={references.length === 0} className={`${buttonClass} disabled:opacity-40`}>
+              <FileDown className="w-3.5 h-3.5" /> Export .bib
+            </button>
+          </div>
+
+          {draft && (
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-3 p-3 border border-slate-200 rounded-md bg-slate-50">
+              <div className="md:col-span-4">
+                <label className={labelClass}>Authors</label>
+                <input value={draft.authors} onChange={e => updateDraft('authors', e.target.value)} placeholder="Smith, John and Lee, Ann" className={inputClass} />
+              </div>
+              <div className="md:col-span-1">
+                <label className={labelClass}>Year</label>
+                <input value={draft.year} onChange={e => updateDraft('year', e.target.value)} className={inputClass} />
+              </div>
+              <div className="md:col-span-1">
+                <label className={labelClass}>Type</label>
+                <select value={draft.type} onChange={e => updateDraft('type', e.target.value)} className={`${inputClass} bg-white`}>
+                  {Array.from(new Set([...ENTRY_TYPES, draft.type])).map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              </div>
+              <div className="md:col-span-6">
+                <label className={labelClass}>Title</label>
+                <input value={draft.title} onChange={e => updateDraft('title', e.target.value)} className={inputClass} />
+              </div>
+              <div className="md:col-span-3">
+                <label className={labelClass}>Journal / proceedings / publisher</label>
+                <input value={draft.source} onChange={e => updateDraft('source', e.target.value)} className={inputClass} />
+              </div>
+              <div className="md:col-span-2">
+                <label className={labelClass}>DOI</label>
+                <input value={draft.doi || ''} onChange={e => updateDraft('doi', e.target.value.trim() || undefined)} className={inputClass} />
+              </div>
+              <div className="md:col-span-1">
+                <label className={labelClass}>Citation key</label>
+                <input value={draft.key} onChange={e => updateDraft('key', e.target.value)} placeholder="auto" className={inputClass} />
+              </div>
+              <div className="md:col-span-6 flex justify-end gap-2">
+                <button type="button" onClick={() => setDraft(null)} className="px-3 py-1.5 border border-slate-300 bg-white text-slate-600 rounded-md text-xs font-bold hover:bg-slate-50 flex items-center gap-1">
+                  <X className="w-3.5 h-3.5" /> Cancel
+                </button>
+                <button type="button" onClick={saveDraft} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 text-white rounded-md text-xs font-bold flex items-center gap-1">
+                  <Save className="w-3.5 h-3.5" /> {isNew ? 'Add' : 'Save'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {references.length === 0 ? (
+            <p className="text-xs text-slate-400">No sources yet. Add the studies the factors were identified from, or import a .bib file.</p>
+          ) : (
+            <ol className="divide-y divide-slate-100 border border-slate-200 rounded-md">
+              {references.map((ref, idx) => (
+                <li key={ref.id} className="flex items-start justify-between gap-3 px-3 py-2 text-xs">
+                  <div className="min-w-0">
+                    <span className="font-bold text-slate-400 mr-2">[{idx + 1}]</span>
+                    <span className="font-bold text-slate-800">{citeLabel(ref)}</span>
+                    <span className="text-slate-600"> {ref.title}</span>
+                    {ref.source && <span className="text-slate-400 italic">. {ref.source}</span>}
+                    <span className="ml-2 font-mono text-[10px] text-slate-400">{ref.key}</span>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button type="button" onClick={() => setDraft(ref)} className="p-1 text-slate-400 hover:text-blue-600 rounded" title="Edit">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteClick(ref.id)}
+                      className={`p-1 rounded ${deleteConfirmId === ref.id ? 'bg-red-600 text-white' : 'text-slate-400 hover:text-red-600'}`}
+                      title={deleteConfirmId === ref.id ? 'Click again to delete' : 'Delete'}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {references.length > 0 && factors.length > 0 && (
+            <SourceMatrix factors={factors} references={references} onToggle={toggleMention} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceManager;
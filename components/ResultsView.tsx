@@ -1,10 +1,18 @@
 
-import React, { useState, useRef } from 'react';
-import { ISMResult, ISMElement } from '../types';
+import React, { useState, useRef, useMemo } from 'react';
+import { ISMResult, ISMElement, ExpertResponse, FuzzyMicmacResult, TISMData, ReachabilityKind, ReachabilityKindMatrix, AnnotatedSSIM, StudyMetadata, Reference, SSIMData } from '../types';
 import HierarchyGraph from './HierarchyGraph';
 import InterrelationshipGraph from './InterrelationshipGraph';
 import AnalysisTable from './AnalysisTable';
 import MicmacAnalysis from './MicmacAnalysis';
+import AgreementTable from './AgreementTable';
+import InterpretiveMatrix from './InterpretiveMatrix';
+import { computeAgreementStats } from '../services/agreementStats';
+import { EMPTY_TISM } from '../services/tismLogic';
+import { REACHABILITY_NOTATION } from '../services/ismLogic';
+import { buildResultWorkbook } from '../services/resultsWorkbook';
+import { buildXLSX, XLSX_MIME_TYPE } from '../services/xlsx';
+import { createStudy, describeStudy } from '../services/study';
 import { Download, Printer, ArrowLeft, RefreshCw, FileSpreadsheet } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import { jsPDF } from "jspdf";
@@ -12,15 +20,32 @@ import { jsPDF } from "jspdf";
 interface Props {
   factors: ISMElement[];
   result: ISMResult;
+  experts?: ExpertResponse[];
+  study?: StudyMetadata; // Shown in the report header, graph titles and Excel sheets
+  ssim?: SSIMData; // SSIM behind the result, included in the Excel workbook
+  references?: Reference[]; // Literature sources of the factors, exported as the factor identification matrix
+  annotatedSsims?: AnnotatedSSIM[]; // SSIMs behind the result with their per-cell notes
+  fuzzyMicmac?: FuzzyMicmacResult | null;
+  tism?: TISMData;
+  setTism?: React.Dispatch<React.SetStateAction<TISMData>>;
   onReset: () => void;
   onBack: () => void;
 }
 
-const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
+const ResultsView: React.FC<Props> = ({ factors, result, experts = [], study = createStudy(), ssim, references = [], annotatedSsims = [], fuzzyMicmac = null, tism = EMPTY_TISM, setTism, onReset, onBack }) => {
   // Default to Initial Reachability Matrix ('irm')
-  const [activeTab, setActiveTab] = useState<'hierarchy' | 'digraph' | 'micmac' | 'analysis' | 'irm' | 'frm'>('irm');
+  const [activeTab, setActiveTab] = useState<'hierarchy' | 'digraph' | 'micmac' | 'analysis' | 'agreement' | 'tism' | 'irm' | 'frm'>('irm');
+  const [micmacMode, setMicmacMode] = useState<'binary' | 'fuzzy'>(fuzzyMicmac ? 'fuzzy' : 'binary');
   const exportRef = useRef<HTMLDivElement>(null);
 
+  // Agreement statistics need at least two raters
+  const agreementStats = useMemo(() => {
+    if (experts.length < 2) return null;
+    return computeAgreementStats(factors.map(f => f.id), experts);
+  }, [factors, experts]);
+
+  const studyRows = describeStudy(study, experts.length);
+
   const handleDownloadPDF = async () => {
     if (!exportRef.current) return;
 
@@ -120,10 +145,11 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
 
   const handleDownloadPNG = async () => {
     // Method 1: SVG Serializer (Best for pure SVG Graphs like Hierarchy/Digraph)
-    if (activeTab === 'digraph' || activeTab === 'hierarchy') {
+    if (activeTab === 'digraph' || activeTab === 'hierarchy' || activeTab === 'tism') {
         let svgId = '';
         if (activeTab === 'digraph') svgId = 'interrelationship-graph-svg';
         else if (activeTab === 'hierarchy') svgId = 'hierarchy-graph-svg';
+        else if (activeTab === 'tism') svgId = 'tism-graph-svg';
         
         const svgElement = document.getElementById(svgId) as unknown as SVGSVGElement;
         if (svgElement) {
@@ -166,7 +192,7 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
                     ctx.drawImage(img, padding * scale, padding * scale, vbWidth * scale, vbHeight * scale);
                     const link = document.createElement('a');
                     link.href = canvas.toDataURL('image/png');
-                    link.download = `ISM_${activeTab === 'digraph' ? 'Digraph' : 'Hierarchy'}.png`;
+                    link.download = `ISM_${activeTab === 'digraph' ? 'Digraph' : activeTab === 'tism' ? 'TISM_Digraph' : 'Hierarchy'}.png`;
                     link.click();
                 };
             }
@@ -259,103 +285,13 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
   };
 
   const handleExportExcel = () => {
-    let excelContent = '<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel" xmlns="http://www.w3.org/TR/REC-html40">';
-    excelContent += '<head><!--[if gte mso 9]><xml><x:ExcelWorkbook><x:ExcelWorksheets>';
-    
-    const sheets = [
-        { name: 'Level Partition', id: 'sheet1', content: generateAnalysisTableHTML() },
-        { name: 'Final Matrix', id: 'sheet2', content: generateMatrixHTML(result.finalReachabilityMatrix, result.initialReachabilityMatrix, true) },
-        { name: 'Initial Matrix', id: 'sheet3', content: generateMatrixHTML(result.initialReachabilityMatrix, null, false) }
-    ];
-
-    sheets.forEach(sheet => {
-        excelContent += `<x:ExcelWorksheet><x:Name>${sheet.name}</x:Name><x:WorksheetOptions><x:DisplayGridlines/></x:WorksheetOptions></x:ExcelWorksheet>`;
-    });
-
-    excelContent += '</x:ExcelWorksheets></x:ExcelWorkbook></xml><![endif]-->';
-    // Add Times New Roman style for Excel
-    excelContent += '<style>body, table { font-family: "Times New Roman", Times, serif; }</style>';
-    excelContent += '</head><body>';
-
-    sheets.forEach(sheet => {
-        excelContent += sheet.content;
-    });
-
-    excelContent += '</body></html>';
-
-    const blob = new Blob([excelContent], { type: 'application/vnd.ms-excel' });
+    const workbook = buildXLSX(buildResultWorkbook({ factors, result, study, ssim, experts, annotatedSsims, fuzzyMicmac, tism, references }));
     const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `ISM_Analysis_Results_${new Date().toISOString().split('T')[0]}.xls`;
+    link.href = URL.createObjectURL(new Blob([workbook], { type: XLSX_MIME_TYPE }));
+    link.download = `ISM_Analysis_Results_${new Date().toISOString().split('T')[0]}.xlsx`;
     link.click();
   };
 
-  // Helper to generate HTML Table for Analysis
-  const generateAnalysisTableHTML = () => {
-      let html = '<table><thead><tr><th>Factor</th><th>Reachability Set</th><th>Antecedent Set</th><th>Intersection</th><th>Level</th></tr></thead><tbody>';
-      
-      const { finalReachabilityMatrix, levels } = result;
-      const size = factors.length;
-      const levelMap = new Map<number, number>();
-      levels.forEach(l => l.elements.forEach(idx => levelMap.set(idx, l.level)));
-
-      factors.forEach((factor, i) => {
-        const reachabilitySet = [];
-        const antecedentSet = [];
-        for (let j = 0; j < size; j++) {
-            if (finalReachabilityMatrix[i][j] === 1) reachabilitySet.push(factors[j].name);
-            if (finalReachabilityMatrix[j][i] === 1) antecedentSet.push(factors[j].name);
-        }
-        const intersection = reachabilitySet.filter(x => antecedentSet.includes(x));
-        
-        html += `<tr><td>${factor.name}</td><td>${reachabilitySet.join(', ')}</td><td>${antecedentSet.join(', ')}</td><td>${intersection.join(', ')}</td><td>${levelMap.get(i)}</td></tr>`;
-      });
-      html += '</tbody></table><br/>';
-      return html;
-  };
-
-  // Helper to generate HTML Table for Matrices
-  const generateMatrixHTML = (matrix: number[][], irm: number[][] | null, isFinal: boolean) => {
-      let html = '<table>';
-      if(isFinal) {
-          html += '<tr><td colspan="5" style="font-weight:bold">Key:</td></tr>';
-          html += '<tr><td colspan="5">1: Direct Relationship</td></tr>';
-          html += '<tr><td colspan="5">1*: Transitive Relationship</td></tr>';
-          html += '<tr><td colspan="5">0: No Relationship</td></tr>';
-          html += '<tr><td colspan="5"></td></tr>';
-      }
-      html += '<thead><tr><th>i \\ j</th>';
-      // Columns: Short Name/ID Only
-      factors.forEach(f => html += `<th>${f.name}</th>`);
-      if(isFinal) html += '<th>Driving Power</th>';
-      html += '</tr></thead><tbody>';
-      const size = matrix.length;
-      const drivingPowers = matrix.map(row => row.reduce((sum, val) => sum + val, 0));
-      const dependencePowers = Array.from({ length: size }, (_, colIndex) => matrix.reduce((sum, row) => sum + row[colIndex], 0));
-      matrix.forEach((row, i) => {
-          // Rows: Full Name/Description
-          html += `<tr><td>${factors[i].name}: ${factors[i].description || ''}</td>`;
-          row.forEach((val, j) => {
-              let displayVal = val.toString();
-              if (isFinal && irm && val === 1) {
-                   const isDirect = irm[i][j] === 1;
-                   const isSelf = i === j;
-                   if (!isDirect && !isSelf) displayVal = "1*";
-              }
-              html += `<td>${displayVal}</td>`;
-          });
-          if(isFinal) html += `<td>${drivingPowers[i]}</td>`;
-          html += '</tr>';
-      });
-      if(isFinal) {
-          html += '<tr><td>Dependence Power</td>';
-          dependencePowers.forEach(val => html += `<td>${val}</td>`);
-          html += '<td></td></tr>';
-      }
-      html += '</tbody></table><br/>';
-      return html;
-  };
-
   const renderSimpleMatrix = (matrix: number[][]) => (
     <div className="space-y-4">
       <div className="flex flex-wrap items-center gap-4 text-xs bg-slate-50 p-3 rounded border border-slate-200 matrix-key whitespace-nowrap">
@@ -397,7 +333,7 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
     </div>
   );
 
-  const renderFRMWithPowers = (frm: number[][], irm: number[][]) => {
+  const renderFRMWithPowers = (frm: number[][], kinds: ReachabilityKindMatrix) => {
     const size = frm.length;
     const drivingPowers = frm.map(row => row.reduce((sum, val) => sum + val, 0));
     const dependencePowers = Array.from({ length: size }, (_, colIndex) => 
@@ -439,19 +375,11 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
                         <span className="font-normal text-slate-600">{factors[i].description}</span>
                    </td>
                    {row.map((val, j) => {
-                     const isDirect = irm[i][j] === 1;
-                     const isSelf = i === j;
-                     let displayVal: React.ReactNode = val;
+                     const kind = kinds[i][j];
                      let cellClass = "text-slate-300";
-                     if (val === 1) {
-                         if (isDirect || isSelf) {
-                             displayVal = "1";
-                             cellClass = "text-blue-900 font-bold bg-blue-50";
-                         } else {
-                             displayVal = "1*";
-                             cellClass = "text-amber-700 font-bold bg-amber-50";
-                         }
-                     } else displayVal = "0";
+                     if (kind === ReachabilityKind.TRANSITIVE) cellClass = "text-amber-700 font-bold bg-amber-50";
+                     else if (kind !== ReachabilityKind.NONE) cellClass = "text-blue-900 font-bold bg-blue-50";
+                     const displayVal = REACHABILITY_NOTATION[kind];
                      return <td key={j} className={`p-2 border border-slate-300 text-center ${cellClass}`}>{displayVal}</td>;
                    })}
                    <td className="p-2 border border-slate-300 bg-indigo-50 text-indigo-800 font-bold text-center">{drivingPowers[i]}</td>
@@ -482,7 +410,7 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
                   <Printer className="w-4 h-4" /> PDF Report
                </button>
                
-               {(activeTab === 'analysis' || activeTab === 'frm' || activeTab === 'irm') && (
+               {(activeTab === 'analysis' || activeTab === 'agreement' || activeTab === 'tism' || activeTab === 'frm' || activeTab === 'irm' || (activeTab === 'micmac' && fuzzyMicmac)) && (
                  <button onClick={handleExportExcel} className="flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-300 text-slate-700 rounded-md hover:bg-slate-50 text-xs font-bold shadow-sm animate-in fade-in">
                     <FileSpreadsheet className="w-4 h-4 text-emerald-600" /> Excel
                  </button>
@@ -500,8 +428,10 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
                 { id: 'irm', label: 'Initial' },
                 { id: 'frm', label: 'Final' },
                 { id: 'analysis', label: 'Partition' }, // Changed from Sets
+                ...(agreementStats ? [{ id: 'agreement', label: 'Agreement' }] : []),
                 { id: 'digraph', label: 'Digraph' },
                 { id: 'hierarchy', label: 'Hierarchy' },
+                ...(setTism ? [{ id: 'tism', label: 'TISM' }] : []),
                 { id: 'micmac', label: 'MICMAC' },
             ].map(tab => (
                 <button
@@ -517,22 +447,59 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
       </div>
 
       <div ref={exportRef} className="bg-white rounded-lg border border-slate-200 shadow-sm min-h-[600px] print-content">
+        {studyRows.length > 0 && (
+            <div className="px-6 pt-5 pb-3 border-b border-slate-100">
+                {study.topic && <h3 className="text-lg font-bold text-slate-900">{study.topic}</h3>}
+                <div className="flex flex-wrap gap-x-6 gap-y-1 mt-1 text-xs text-slate-500">
+                    {studyRows.filter(([label]) => label !== 'Topic').map(([label, value]) => (
+                        <span key={label}><span className="font-bold text-slate-600">{label}:</span> {value}</span>
+                    ))}
+                </div>
+            </div>
+        )}
         {activeTab === 'hierarchy' && (
              <div className="p-4 h-full overflow-x-auto">
-                <HierarchyGraph result={result} factors={factors} />
+                <HierarchyGraph result={result} factors={factors} title={study.topic} />
              </div>
         )}
         {activeTab === 'digraph' && (
              <div className="p-4 h-full overflow-x-auto">
-                <InterrelationshipGraph result={result} factors={factors} />
+                <InterrelationshipGraph result={result} factors={factors} title={study.topic} />
              </div>
         )}
+        {activeTab === 'tism' && setTism && (
+            <div className="p-6 space-y-8">
+                <div>
+                    <h3 className="font-bold text-slate-900 mb-4">Interpretive matrix</h3>
+                    <InterpretiveMatrix factors={factors} result={result} tism={tism} setTism={setTism} />
+                </div>
+                <div className="overflow-x-auto">
+                    <h3 className="font-bold text-slate-900 mb-4">TISM digraph</h3>
+                    <HierarchyGraph result={result} factors={factors} tism={tism} svgId="tism-graph-svg" title={study.topic} />
+                </div>
+            </div>
+        )}
         {activeTab === 'micmac' && (
             <div className="p-6 overflow-x-auto">
                 <div className="flex justify-between items-center mb-4 min-w-[600px]">
-                    <h3 className="font-bold text-slate-900">Results of MICMAC analysis of factors / barriers</h3>
+                    <h3 className="font-bold text-slate-900">
+                        Results of {micmacMode === 'fuzzy' && fuzzyMicmac ? 'fuzzy ' : ''}MICMAC analysis of factors / barriers
+                    </h3>
+                    {fuzzyMicmac && (
+                        <div className="flex bg-slate-100 p-1 rounded-md no-print">
+                            {(['binary', 'fuzzy'] as const).map(mode => (
+                                <button
+                                  key={mode}
+                                  onClick={() => setMicmacMode(mode)}
+                                  className={`px-3 py-1 rounded text-xs font-bold capitalize transition-all ${micmacMode === mode ? 'bg-white text-slate-900 shadow-sm ring-1 ring-slate-200' : 'text-slate-500 hover:text-slate-900'}`}
+                                >
+                                  {mode}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
-                <MicmacAnalysis result={result} factors={factors} />
+                <MicmacAnalysis result={result} factors={factors} fuzzy={micmacMode === 'fuzzy' ? fuzzyMicmac : null} />
             </div>
         )}
         {activeTab === 'analysis' && (
@@ -541,6 +508,12 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
                 <AnalysisTable factors={factors} result={result} />
             </div>
         )}
+        {activeTab === 'agreement' && agreementStats && (
+            <div className="p-6">
+                <h3 className="font-bold text-slate-900 mb-4">Inter-rater agreement of expert SSIMs</h3>
+                <AgreementTable factors={factors} experts={experts} stats={agreementStats} />
+            </div>
+        )}
         {activeTab === 'irm' && (
             <div className="p-6">
                 <h3 className="font-bold text-slate-900 mb-4">Initial reachability matrix</h3>
@@ -550,7 +523,7 @@ const ResultsView: React.FC<Props> = ({ factors, result, onReset, onBack }) => {
         {activeTab === 'frm' && (
             <div className="p-6">
                 <h3 className="font-bold text-slate-900 mb-4">Final reachability matrix</h3>
-                {renderFRMWithPowers(result.finalReachabilityMatrix, result.initialReachabilityMatrix)}
+                {renderFRMWithPowers(result.finalReachabilityMatrix, result.finalReachabilityKinds)}
             </div>
         )}
       </div>
@@ -1,39 +1,66 @@
 
-import React, { useState, useRef } from 'react';
-import { ISMElement, SSIMData, SSIMValue } from '../types';
-import { RotateCcw, Wand2, Save, Upload, ArrowLeft } from 'lucide-react';
-import { getCategoryTheme } from './FactorInput';
+import React, { useState, useRef, useMemo } from 'react';
+import { ISMElement, SSIMData, SSIMValue, AggregationResult, LinkInterpretations, SSIMAnnotations, ConfidenceLevel } from '../types';
+import { RotateCcw, Wand2, Save, Upload, ArrowLeft, ShieldCheck } from 'lucide-react';
+import { getCategoryTheme } from '../services/categoryColors';
+import CellDetailsPopover from './CellDetailsPopover';
+import ConsistencyReport from './ConsistencyReport';
+import MissingPairsReport from './MissingPairsReport';
+import { setLinkText } from '../services/tismLogic';
+import { findTransitivityViolations } from '../services/consistencyCheck';
+import { getSSIMCell, setSSIMRelation, getSSIMCompletion, findMissingPairs, parseSSIMFile, parseSSIMCSV, parseSSIMWorkbook, serialiseSSIMFile, setCellAnnotation } from '../services/ssimModel';
+import { decodeText } from '../services/factorFile';
 
 interface Props {
   factors: ISMElement[];
   ssim: SSIMData;
   setSsim: React.Dispatch<React.SetStateAction<SSIMData>>;
   topic: string;
+  relationPhrase?: string; // Contextual relation of the study, e.g. "leads to"
   onNext: () => void;
   onBack: () => void;
+  readOnly?: boolean; // Aggregate view: the grid is derived from the expert panel
+  decisions?: AggregationResult['decisions'];
+  changedCells?: Set<string>; // "rowId|colId" keys changed since the previous Delphi round
+  contextLabel?: string;
+  interpretations?: LinkInterpretations; // TISM link interpretations, edited from the cell popover
+  setInterpretations?: React.Dispatch<React.SetStateAction<LinkInterpretations>>;
+  inferredCells?: Set<string>; // "rowId|colId" keys filled in by transitivity during guided elicitation
+  missingPairs?: { i: number; j: number }[]; // Unanswered pairs of the SSIM the analysis runs on (defaults to this grid's)
+  annotations?: SSIMAnnotations; // Per-cell rationale and confidence, edited from the cell popover
+  setAnnotations?: React.Dispatch<React.SetStateAction<SSIMAnnotations>>;
 }
 
-const SSIMGrid: React.FC<Props> = ({ factors, ssim, setSsim, onNext, onBack }) => {
+const SSIMGrid: React.FC<Props> = ({ factors, ssim, setSsim, topic, relationPhrase = 'leads to', onNext, onBack, readOnly = false, decisions, changedCells, contextLabel, interpretations, setInterpretations, inferredCells, missingPairs, annotations, setAnnotations }) => {
   const [highlightCell, setHighlightCell] = useState<{i: string, j: string} | null>(null);
+  const [detailsCell, setDetailsCell] = useState<{i: number, j: number} | null>(null);
   const [confirmClear, setConfirmClear] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showMissing, setShowMissing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const tableContainerRef = useRef<HTMLDivElement>(null);
 
+  const completion = useMemo(() => getSSIMCompletion(factors.map(f => f.id), ssim), [factors, ssim]);
+  const blockingPairs = useMemo(() => missingPairs ?? findMissingPairs(factors.map(f => f.id), ssim), [missingPairs, factors, ssim]);
+
+  // Re-checked on every edit while the report is open, so fixed cells drop off the list
+  const violations = useMemo(
+    () => (showReport ? findTransitivityViolations(factors.map(f => f.id), ssim) : []),
+    [showReport, factors, ssim]
+  );
+
+  // Clicking cycles V -> A -> X -> O -> unanswered, so a stray click can be taken back
   const toggleValue = (iId: string, jId: string) => {
-    const current = ssim[iId]?.[jId] || SSIMValue.O;
-    const nextMap: Record<SSIMValue, SSIMValue> = {
+    if (readOnly) return;
+    const current = getSSIMCell(ssim, iId, jId);
+    const nextMap: Record<SSIMValue, SSIMValue | null> = {
       [SSIMValue.V]: SSIMValue.A,
       [SSIMValue.A]: SSIMValue.X,
       [SSIMValue.X]: SSIMValue.O,
-      [SSIMValue.O]: SSIMValue.V,
+      [SSIMValue.O]: null,
     };
-    
-    setSsim(prev => ({
-      ...prev,
-      [iId]: {
-        ...(prev[iId] || {}),
-        [jId]: nextMap[current]
-      }
-    }));
+    const next = current ? nextMap[current] : SSIMValue.V;
+    setSsim(prev => setSSIMRelation(prev, factors.map(f => f.id), iId, jId, next));
   };
 
   const handleLowerTriangleClick = (rowId: string, colId: string, rowIdx: number, colIdx: number) => {
@@ -42,6 +69,35 @@ const SSIMGrid: React.FC<Props> = ({ factors, ssim, setSsim, onNext, onBack }) =
     alert(`Edit cell (${factors[colIdx].name}, ${factors[rowIdx].name}) in the upper triangle.`);
   };
 
+  const jumpToCell = (i: number, j: number) => {
+    const rowId = factors[i].id;
+    const colId = factors[j].id;
+    setHighlightCell({ i: rowId, j: colId });
+    setTimeout(() => setHighlightCell(null), 4000);
+    tableContainerRef.current
+      ?.querySelector(`[data-cell="${CSS.escape(`${rowId}|${colId}`)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+  };
+
+  // Every route to the analysis, including "Generate anyway" in the report, requires every pair answered
+  const proceed = () => {
+    if (blockingPairs.length > 0) {
+      setShowReport(false);
+      setShowMissing(true);
+      return;
+    }
+    onNext();
+  };
+
+  // Generating runs the consistency check as well and stops on conflicts
+  const handleGenerate = () => {
+    if (blockingPairs.length === 0 && findTransitivityViolations(factors.map(f => f.id), ssim).length > 0) {
+      setShowReport(true);
+      return;
+    }
+    proceed();
+  };
+
   const handleClearClick = () => {
     if (confirmClear) {
         setSsim({});
@@ -53,7 +109,7 @@ const SSIMGrid: React.FC<Props> = ({ factors, ssim, setSsim, onNext, onBack }) =
   };
 
   const handleExportData = () => {
-    const dataStr = JSON.stringify(ssim, null, 2);
+    const dataStr = JSON.stringify(serialiseSSIMFile(ssim, annotations), null, 2);
     const link = document.createElement('a');
     link.href = URL.createObjectURL(new Blob([dataStr], { type: "application/json" }));
     link.download = `SSIM_Data_${new Date().toISOString().split('T')[0]}.json`;
@@ -63,23 +119,64 @@ const SSIMGrid: React.FC<Props> = ({ factors, ssim, setSsim, onNext, onBack }) =
   const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    const ids = factors.map(f => f.id);
+    const codes = factors.map(f => f.name);
+    const lowerName = file.name.toLowerCase();
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const parsedData = JSON.parse(e.target?.result as string);
-        if (typeof parsedData === 'object' && parsedData !== null) setSsim(parsedData);
+        const bytes = new Uint8Array(e.target?.result as ArrayBuffer);
+        // Tables (.xlsx, .csv) name factors by ID or code and carry no annotations
+        if (lowerName.endsWith('.xlsx') || lowerName.endsWith('.csv')) {
+          const imported = lowerName.endsWith('.xlsx') ? parseSSIMWorkbook(bytes, ids, codes) : parseSSIMCSV(decodeText(bytes).text, ids, codes);
+          if (Object.keys(imported).length > 0) setSsim(imported);
+          else alert("No SSIM cells matched the current factors.");
+        } else {
+          const parsedData = parseSSIMFile(JSON.parse(decodeText(bytes).text), ids);
+          if (parsedData) {
+            setSsim(parsedData.ssim);
+            setAnnotations?.(parsedData.annotations);
+          } else alert("Failed to parse file.");
+        }
       } catch (error) { alert("Failed to parse file."); }
       if (fileInputRef.current) fileInputRef.current.value = '';
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   };
 
-  const getCellColor = (val: SSIMValue) => {
+  const openCellDetails = (e: React.MouseEvent, i: number, j: number) => {
+    if (!setInterpretations && !setAnnotations) return;
+    e.preventDefault();
+    setDetailsCell({ i, j });
+  };
+
+  const hasInterpretation = (iId: string, jId: string) =>
+    !!(interpretations?.[iId]?.[jId] || interpretations?.[jId]?.[iId]);
+
+  const getCellTitle = (iId: string, jId: string, isInferred?: boolean) => {
+    const note = annotations?.[iId]?.[jId];
+    const base = getDecisionTitle(iId, jId) ?? (isInferred ? 'Inferred by transitivity. Click to override.' : undefined);
+    if (!note) return base;
+    const confidence = note.confidence ? `Confidence: ${note.confidence}` : '';
+    return [base, confidence, note.rationale.trim()].filter(Boolean).join('\n');
+  };
+
+  const getDecisionTitle = (iId: string, jId: string) => {
+    const decision = decisions?.[iId]?.[jId];
+    if (!decision) return undefined;
+    const { votes } = decision;
+    const breakdown = `V: ${votes.V}, A: ${votes.A}, X: ${votes.X}, O: ${votes.O}${decision.unanswered > 0 ? `, unanswered: ${decision.unanswered}` : ''}`;
+    const agreement = `${Math.round(decision.agreement * 100)}% agreement`;
+    return decision.consensus ? `${breakdown} (${agreement})` : `${breakdown} (no consensus, defaulted to O)`;
+  };
+
+  const getCellColor = (val: SSIMValue | null) => {
     switch(val) {
       case SSIMValue.V: return 'bg-emerald-100 text-emerald-800 border-emerald-300 hover:bg-emerald-200';
       case SSIMValue.A: return 'bg-amber-100 text-amber-800 border-amber-300 hover:bg-amber-200';
       case SSIMValue.X: return 'bg-blue-100 text-blue-800 border-blue-300 hover:bg-blue-200';
-      default: return 'bg-white text-slate-300 border-slate-200 hover:bg-slate-50';
+      case SSIMValue.O: return 'bg-white text-slate-400 border-slate-200 hover:bg-slate-50';
+      default: return 'bg-slate-50 text-slate-300 border-dashed border-slate-300 hover:bg-slate-100';
     }
   };
 
@@ -87,18 +184,59 @@ const SSIMGrid: React.FC<Props> = ({ factors, ssim, setSsim, onNext, onBack }) =
     <div className="space-y-6 animate-in fade-in duration-500 flex flex-col h-[calc(100vh-140px)]">
       <div className="flex flex-col sm:flex-row flex-shrink-0 justify-between items-start sm:items-center gap-4 border-b border-slate-200 pb-4">
         <div>
-          <h2 className="text-xl font-bold text-slate-800">SSIM Input</h2>
-          <p className="text-slate-500 text-sm mt-1">Define upper triangle relationships.</p>
+          <h2 className="text-xl font-bold text-slate-800">SSIM Input{topic && <span className="font-normal text-slate-500">: {topic}</span>}</h2>
+          <p className="text-slate-500 text-sm mt-1">
+            {readOnly ? 'Aggregated from the expert panel. Hover a cell to see the votes.' : `Define upper triangle relationships, read as "factor i ${relationPhrase} factor j".`}
+            {setInterpretations
+              ? <span className="ml-1">Right-click a cell to interpret its link (TISM) or note your rationale.</span>
+              : setAnnotations && <span className="ml-1">Right-click a cell to note your rationale and confidence.</span>}
+            {contextLabel && <span className="ml-2 font-bold text-slate-700">{contextLabel}</span>}
+            {inferredCells && inferredCells.size > 0 && (
+              <span className="ml-2 italic text-indigo-700">{inferredCells.size} inferred cells (dashed) to review.</span>
+            )}
+          </p>
         </div>
         <div className="flex flex-wrap items-center gap-3 text-xs md:text-sm font-medium">
           <div className="flex items-center gap-1.5 px-2 py-1 bg-emerald-50 border border-emerald-100 text-emerald-800 rounded"><span className="font-bold">V</span>: i&rarr;j</div>
           <div className="flex items-center gap-1.5 px-2 py-1 bg-amber-50 border border-amber-100 text-amber-800 rounded"><span className="font-bold">A</span>: j&rarr;i</div>
           <div className="flex items-center gap-1.5 px-2 py-1 bg-blue-50 border border-blue-100 text-blue-800 rounded"><span className="font-bold">X</span>: Mutual</div>
           <div className="flex items-center gap-1.5 px-2 py-1 bg-slate-50 border border-slate-200 text-slate-500 rounded"><span className="font-bold">O</span>: None</div>
+          <div className="flex items-center gap-1.5 px-2 py-1 bg-slate-50 border border-dashed border-slate-300 text-slate-400 rounded" title="Clicking a cell cycles V, A, X, O and back to unanswered"><span className="font-bold">&ndash;</span>: Unanswered</div>
+        </div>
+      </div>
+
+      <div className="flex-shrink-0 flex items-center gap-3 text-xs text-slate-600">
+        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all ${completion.answered === completion.total ? 'bg-emerald-500' : 'bg-slate-700'}`}
+            style={{ width: `${completion.total ? (completion.answered / completion.total) * 100 : 0}%` }}
+          />
         </div>
+        <span className="font-bold whitespace-nowrap">
+          {completion.answered}/{completion.total} pairs answered ({completion.total ? Math.round((completion.answered / completion.total) * 100) : 0}%)
+        </span>
       </div>
 
-      <div className="flex-1 overflow-auto bg-white rounded-lg border border-slate-300 shadow-sm relative pb-4">
+      {showMissing && blockingPairs.length > 0 && (
+        <MissingPairsReport
+          factors={factors}
+          missingPairs={blockingPairs}
+          onJumpToCell={jumpToCell}
+          onClose={() => setShowMissing(false)}
+        />
+      )}
+
+      {showReport && (
+        <ConsistencyReport
+          factors={factors}
+          violations={violations}
+          onJumpToCell={jumpToCell}
+          onProceed={proceed}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      <div ref={tableContainerRef} className="flex-1 overflow-auto bg-white rounded-lg border border-slate-300 shadow-sm relative pb-4">
         <table className="border-collapse w-max min-w-full table-fixed">
           <thead>
             <tr>
@@ -119,24 +257,41 @@ const SSIMGrid: React.FC<Props> = ({ factors, ssim, setSsim, onNext, onBack }) =
                 <td className={`sticky left-0 z-20 bg-white p-2 text-slate-700 text-xs font-semibold border-r border-slate-300 border-b border-slate-100 border-l-4 ${getCategoryTheme(rowFactor.category).borderL} min-w-[200px] max-w-[300px] shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)] whitespace-normal leading-tight`} title={rowFactor.description}>
                   <span className="text-slate-400 mr-2">{rowFactor.name}.</span>
                   {rowFactor.description || rowFactor.name}
+                  {completion.rows[i].total > 0 && (
+                    <span className={`block mt-1 text-[10px] font-bold ${completion.rows[i].answered === completion.rows[i].total ? 'text-emerald-600' : 'text-slate-400'}`}>
+                      {completion.rows[i].answered}/{completion.rows[i].total} answered
+                    </span>
+                  )}
                 </td>
                 {factors.map((colFactor, j) => {
                   const isDiagonal = i === j;
                   const isLower = j < i;
-                  const val = ssim[rowFactor.id]?.[colFactor.id] || SSIMValue.O;
+                  const val = getSSIMCell(ssim, rowFactor.id, colFactor.id);
                   const isHighlighted = highlightCell?.i === rowFactor.id && highlightCell?.j === colFactor.id;
+                  const decision = decisions?.[rowFactor.id]?.[colFactor.id];
+                  const isChanged = changedCells?.has(`${rowFactor.id}|${colFactor.id}`);
+                  const isInferred = inferredCells?.has(`${rowFactor.id}|${colFactor.id}`);
+                  const isLowConfidence = annotations?.[rowFactor.id]?.[colFactor.id]?.confidence === ConfidenceLevel.LOW;
 
                   if (isDiagonal) return <td key={colFactor.id} className="bg-slate-100 border border-slate-200"></td>;
                   if (isLower) return <td key={colFactor.id} onClick={() => handleLowerTriangleClick(rowFactor.id, colFactor.id, i, j)} className="bg-slate-50 border border-slate-100 cursor-pointer hover:bg-slate-200"></td>;
 
                   return (
-                    <td key={colFactor.id} className={`p-0.5 border border-slate-200 text-center ${isHighlighted ? 'bg-yellow-50' : ''}`}>
+                    <td key={colFactor.id} data-cell={`${rowFactor.id}|${colFactor.id}`} className={`p-0.5 border border-slate-200 text-center ${isHighlighted ? 'bg-yellow-50' : ''}`}>
                         <button
                           type="button"
                           onClick={() => toggleValue(rowFactor.id, colFactor.id)}
-                          className={`w-full h-8 md:h-9 rounded-sm border font-bold text-xs md:text-sm transition-all flex items-center justify-center ${getCellColor(val)} ${isHighlighted ? 'ring-2 ring-yellow-400 ring-offset-1' : ''}`}
+                          onContextMenu={(e) => openCellDetails(e, i, j)}
+                          title={getCellTitle(rowFactor.id, colFactor.id, isInferred)}
+                          className={`w-full h-8 md:h-9 rounded-sm border font-bold text-xs md:text-sm transition-all flex items-center justify-center ${getCellColor(val)} ${isHighlighted ? 'ring-2 ring-yellow-400 ring-offset-1' : ''} ${readOnly ? 'cursor-default' : ''} ${decision && !decision.consensus ? 'border-dashed border-red-400' : ''} ${isChanged ? 'ring-2 ring-purple-400' : ''} ${isInferred ? 'italic border-dashed border-indigo-400' : ''} relative`}
                         >
-                          {val}
+                          {val ?? '–'}
+                          {val && val !== SSIMValue.O && hasInterpretation(rowFactor.id, colFactor.id) && (
+                            <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-slate-700" title="Interpreted"></span>
+                          )}
+                          {isLowConfidence && (
+                            <span className="absolute bottom-0.5 left-0.5 w-1.5 h-1.5 rounded-full bg-red-500" title="Low confidence"></span>
+                          )}
                         </button>
                     </td>
                   );
@@ -147,29 +302,49 @@ const SSIMGrid: React.FC<Props> = ({ factors, ssim, setSsim, onNext, onBack }) =
         </table>
       </div>
 
+      {detailsCell && (setInterpretations || setAnnotations) && (
+        <CellDetailsPopover
+          rowFactor={factors[detailsCell.i]}
+          colFactor={factors[detailsCell.j]}
+          value={getSSIMCell(ssim, factors[detailsCell.i].id, factors[detailsCell.j].id)}
+          interpretations={setInterpretations ? interpretations : undefined}
+          onInterpretationChange={setInterpretations && ((fromId, toId, text) => setInterpretations(prev => setLinkText(prev, fromId, toId, text)))}
+          annotation={annotations?.[factors[detailsCell.i].id]?.[factors[detailsCell.j].id]}
+          onAnnotationChange={setAnnotations && (note => setAnnotations(prev => setCellAnnotation(prev, factors[detailsCell.i].id, factors[detailsCell.j].id, note)))}
+          onClose={() => setDetailsCell(null)}
+        />
+      )}
+
       <div className="flex-shrink-0 flex flex-col sm:flex-row justify-between items-center gap-4 pt-2 pb-4 border-t border-slate-200 bg-slate-50 -mx-4 sm:-mx-6 px-4 sm:px-6 -mb-6 rounded-b-lg">
         <div className="flex flex-wrap items-center gap-3 w-full sm:w-auto justify-center sm:justify-start">
             <button onClick={onBack} className="px-4 py-2 border border-slate-300 bg-white text-slate-600 rounded-md hover:bg-slate-50 text-sm font-medium flex items-center gap-2">
                 <ArrowLeft className="w-4 h-4"/> Back
             </button>
-            <button onClick={handleClearClick} className={`px-4 py-2 border rounded-md text-sm font-medium flex items-center gap-2 ${confirmClear ? 'bg-red-50 text-red-700 border-red-200' : 'bg-white text-slate-600 border-slate-300 hover:text-red-600'}`}>
-                <RotateCcw className="w-4 h-4" /> {confirmClear ? "Confirm?" : "Clear"}
-            </button>
+            {!readOnly && (
+              <button onClick={handleClearClick} className={`px-4 py-2 border rounded-md text-sm font-medium flex items-center gap-2 ${confirmClear ? 'bg-red-50 text-red-700 border-red-200' : 'bg-white text-slate-600 border-slate-300 hover:text-red-600'}`}>
+                  <RotateCcw className="w-4 h-4" /> {confirmClear ? "Confirm?" : "Clear"}
+              </button>
+            )}
             
             <div className="hidden sm:block w-px h-8 bg-slate-300 mx-2"></div>
 
-            <input type="file" ref={fileInputRef} onChange={handleImportData} accept=".json" className="hidden" />
+            <input type="file" ref={fileInputRef} onChange={handleImportData} accept=".json,.csv,.xlsx" className="hidden" />
             <div className="flex bg-white rounded-md shadow-sm border border-slate-300 overflow-hidden divide-x divide-slate-200">
                 <button onClick={handleExportData} className="px-3 py-2 hover:bg-slate-50 text-slate-600 text-xs font-medium flex items-center gap-2">
                    <Save className="w-4 h-4" /> Save
                 </button>
-                <button onClick={() => fileInputRef.current?.click()} className="px-3 py-2 hover:bg-slate-50 text-slate-600 text-xs font-medium flex items-center gap-2">
-                   <Upload className="w-4 h-4" /> Load
-                </button>
+                {!readOnly && (
+                  <button onClick={() => fileInputRef.current?.click()} className="px-3 py-2 hover:bg-slate-50 text-slate-600 text-xs font-medium flex items-center gap-2">
+                     <Upload className="w-4 h-4" /> Load
+                  </button>
+                )}
             </div>
+            <button onClick={() => setShowReport(true)} className="px-3 py-2 border border-slate-300 bg-white text-slate-600 rounded-md hover:bg-slate-50 text-xs font-medium flex items-center gap-2 shadow-sm" title="List answered cells that transitivity overrides">
+                <ShieldCheck className="w-4 h-4" /> Check Consistency
+            </button>
         </div>
         
-        <button onClick={onNext} className="w-full sm:w-auto px-6 py-2.5 bg-slate-900 hover:bg-slate-800 text-white font-bold text-sm rounded-md shadow-sm flex items-center justify-center gap-2">
+        <button onClick={handleGenerate} className="w-full sm:w-auto px-6 py-2.5 bg-slate-900 hover:bg-slate-800 text-white font-bold text-sm rounded-md shadow-sm flex items-center justify-center gap-2">
           Generate Model <Wand2 className="w-4 h-4" />
         </button>
       </div>
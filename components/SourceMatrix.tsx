@@ -0,0 +1,102 @@
+
+import React, { useMemo } from 'react';
+import { ISMElement, Reference } from '../types';
+import { buildSourceMatrix, buildSourceMatrixRows, serialiseSourceMatrixCSV, buildAppendixArchive, citeLabel } from '../services/references';
+import { buildXLSX, XLSX_MIME_TYPE } from '../services/xlsx';
+import { Check, FileText, FileSpreadsheet, FileArchive } from 'lucide-react';
+
+interface Props {
+  factors: ISMElement[];
+  references: Reference[];
+  onToggle: (factorId: string, referenceId: string) => void;
+}
+
+const download = (data: BlobPart, type: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([data], { type }));
+  link.download = fileName;
+  link.click();
+};
+
+const buttonClass = "px-2.5 py-1 border border-slate-300 bg-white text-slate-600 rounded text-[11px] font-medium flex items-center gap-1 hover:bg-slate-50";
+
+const SourceMatrix: React.FC<Props> = ({ factors, references, onToggle }) => {
+  const { rows, sourceTotals } = useMemo(() => buildSourceMatrix(factors, references), [factors, references]);
+
+  const handleExportExcel = () => {
+    const sheet = { name: 'Factor Sources', rows: buildSourceMatrixRows(factors, references), boldRows: [0] };
+    download(buildXLSX([sheet]), XLSX_MIME_TYPE, 'factor_sources.xlsx');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Factor Identification Matrix</h4>
+        <div className="flex gap-2">
+          <button type="button" onClick={() => download(serialiseSourceMatrixCSV(factors, references), 'text/csv;charset=utf-8', 'factor_sources.csv')} className={buttonClass}>
+            <FileText className="w-3.5 h-3.5" /> CSV
+          </button>
+          <button type="button" onClick={handleExportExcel} className={buttonClass}>
+            <FileSpreadsheet className="w-3.5 h-3.5 text-emerald-600" /> Excel
+          </button>
+          <button
+            type="button"
+            onClick={() => download(buildAppendixArchive(factors, references), 'application/zip', 'factor_sources_appendix.zip')}
+            className={buttonClass}
+            title="LaTeX tables citing the sources, with the matching references.bib"
+          >
+            <FileArchive className="w-3.5 h-3.5" /> LaTeX appendix
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">Click a cell to record that a source mentions the factor. Factors are ranked by how many sources mention them.</p>
+
+      <div className="overflow-x-auto border border-slate-200 rounded-md">
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-2 py-1.5 text-left font-bold">Factor</th>
+              {references.map((ref, r) => (
+                <th key={ref.id} className="px-1.5 py-1.5 font-bold text-center" title={`${citeLabel(ref)}${ref.title ? `: ${ref.title}` : ''}`}>[{r + 1}]</th>
+              ))}
+              <th className="px-2 py-1.5 font-bold text-center">Count</th>
+              <th className="px-2 py-1.5 font-bold text-center">Rank</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.factor.id}>
+                <td className="px-2 py-1 text-slate-700 whitespace-nowrap" title={row.factor.description}>
+                  <span className="font-bold">{row.factor.name}</span>
+                </td>
+                {row.mentions.map((mentioned, r) => (
+                  <td key={references[r].id} className="p-0.5 text-center">
+                    <button
+                      type="button"
+                      onClick={() => onToggle(row.factor.id, references[r].id)}
+                      className={`w-6 h-6 inline-flex items-center justify-center rounded border transition-colors ${mentioned ? 'bg-slate-900 border-slate-900 text-white' : 'border-slate-200 text-transparent hover:border-slate-400'}`}
+                      title={`${row.factor.name} in ${citeLabel(references[r])}`}
+                    >
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                ))}
+                <td className="px-2 py-1 text-center font-bold text-slate-700">{row.count}</td>
+                <td className="px-2 py-1 text-center text-slate-500">{row.rank}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-slate-50 text-slate-500 border-t border-slate-200">
+            <tr>
+              <td className="px-2 py-1.5 font-bold">Factors per source</td>
+              {sourceTotals.map((total, r) => <td key={references[r].id} className="px-1.5 py-1.5 text-center font-bold">{total}</td>)}
+              <td colSpan={2}></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SourceMatrix;
@@ -0,0 +1,70 @@
+
+import React from 'react';
+import { StudyMetadata } from '../types';
+import { RELATION_PHRASES } from '../services/study';
+import { FileText } from 'lucide-react';
+
+interface Props {
+  study: StudyMetadata;
+  setStudy: React.Dispatch<React.SetStateAction<StudyMetadata>>;
+  expertCount: number; // Default panel size
+}
+
+const inputClass = "w-full px-3 py-2 rounded-md border border-slate-300 text-sm outline-none focus:border-slate-500 focus:ring-1 focus:ring-slate-500";
+const labelClass = "block text-xs font-bold text-slate-500 mb-1";
+
+const StudySettings: React.FC<Props> = ({ study, setStudy, expertCount }) => {
+  const update = <K extends keyof StudyMetadata>(key: K, value: StudyMetadata[K]) =>
+    setStudy(prev => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+      <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex items-center gap-2">
+        <FileText className="w-4 h-4 text-slate-500" />
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Study Details</span>
+      </div>
+      <div className="p-4 grid grid-cols-1 md:grid-cols-6 gap-4">
+        <div className="md:col-span-4">
+          <label className={labelClass}>Topic</label>
+          <input value={study.topic} onChange={e => update('topic', e.target.value)} placeholder="e.g. Barriers to modular construction" className={inputClass} />
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Contextual relation</label>
+          <input
+            value={study.relationPhrase}
+            onChange={e => update('relationPhrase', e.target.value)}
+            list="relation-phrases"
+            placeholder="leads to"
+            className={inputClass}
+          />
+          <datalist id="relation-phrases">
+            {RELATION_PHRASES.map(phrase => <option key={phrase} value={phrase} />)}
+          </datalist>
+          <p className="text-[11px] text-slate-400 mt-1">Read as: factor i {study.relationPhrase || '...'} factor j</p>
+        </div>
+        <div className="md:col-span-3">
+          <label className={labelClass}>Author</label>
+          <input value={study.author} onChange={e => update('author', e.target.value)} placeholder="Name or research team" className={inputClass} />
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Date</label>
+          <input type="date" value={study.date} onChange={e => update('date', e.target.value)} className={inputClass} />
+        </div>
+        <div className="md:col-span-1">
+          <label className={labelClass}>Panel size</label>
+          <input
+            type="number"
+            min={1}
+            value={study.panelSize ?? ''}
+            onChange={e => update('panelSize', e.target.value === '' ? null : Math.max(1, Math.round(Number(e.target.value))))}
+            placeholder={expertCount > 0 ? String(expertCount) : '–'}
+            title="Leave empty to use the number of experts in the panel"
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudySettings;
@@ -0,0 +1,133 @@
+/**
+ * Benchmarks the bitset ISM engine against the previous number[][] implementation.
+ * Usage: npm run benchmark -- [size] [runs]
+ */
+import { performance } from 'node:perf_hooks';
+import { BinaryMatrix, LevelPartition, SSIMData, SSIMValue } from '../types';
+import {
+  convertSSIMToIRM,
+  runISMAnalysis,
+  findStronglyConnectedComponents,
+  getComponentMembership,
+  condenseMatrix,
+} from '../services/ismLogic';
+
+const size = Number(process.argv[2]) || 200;
+const runs = Number(process.argv[3]) || 5;
+
+// Reference engine: the nested-array loops the bitset engine replaced
+const legacyClosure = (irm: BinaryMatrix): BinaryMatrix => {
+  const n = irm.length;
+  const matrix = irm.map(row => [...row]);
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (matrix[i][k] === 1 && matrix[k][j] === 1) matrix[i][j] = 1;
+      }
+    }
+  }
+  return matrix;
+};
+
+const legacyLevels = (condensed: BinaryMatrix, components: number[][]): LevelPartition[] => {
+  const remaining = new Set<number>(condensed.map((_, c) => c));
+  const levels: LevelPartition[] = [];
+  while (remaining.size > 0) {
+    const current: number[] = [];
+    remaining.forEach(c => {
+      const reachable: number[] = [];
+      const antecedent: number[] = [];
+      remaining.forEach(d => {
+        if (condensed[c][d] === 1) reachable.push(d);
+        if (condensed[d][c] === 1) antecedent.push(d);
+      });
+      if (reachable.filter(x => antecedent.includes(x)).length === reachable.length) current.push(c);
+    });
+    if (current.length === 0) break;
+    levels.push({ level: levels.length + 1, elements: current.flatMap(c => components[c]).sort((a, b) => a - b) });
+    current.forEach(c => remaining.delete(c));
+  }
+  return levels;
+};
+
+const legacyCanonical = (condensed: BinaryMatrix, componentOf: number[]): BinaryMatrix => {
+  const count = condensed.length;
+  const reduced = condensed.map(row => [...row]);
+  for (let a = 0; a < count; a++) {
+    reduced[a][a] = 0;
+    for (let b = 0; b < count; b++) {
+      if (a === b || condensed[a][b] !== 1) continue;
+      for (let c = 0; c < count; c++) {
+        if (c !== a && c !== b && condensed[a][c] === 1 && condensed[c][b] === 1) {
+          reduced[a][b] = 0;
+          break;
+        }
+      }
+    }
+  }
+  return componentOf.map(ci => componentOf.map(cj => reduced[ci][cj]));
+};
+
+const legacyAnalysis = (ids: string[], ssim: SSIMData) => {
+  const irm = convertSSIMToIRM(ids.length, ids, ssim);
+  const frm = legacyClosure(irm);
+  const components = findStronglyConnectedComponents(frm);
+  const componentOf = getComponentMembership(components, ids.length);
+  const condensed = condenseMatrix(frm, components);
+  return {
+    finalReachabilityMatrix: frm,
+    levels: legacyLevels(condensed, components),
+    canonicalMatrix: legacyCanonical(condensed, componentOf),
+  };
+};
+
+// Deterministic sparse SSIM, mostly acyclic with a few cycles, like a real study
+const generateSSIM = (ids: string[]): SSIMData => {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+  // About three outgoing links per factor, whatever the size
+  const density = 3 / ids.length;
+  const ssim: SSIMData = {};
+  ids.forEach((idI, i) => {
+    ssim[idI] = {};
+    for (let j = i + 1; j < ids.length; j++) {
+      const r = random();
+      ssim[idI][ids[j]] = r < density ? SSIMValue.V : r < density * 1.2 ? SSIMValue.A : r < density * 1.25 ? SSIMValue.X : SSIMValue.O;
+    }
+  });
+  return ssim;
+};
+
+const time = (fn: () => unknown) => {
+  const times: number[] = [];
+  for (let r = 0; r < runs; r++) {
+    const start = performance.now();
+    fn();
+    times.push(performance.now() - start);
+  }
+  return times.sort((a, b) => a - b)[Math.floor(times.length / 2)];
+};
+
+const ids = Array.from({ length: size }, (_, i) => `F${i + 1}`);
+const ssim = generateSSIM(ids);
+
+const current = runISMAnalysis(size, ids, ssim);
+const legacy = legacyAnalysis(ids, ssim);
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+if (!same(current.finalReachabilityMatrix, legacy.finalReachabilityMatrix)
+  || !same(current.levels, legacy.levels)
+  || !same(current.canonicalMatrix, legacy.canonicalMatrix)) {
+  console.error('Results differ between the bitset and reference engines.');
+  process.exit(1);
+}
+
+const legacyMs = time(() => legacyAnalysis(ids, ssim));
+const bitsetMs = time(() => runISMAnalysis(size, ids, ssim));
+
+console.log(`N = ${size}, median of ${runs} runs, ${current.levels.length} levels, ${current.components.length} components`);
+console.log(`  number[][] engine: ${legacyMs.toFixed(1)} ms`);
+console.log(`  bitset engine:     ${bitsetMs.toFixed(1)} ms`);
+console.log(`  speed-up:          ${(legacyMs / bitsetMs).toFixed(1)}x`);
@@ -0,0 +1,175 @@
+/**
+ * Runs an ISM analysis without the browser and writes the results to a folder.
+ * Usage:
+ *   npm run ism -- --factors factors.csv --ssim ssim.json --out results
+ *   npm run ism -- --project study.ism --out results --svg
+ * Options:
+ *   --factors <file>   Factors as CSV (id,name,description,category), .xlsx or a JSON array
+ *   --ssim <file>      SSIM as saved by the app (JSON) or a square CSV or .xlsx table
+ *   --project <file>   A .ism project file instead of --factors/--ssim
+ *   --out <dir>        Output folder (default: ism-output)
+ *   --format <fmt>     json, csv or both (default: both)
+ *   --svg              Also render hierarchy.svg and digraph.svg
+ *   --xlsx             Also write results.xlsx, the workbook the app exports
+ *   --title <text>     Study topic for the graph titles (default: the project's topic)
+ */
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { BinaryMatrix, ISMElement, ISMResult, SSIMData } from '../types';
+import { runISMAnalysis } from '../services/ismLogic';
+import { computeMicmacPowers, classifyMicmac } from '../services/micmac';
+import { findMissingPairs, parseSSIMFile, parseSSIMCSV, parseSSIMWorkbook } from '../services/ssimModel';
+import { parseFactorFile } from '../services/factorFile';
+import { decodeProjectFile } from '../services/projectFile';
+import { aggregateExpertSSIMs } from '../services/expertAggregation';
+import { deriveSSIMFromFuzzy } from '../services/fuzzyLogic';
+import { renderHierarchySVG, renderDigraphSVG } from '../services/graphSvg';
+import { toCSV } from '../services/csv';
+import { buildXLSX } from '../services/xlsx';
+import { buildResultWorkbook } from '../services/resultsWorkbook';
+
+const fail = (message: string): never => {
+  console.error(`ism: ${message}`);
+  process.exit(1);
+};
+
+const { values: args } = parseArgs({
+  options: {
+    factors: { type: 'string' },
+    ssim: { type: 'string' },
+    project: { type: 'string' },
+    out: { type: 'string', default: 'ism-output' },
+    format: { type: 'string', default: 'both' },
+    svg: { type: 'boolean', default: false },
+    xlsx: { type: 'boolean', default: false },
+    title: { type: 'string' },
+  },
+});
+
+if (!['json', 'csv', 'both'].includes(args.format!)) fail(`unknown format "${args.format}" (use json, csv or both)`);
+
+const readBytes = (path: string) => {
+  try {
+    return new Uint8Array(readFileSync(path));
+  } catch {
+    return fail(`cannot read ${path}`);
+  }
+};
+
+const readText = (path: string) => new TextDecoder().decode(readBytes(path));
+
+// The SSIM the app would analyse: fuzzy-derived, the final round's aggregate, or the plain SSIM
+const loadProject = (path: string): { factors: ISMElement[]; ssim: SSIMData; topic: string } => {
+  const bytes = readBytes(path);
+  try {
+    const project = decodeProjectFile(bytes);
+    const ids = project.factors.map(f => f.id);
+    const finalRound = project.rounds[project.rounds.length - 1];
+    const ssim = project.inputMode === 'fuzzy'
+      ? deriveSSIMFromFuzzy(ids, project.fuzzyRatings)
+      : finalRound && finalRound.experts.length > 0
+        ? aggregateExpertSSIMs(ids, finalRound.experts, project.aggregationSettings).ssim
+        : project.ssim;
+    return { factors: project.factors, ssim, topic: project.study.topic };
+  } catch (error) {
+    return fail(`cannot open project ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const loadInputs = (): { factors: ISMElement[]; ssim: SSIMData; topic: string } => {
+  if (args.project) return loadProject(args.project);
+  if (!args.factors || !args.ssim) return fail('pass --factors and --ssim, or --project');
+
+  let factors: ISMElement[] = [];
+  try {
+    const parsed = parseFactorFile(readBytes(args.factors), args.factors);
+    parsed.issues.forEach(issue => console.error(`ism: ${args.factors}${issue.row ? ` row ${issue.row}` : ''}: ${issue.severity}: ${issue.message}`));
+    factors = parsed.factors;
+  } catch {
+    fail(`cannot parse factors in ${args.factors}`);
+  }
+  if (factors.length === 0) fail(`no factors in ${args.factors}`);
+  const ids = factors.map(f => f.id);
+  const codes = factors.map(f => f.name);
+  const lowerName = args.ssim.toLowerCase();
+  let ssim: SSIMData | undefined;
+  try {
+    if (lowerName.endsWith('.xlsx')) ssim = parseSSIMWorkbook(readBytes(args.ssim), ids, codes);
+    else if (lowerName.endsWith('.csv')) ssim = parseSSIMCSV(readText(args.ssim), ids, codes);
+    else ssim = parseSSIMFile(JSON.parse(readText(args.ssim)), ids)?.ssim;
+  } catch {
+    // Reported below
+  }
+  if (!ssim) return fail(`cannot parse SSIM in ${args.ssim}`);
+  return { factors, ssim, topic: '' };
+};
+
+const { factors, ssim, topic } = loadInputs();
+if (factors.length < 2) fail('at least 2 factors are needed');
+const ids = factors.map(f => f.id);
+if (new Set(ids).size !== ids.length) fail('factor ids must be unique');
+
+const missing = findMissingPairs(ids, ssim);
+if (missing.length > 0) {
+  const shown = missing.slice(0, 5).map(({ i, j }) => `(${factors[i].name}, ${factors[j].name})`).join(', ');
+  fail(`${missing.length} SSIM cell(s) unanswered: ${shown}${missing.length > 5 ? ', …' : ''}`);
+}
+
+const result: ISMResult = runISMAnalysis(ids.length, ids, ssim);
+const { drivingPower, dependencePower } = computeMicmacPowers(result.finalReachabilityMatrix);
+const quadrants = classifyMicmac(result.finalReachabilityMatrix);
+const levelOf = new Map(result.levels.flatMap(l => l.elements.map(e => [e, l.level] as const)));
+
+const labelled = (matrix: BinaryMatrix) => Object.fromEntries(ids.map((id, i) => [id, Object.fromEntries(ids.map((idJ, j) => [idJ, matrix[i][j]]))]));
+const micmac = factors.map((f, i) => ({
+  id: f.id,
+  name: f.name,
+  drivingPower: drivingPower[i],
+  dependencePower: dependencePower[i],
+  quadrant: quadrants[i],
+  level: levelOf.get(i)!,
+}));
+
+mkdirSync(args.out!, { recursive: true });
+const written: string[] = [];
+const write = (name: string, content: string | Uint8Array) => {
+  writeFileSync(join(args.out!, name), content);
+  written.push(name);
+};
+
+if (args.format !== 'csv') {
+  write('result.json', JSON.stringify({
+    factors,
+    initialReachabilityMatrix: labelled(result.initialReachabilityMatrix),
+    finalReachabilityMatrix: labelled(result.finalReachabilityMatrix),
+    canonicalMatrix: labelled(result.canonicalMatrix),
+    levels: result.levels.map(l => ({ level: l.level, factors: l.elements.map(e => ids[e]) })),
+    cycleGroups: result.components.filter(c => c.length > 1).map(c => c.map(e => ids[e])),
+    micmac,
+  }, null, 2) + '\n');
+}
+
+if (args.format !== 'json') {
+  const matrixCSV = (matrix: BinaryMatrix) => toCSV([['', ...ids], ...matrix.map((row, i) => [ids[i], ...row])]) + '\n';
+  write('irm.csv', matrixCSV(result.initialReachabilityMatrix));
+  write('frm.csv', matrixCSV(result.finalReachabilityMatrix));
+  write('canonical.csv', matrixCSV(result.canonicalMatrix));
+  write('levels.csv', toCSV([['level', 'factors'], ...result.levels.map(l => [l.level, l.elements.map(e => ids[e]).join(' ')])]) + '\n');
+  write('micmac.csv', toCSV([
+    ['id', 'name', 'driving_power', 'dependence_power', 'quadrant', 'level'],
+    ...micmac.map(m => [m.id, m.name, m.drivingPower, m.dependencePower, m.quadrant, m.level]),
+  ]) + '\n');
+}
+
+if (args.svg) {
+  const title = args.title ?? topic;
+  write('hierarchy.svg', renderHierarchySVG(result, factors, title));
+  write('digraph.svg', renderDigraphSVG(result, factors, title));
+}
+
+if (args.xlsx) {
+  write('results.xlsx', buildXLSX(buildResultWorkbook({ factors, result, ssim })));
+}
+
+console.log(`${factors.length} factors, ${result.levels.length} levels. Wrote ${written.join(', ')} to ${args.out}`);
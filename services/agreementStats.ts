@@ -0,0 +1,154 @@
+import { SSIMValue, ExpertResponse, AgreementStats, CellAgreement } from '../types';
+import { countVotes, countUnanswered } from './expertAggregation';
+import { runISMAnalysis } from './ismLogic';
+
+const CATEGORIES = [SSIMValue.V, SSIMValue.A, SSIMValue.X, SSIMValue.O];
+
+const answeredCount = (cell: CellAgreement) => CATEGORIES.reduce((sum, cat) => sum + cell.votes[cat], 0);
+
+/**
+ * Fleiss' kappa over the V/A/X/O categories.
+ * Each upper-triangle cell is a subject rated by the experts who answered it; blank
+ * entries are not ratings, and cells with fewer than two ratings are left out.
+ */
+export const computeFleissKappa = (cells: CellAgreement[]): number | null => {
+  const rated = cells.filter(cell => answeredCount(cell) >= 2);
+  if (rated.length === 0) return null;
+
+  // Observed agreement per subject, then averaged
+  let sumP = 0;
+  let totalRatings = 0;
+  const categoryTotals: Record<SSIMValue, number> = { V: 0, A: 0, X: 0, O: 0 };
+  rated.forEach(cell => {
+    const n = answeredCount(cell);
+    let sumSquares = 0;
+    CATEGORIES.forEach(cat => {
+      sumSquares += cell.votes[cat] * cell.votes[cat];
+      categoryTotals[cat] += cell.votes[cat];
+    });
+    sumP += (sumSquares - n) / (n * (n - 1));
+    totalRatings += n;
+  });
+  const meanP = sumP / rated.length;
+
+  // Expected agreement by chance
+  const expected = CATEGORIES.reduce((sum, cat) => sum + Math.pow(categoryTotals[cat] / totalRatings, 2), 0);
+
+  if (expected === 1) return null;
+  return (meanP - expected) / (1 - expected);
+};
+
+/**
+ * Ranks values in descending order, giving tied values their average rank.
+ */
+const rankDescending = (values: number[]): number[] => {
+  const order = values.map((v, idx) => ({ v, idx })).sort((a, b) => b.v - a.v);
+  const ranks = Array(values.length).fill(0);
+  let pos = 0;
+  while (pos < order.length) {
+    let end = pos;
+    while (end + 1 < order.length && order[end + 1].v === order[pos].v) end++;
+    const avgRank = (pos + end) / 2 + 1;
+    for (let k = pos; k <= end; k++) ranks[order[k].idx] = avgRank;
+    pos = end + 1;
+  }
+  return ranks;
+};
+
+/**
+ * Kendall's coefficient of concordance (W) with tie correction.
+ * Rows are raters, columns are the ranked objects.
+ */
+export const computeKendallW = (scores: number[][]): { w: number | null; chiSquare: number | null } => {
+  const m = scores.length;
+  const n = scores[0]?.length || 0;
+  if (m < 2 || n < 2) return { w: null, chiSquare: null };
+
+  const rankRows = scores.map(rankDescending);
+  const rankSums = Array.from({ length: n }, (_, j) => rankRows.reduce((sum, row) => sum + row[j], 0));
+  const meanRankSum = (m * (n + 1)) / 2;
+  const s = rankSums.reduce((sum, r) => sum + Math.pow(r - meanRankSum, 2), 0);
+
+  // Tie correction: sum of (t^3 - t) over every group of tied ranks for every rater
+  let tieCorrection = 0;
+  rankRows.forEach(row => {
+    const counts = new Map<number, number>();
+    row.forEach(r => counts.set(r, (counts.get(r) || 0) + 1));
+    counts.forEach(t => { tieCorrection += t * t * t - t; });
+  });
+
+  const denominator = m * m * (n * n * n - n) - m * tieCorrection;
+  if (denominator === 0) return { w: null, chiSquare: null };
+
+  const w = (12 * s) / denominator;
+  return { w, chiSquare: m * (n - 1) * w };
+};
+
+/**
+ * Vote breakdown and modal share for every upper-triangle cell, over the experts who
+ * answered it.
+ */
+export const computeCellAgreement = (ids: string[], experts: ExpertResponse[]): CellAgreement[] => {
+  const cells: CellAgreement[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const votes = countVotes(experts, ids[i], ids[j]);
+      const answered = CATEGORIES.reduce((sum, val) => sum + votes[val], 0);
+      const modalValue = CATEGORIES.reduce((best, val) => (votes[val] > votes[best] ? val : best), CATEGORIES[0]);
+      cells.push({
+        i,
+        j,
+        votes,
+        unanswered: countUnanswered(experts, ids[i], ids[j]),
+        modalValue: answered > 0 ? modalValue : null,
+        agreement: answered > 0 ? votes[modalValue] / answered : 0,
+      });
+    }
+  }
+  return cells;
+};
+
+// Cells nobody has answered yet have no agreement to average
+export const meanCellAgreement = (cells: CellAgreement[]): number => {
+  const answered = cells.filter(c => c.modalValue !== null);
+  return answered.length > 0 ? answered.reduce((sum, c) => sum + c.agreement, 0) / answered.length : 0;
+};
+
+/**
+ * Computes the inter-rater agreement statistics for an expert panel.
+ */
+export const computeAgreementStats = (ids: string[], experts: ExpertResponse[]): AgreementStats => {
+  const cells = computeCellAgreement(ids, experts);
+  const meanAgreement = meanCellAgreement(cells);
+
+  // Driving power of every factor as seen through each expert's own model
+  const drivingPowerByExpert = experts.map(expert => {
+    const { finalReachabilityMatrix } = runISMAnalysis(ids.length, ids, expert.ssim);
+    return finalReachabilityMatrix.map(row => row.reduce((sum, val) => sum + val, 0));
+  });
+  const kendall = computeKendallW(drivingPowerByExpert);
+
+  return {
+    raterCount: experts.length,
+    cells,
+    meanAgreement,
+    fleissKappa: computeFleissKappa(cells),
+    drivingPowerByExpert,
+    kendallW: kendall.w,
+    kendallChiSquare: kendall.chiSquare,
+    degreesOfFreedom: Math.max(ids.length - 1, 0),
+  };
+};
+
+/**
+ * Landis & Koch (1977) interpretation bands for kappa.
+ */
+export const interpretKappa = (kappa: number | null): string => {
+  if (kappa === null) return 'Undefined';
+  if (kappa < 0) return 'Poor';
+  if (kappa <= 0.2) return 'Slight';
+  if (kappa <= 0.4) return 'Fair';
+  if (kappa <= 0.6) return 'Moderate';
+  if (kappa <= 0.8) return 'Substantial';
+  return 'Almost perfect';
+};
@@ -0,0 +1,51 @@
+import { BinaryMatrix } from '../types';
+
+// Packed boolean matrix: each row is a bitset of 32-bit words
+export type BitMatrix = Uint32Array[];
+
+export const wordCount = (size: number) => Math.ceil(size / 32);
+
+export const createBitMatrix = (size: number, words = wordCount(size)): BitMatrix =>
+  Array.from({ length: size }, () => new Uint32Array(words));
+
+export const hasBit = (row: Uint32Array, j: number) => (row[j >>> 5] & (1 << (j & 31))) !== 0;
+
+export const setBit = (row: Uint32Array, j: number) => {
+  row[j >>> 5] |= 1 << (j & 31);
+};
+
+export const clearBit = (row: Uint32Array, j: number) => {
+  row[j >>> 5] &= ~(1 << (j & 31));
+};
+
+/**
+ * target |= source, word by word.
+ */
+export const orInto = (target: Uint32Array, source: Uint32Array) => {
+  for (let w = 0; w < target.length; w++) target[w] |= source[w];
+};
+
+/**
+ * Calls fn for every set bit of the row, in ascending order.
+ */
+export const forEachBit = (row: Uint32Array, fn: (j: number) => void) => {
+  for (let w = 0; w < row.length; w++) {
+    let word = row[w];
+    while (word !== 0) {
+      const low = word & -word;
+      fn((w << 5) + (31 - Math.clz32(low)));
+      word ^= low;
+    }
+  }
+};
+
+export const toBitMatrix = (matrix: BinaryMatrix): BitMatrix => {
+  const bits = createBitMatrix(matrix.length);
+  matrix.forEach((row, i) => row.forEach((val, j) => {
+    if (val === 1) setBit(bits[i], j);
+  }));
+  return bits;
+};
+
+export const toBinaryMatrix = (bits: BitMatrix, size = bits.length): BinaryMatrix =>
+  bits.map(row => Array.from({ length: size }, (_, j) => (hasBit(row, j) ? 1 : 0)));
@@ -0,0 +1,56 @@
+// Professional Color Palette - High Contrast & Distinct
+// Using explicit class strings to ensure Tailwind picks them up
+const PALETTE = [
+  { name: 'Red', bg: 'bg-red-100', text: 'text-red-900', border: 'border-red-300', borderL: 'border-l-red-600', hex: '#dc2626' },
+  { name: 'Blue', bg: 'bg-blue-100', text: 'text-blue-900', border: 'border-blue-300', borderL: 'border-l-blue-600', hex: '#2563eb' },
+  { name: 'Emerald', bg: 'bg-emerald-100', text: 'text-emerald-900', border: 'border-emerald-300', borderL: 'border-l-emerald-600', hex: '#059669' },
+  { name: 'Amber', bg: 'bg-amber-100', text: 'text-amber-900', border: 'border-amber-300', borderL: 'border-l-amber-600', hex: '#d97706' },
+  { name: 'Purple', bg: 'bg-purple-100', text: 'text-purple-900', border: 'border-purple-300', borderL: 'border-l-purple-600', hex: '#7c3aed' },
+  { name: 'Pink', bg: 'bg-pink-100', text: 'text-pink-900', border: 'border-pink-300', borderL: 'border-l-pink-600', hex: '#db2777' },
+  { name: 'Cyan', bg: 'bg-cyan-100', text: 'text-cyan-900', border: 'border-cyan-300', borderL: 'border-l-cyan-600', hex: '#0891b2' },
+  { name: 'Lime', bg: 'bg-lime-100', text: 'text-lime-900', border: 'border-lime-300', borderL: 'border-l-lime-600', hex: '#65a30d' },
+  { name: 'Orange', bg: 'bg-orange-100', text: 'text-orange-900', border: 'border-orange-300', borderL: 'border-l-orange-600', hex: '#ea580c' },
+  { name: 'Slate', bg: 'bg-slate-200', text: 'text-slate-800', border: 'border-slate-400', borderL: 'border-l-slate-600', hex: '#475569' },
+];
+
+const KNOWN_MAPPINGS: Record<string, number> = {
+  'management': 0, // Red
+  'cost': 8, // Orange
+  'financial': 8,
+  'organization': 1, // Blue
+  'technology': 6, // Cyan
+  'technical': 6,
+  'knowledge': 4, // Purple
+  'process': 3, // Amber
+  'policy': 9, // Slate
+  'legal': 9,
+  'environment': 2, // Emerald
+  'safety': 7, // Lime
+};
+
+export const getCategoryTheme = (category?: string) => {
+  if (!category) return PALETTE[9]; // Default Slate
+  
+  const normalizedCat = category.toLowerCase().trim();
+  
+  if (KNOWN_MAPPINGS[normalizedCat] !== undefined) {
+      return PALETTE[KNOWN_MAPPINGS[normalizedCat]];
+  }
+
+  // Robust Hashing for unknown categories
+  // Modified to use a different prime multiplier to separate similar strings better
+  let hash = 0;
+  for (let i = 0; i < normalizedCat.length; i++) {
+    hash = ((hash << 5) - hash) + normalizedCat.charCodeAt(i);
+    hash |= 0; // Convert to 32bit integer
+  }
+  // Added salt to shift distribution
+  return PALETTE[Math.abs(hash + 13) % PALETTE.length];
+};
+
+export const getCategoryColorClasses = (category?: string) => {
+  const theme = getCategoryTheme(category);
+  return `${theme.bg} ${theme.text} ${theme.border}`;
+};
+
+export const getCategoryColorHex = (category?: string) => getCategoryTheme(category).hex;
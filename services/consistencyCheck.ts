@@ -0,0 +1,59 @@
+import { SSIMData, BinaryMatrix, TransitivityViolation } from '../types';
+import { convertSSIMToIRM, computeFinalReachabilityMatrix } from './ismLogic';
+
+/**
+ * Breadth-first search over the direct links from one source.
+ * Returns the predecessor of every reached element (-1 for the source and unreached ones).
+ */
+const shortestPathTree = (irm: BinaryMatrix, source: number): number[] => {
+  const size = irm.length;
+  const parent = Array(size).fill(-1);
+  const visited = Array(size).fill(false);
+  visited[source] = true;
+  const queue = [source];
+
+  for (let head = 0; head < queue.length; head++) {
+    const v = queue[head];
+    for (let w = 0; w < size; w++) {
+      if (irm[v][w] === 1 && !visited[w]) {
+        visited[w] = true;
+        parent[w] = v;
+        queue.push(w);
+      }
+    }
+  }
+  return parent;
+};
+
+const tracePath = (parent: number[], source: number, target: number): number[] => {
+  const path = [target];
+  while (path[0] !== source) path.unshift(parent[path[0]]);
+  return path;
+};
+
+/**
+ * Lists every answered SSIM cell that transitivity overrides: the final reachability matrix
+ * adds a link the expert marked O, or one against the direction they chose.
+ * Each violation carries the shortest chain of direct links that causes it.
+ */
+export const findTransitivityViolations = (ids: string[], ssim: SSIMData): TransitivityViolation[] => {
+  const size = ids.length;
+  const irm = convertSSIMToIRM(size, ids, ssim);
+  const frm = computeFinalReachabilityMatrix(irm);
+  const trees = new Map<number, number[]>();
+  const violations: TransitivityViolation[] = [];
+
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      const stated = ssim[ids[i]]?.[ids[j]];
+      if (!stated) continue; // Unanswered cells have no explicit answer to contradict
+
+      [[i, j], [j, i]].forEach(([from, to]) => {
+        if (frm[from][to] !== 1 || irm[from][to] === 1) return;
+        if (!trees.has(from)) trees.set(from, shortestPathTree(irm, from));
+        violations.push({ i, j, from, to, stated, path: tracePath(trees.get(from)!, from, to) });
+      });
+    }
+  }
+  return violations;
+};
@@ -0,0 +1,71 @@
+/**
+ * Splits CSV text into rows of trimmed cells. Quoted cells may hold the delimiter,
+ * doubled quotes and line breaks. Blank lines are skipped.
+ */
+export const parseCSVRows = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Guesses the delimiter from the first rows: the one that splits them into the same
+ * number of columns most often, preferring more columns. Excel uses ";" in locales
+ * with a decimal comma.
+ */
+export const detectDelimiter = (text: string): string => {
+  let best = { delimiter: ',', consistent: 0, columns: 1 };
+  DELIMITERS.forEach(delimiter => {
+    const widths = parseCSVRows(text, delimiter).slice(0, 20).map(row => row.length);
+    if (widths.length === 0 || widths[0] < 2) return;
+    const consistent = widths.filter(w => w === widths[0]).length;
+    if (consistent > best.consistent || (consistent === best.consistent && widths[0] > best.columns)) {
+      best = { delimiter, consistent, columns: widths[0] };
+    }
+  });
+  return best.delimiter;
+};
+
+const escapeCSVCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (rows: (string | number)[][]) =>
+  rows.map(row => row.map(escapeCSVCell).join(',')).join('\n');
@@ -0,0 +1,91 @@
+import {
+  SSIMData,
+  ISMElement,
+  ExpertResponse,
+  DelphiRound,
+  RoundConvergence,
+  AggregationResult,
+} from '../types';
+import { computeCellAgreement, meanCellAgreement } from './agreementStats';
+import { diffSSIM } from './ismLogic';
+
+// Share of the panel agreeing on a cell, on average, before the rounds can stop
+export const DEFAULT_STOP_THRESHOLD = 0.75;
+
+export const createRound = (number: number, experts: ExpertResponse[] = []): DelphiRound => ({
+  number,
+  experts,
+  feedback: '',
+});
+
+/**
+ * Opens the next round with the same panel.
+ * Each expert starts from their previous answers so they only revise what they want to change.
+ */
+export const startNextRound = (previous: DelphiRound): DelphiRound =>
+  createRound(
+    previous.number + 1,
+    previous.experts.map(expert => ({
+      ...expert,
+      ssim: Object.fromEntries(Object.entries(expert.ssim).map(([rowId, row]) => [rowId, { ...row }])),
+    }))
+  );
+
+/**
+ * Measures whether the panel has converged in the current round.
+ */
+export const assessConvergence = (
+  ids: string[],
+  experts: ExpertResponse[],
+  current: SSIMData,
+  previous: SSIMData | null,
+  stopThreshold: number
+): RoundConvergence => {
+  const meanAgreement = meanCellAgreement(computeCellAgreement(ids, experts));
+  const changes = previous ? diffSSIM(ids, previous, current) : [];
+  const cellCount = (ids.length * (ids.length - 1)) / 2;
+
+  return {
+    meanAgreement,
+    changes,
+    stability: previous && cellCount > 0 ? 1 - changes.length / cellCount : null,
+    passed: experts.length > 0 && meanAgreement >= stopThreshold,
+  };
+};
+
+/**
+ * Drafts the controlled-feedback summary sent back to the panel after a round.
+ * Lists every cell that did not reach consensus with its vote distribution.
+ */
+export const buildFeedbackSummary = (
+  round: DelphiRound,
+  factors: ISMElement[],
+  aggregation: AggregationResult,
+  convergence: RoundConvergence
+): string => {
+  const lines: string[] = [];
+  lines.push(`Round ${round.number}: ${round.experts.length} experts, mean agreement ${(convergence.meanAgreement * 100).toFixed(1)}%.`);
+  if (convergence.stability !== null) {
+    lines.push(`${convergence.changes.length} aggregate cells changed since round ${round.number - 1}.`);
+  }
+
+  const unresolved: string[] = [];
+  for (let i = 0; i < factors.length; i++) {
+    for (let j = i + 1; j < factors.length; j++) {
+      const decision = aggregation.decisions[factors[i].id]?.[factors[j].id];
+      if (decision && !decision.consensus) {
+        const { votes } = decision;
+        const blank = decision.unanswered > 0 ? `, unanswered ${decision.unanswered}` : '';
+        unresolved.push(`- ${factors[i].name} / ${factors[j].name}: V ${votes.V}, A ${votes.A}, X ${votes.X}, O ${votes.O}${blank}`);
+      }
+    }
+  }
+
+  if (unresolved.length === 0) {
+    lines.push('All cells reached consensus.');
+  } else {
+    lines.push(`Cells without consensus (${unresolved.length}), please reconsider:`);
+    lines.push(...unresolved);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,140 @@
+import { SSIMValue, SSIMData, ElicitationAnswer, RelationKnowledge } from '../types';
+import { getSSIMCell } from './ssimModel';
+
+// The two directed relations an SSIM value stands for: i -> j, then j -> i
+const DIRECTIONS: Record<SSIMValue, [0 | 1, 0 | 1]> = {
+  [SSIMValue.V]: [1, 0],
+  [SSIMValue.A]: [0, 1],
+  [SSIMValue.X]: [1, 1],
+  [SSIMValue.O]: [0, 0],
+};
+
+const VALUES = [SSIMValue.V, SSIMValue.A, SSIMValue.X, SSIMValue.O];
+
+/**
+ * The answered cells of an SSIM as elicitation answers, so the wizard starts from them.
+ */
+export const answersFromSSIM = (ids: string[], ssim: SSIMData): ElicitationAnswer[] => {
+  const answers: ElicitationAnswer[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const value = getSSIMCell(ssim, ids[i], ids[j]);
+      if (value) answers.push({ i, j, value });
+    }
+  }
+  return answers;
+};
+
+/**
+ * Builds the directed knowledge matrix from the answers given so far and
+ * infers everything that transitivity decides:
+ * - a -> b and b -> c give a -> c;
+ * - a -/-> c with a -> b gives b -/-> c, and with b -> c gives a -/-> b.
+ */
+export const inferRelations = (size: number, answers: ElicitationAnswer[]): RelationKnowledge => {
+  const known: RelationKnowledge = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => (i === j ? 1 : null))
+  );
+  answers.forEach(({ i, j, value }) => { [known[i][j], known[j][i]] = DIRECTIONS[value]; });
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const decide = (a: number, b: number, value: 0 | 1) => {
+      if (known[a][b] === null) {
+        known[a][b] = value;
+        changed = true;
+      }
+    };
+
+    for (let k = 0; k < size; k++) {
+      for (let i = 0; i < size; i++) {
+        if (known[i][k] !== 1) continue;
+        for (let j = 0; j < size; j++) {
+          if (known[k][j] === 1) decide(i, j, 1);
+        }
+      }
+    }
+
+    for (let a = 0; a < size; a++) {
+      for (let c = 0; c < size; c++) {
+        if (known[a][c] !== 0) continue;
+        for (let b = 0; b < size; b++) {
+          if (known[a][b] === 1) decide(b, c, 0);
+          if (known[b][c] === 1) decide(a, b, 0);
+        }
+      }
+    }
+  }
+  return known;
+};
+
+/**
+ * The next SSIM cell with an open direction, row by row, or null once every cell is decided.
+ * One question settles both directions of the cell.
+ */
+export const nextQuestion = (known: RelationKnowledge): { i: number; j: number } | null => {
+  for (let i = 0; i < known.length; i++) {
+    for (let j = i + 1; j < known.length; j++) {
+      if (known[i][j] === null || known[j][i] === null) return { i, j };
+    }
+  }
+  return null;
+};
+
+/**
+ * The SSIM values a cell can still take: those agreeing with any direction already inferred.
+ */
+export const allowedValues = (known: RelationKnowledge, i: number, j: number): SSIMValue[] =>
+  VALUES.filter(value => {
+    const [forward, backward] = DIRECTIONS[value];
+    return (known[i][j] === null || known[i][j] === forward) && (known[j][i] === null || known[j][i] === backward);
+  });
+
+/**
+ * Number of SSIM cells (i < j) with both directions decided.
+ */
+export const countDecided = (known: RelationKnowledge) => {
+  let decided = 0;
+  for (let i = 0; i < known.length; i++) {
+    for (let j = i + 1; j < known.length; j++) {
+      if (known[i][j] !== null && known[j][i] !== null) decided++;
+    }
+  }
+  return decided;
+};
+
+/**
+ * Converts the knowledge into SSIM cells. A cell is written once both directions are decided,
+ * except the `given` cells the wizard started from, which are left as they are.
+ * inferred lists the "rowId|colId" keys of written cells that were not asked.
+ */
+export const knowledgeToSSIM = (
+  ids: string[],
+  known: RelationKnowledge,
+  answers: ElicitationAnswer[],
+  given: ElicitationAnswer[] = []
+): { ssim: SSIMData; inferred: string[] } => {
+  const asked = new Set(answers.map(a => `${a.i}|${a.j}`));
+  const kept = new Set(given.map(a => `${a.i}|${a.j}`));
+  const ssim: SSIMData = {};
+  const inferred: string[] = [];
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const forward = known[i][j];
+      const backward = known[j][i];
+      if (forward === null || backward === null || kept.has(`${i}|${j}`)) continue;
+
+      let val = SSIMValue.O;
+      if (forward && backward) val = SSIMValue.X;
+      else if (forward) val = SSIMValue.V;
+      else if (backward) val = SSIMValue.A;
+
+      if (!ssim[ids[i]]) ssim[ids[i]] = {};
+      ssim[ids[i]][ids[j]] = val;
+      if (!asked.has(`${i}|${j}`)) inferred.push(`${ids[i]}|${ids[j]}`);
+    }
+  }
+  return { ssim, inferred };
+};
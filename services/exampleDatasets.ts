@@ -0,0 +1,138 @@
+import { ExampleDataset, MicmacQuadrant, SSIMData, SSIMValue, StudyMetadata } from '../types';
+import { createStudy } from './study';
+
+// None of the cases is transcribed from a paper, so the expected levels and quadrants are this
+// tool's own output kept as a regression snapshot, not an independent check against the literature
+const ILLUSTRATIVE_SOURCE = 'Illustrative teaching case built on factors commonly reported in the ISM literature. The SSIM is invented for teaching and is not taken from a published study; the levels and quadrants shown are what this tool computes from it.';
+
+export const EXAMPLE_DATASETS: ExampleDataset[] = [
+  {
+    id: 'sustainability-barriers',
+    title: 'Barriers to Sustainability Implementation',
+    summary: 'Eleven organisational, financial and policy barriers, with weak regulation at the root and lack of green purchasing on top.',
+    source: ILLUSTRATIVE_SOURCE,
+    relationPhrase: 'leads to',
+    factors: [
+      { id: 'F1', name: 'F1', description: 'Lack of commitment from top management', category: 'Management' },
+      { id: 'F2', name: 'F2', description: 'Financial Constraints', category: 'Cost' },
+      { id: 'F3', name: 'F3', description: 'Organizational culture inhibitive to sustainability/CSR', category: 'Organization' },
+      { id: 'F4', name: 'F4', description: 'Lack of new technology/materials and processes on sustainability', category: 'Technology' },
+      { id: 'F5', name: 'F5', description: 'Lack of awareness of benefits of sustainability', category: 'Knowledge' },
+      { id: 'F6', name: 'F6', description: 'Lack of green purchasing', category: 'Process' },
+      { id: 'F7', name: 'F7', description: 'Lack of regulations and enforcement of environment standards', category: 'Policy' },
+      { id: 'F8', name: 'F8', description: 'Lack of R&D on sustainability', category: 'Technology' },
+      { id: 'F9', name: 'F9', description: 'Lack of training/human expertise on sustainability', category: 'Knowledge' },
+      { id: 'F10', name: 'F10', description: 'Resistance to change and adopting innovation in sustainability', category: 'Organization' },
+      { id: 'F11', name: 'F11', description: 'Lack of performance metrics/evaluation standards on sustainability', category: 'Process' },
+    ],
+    ssimRows: ['OVOOOAOVOO', 'OOOOOVVOO', 'OOOOOOXO', 'OVOAOOO', 'OOOAVO', 'OOOAA', 'OOOV', 'OOO', 'OO', 'O', ''],
+    expectedLevels: [['F6'], ['F3', 'F4', 'F10', 'F11'], ['F5', 'F8'], ['F9'], ['F1', 'F2'], ['F7']],
+    expectedQuadrants: {
+      [MicmacQuadrant.AUTONOMOUS]: ['F4', 'F5', 'F8', 'F9', 'F11'],
+      [MicmacQuadrant.DEPENDENT]: ['F3', 'F6', 'F10'],
+      [MicmacQuadrant.LINKAGE]: [],
+      [MicmacQuadrant.DRIVER]: ['F1', 'F2', 'F7'],
+    },
+  },
+  {
+    id: 'construction-safety',
+    title: 'Causes of Construction Site Accidents',
+    summary: 'Ten safety factors from regulation and management culture down to unsafe behaviour and accidents, with a supervision/communication cycle.',
+    source: ILLUSTRATIVE_SOURCE,
+    relationPhrase: 'contributes to',
+    factors: [
+      { id: 'S1', name: 'S1', description: 'Poor safety culture of management', category: 'Management' },
+      { id: 'S2', name: 'S2', description: 'Inadequate safety training', category: 'Knowledge' },
+      { id: 'S3', name: 'S3', description: 'Lack of enforcement of safety regulations', category: 'Policy' },
+      { id: 'S4', name: 'S4', description: 'Time pressure on the programme', category: 'Management' },
+      { id: 'S5', name: 'S5', description: 'Poor site supervision', category: 'Process' },
+      { id: 'S6', name: 'S6', description: 'Unsafe worker behaviour', category: 'Safety' },
+      { id: 'S7', name: 'S7', description: 'Defective equipment and PPE', category: 'Technology' },
+      { id: 'S8', name: 'S8', description: 'Poor communication on site', category: 'Organization' },
+      { id: 'S9', name: 'S9', description: 'Fragmentation among subcontractors', category: 'Organization' },
+      { id: 'S10', name: 'S10', description: 'Accidents and injuries', category: 'Safety' },
+    ],
+    ssimRows: ['VAVVOOOOO', 'OOOVOOOO', 'OOOOOOO', 'OVOOOO', 'VVXAO', 'OAOV', 'OOV', 'AO', 'O', ''],
+    expectedLevels: [['S10'], ['S6', 'S7'], ['S2', 'S4', 'S5', 'S8'], ['S1', 'S9'], ['S3']],
+    expectedQuadrants: {
+      [MicmacQuadrant.AUTONOMOUS]: ['S2', 'S4', 'S5', 'S8'],
+      [MicmacQuadrant.DEPENDENT]: ['S6', 'S7', 'S10'],
+      [MicmacQuadrant.LINKAGE]: [],
+      [MicmacQuadrant.DRIVER]: ['S1', 'S3', 'S9'],
+    },
+  },
+  {
+    id: 'bim-adoption',
+    title: 'Drivers of BIM Adoption',
+    summary: 'Nine enablers forming two chains from government mandates through skills, standards and process change to adoption.',
+    source: ILLUSTRATIVE_SOURCE,
+    relationPhrase: 'enables',
+    factors: [
+      { id: 'B1', name: 'B1', description: 'Government BIM mandates', category: 'Policy' },
+      { id: 'B2', name: 'B2', description: 'Client demand for BIM', category: 'Management' },
+      { id: 'B3', name: 'B3', description: 'Top management support', category: 'Management' },
+      { id: 'B4', name: 'B4', description: 'Investment in software and hardware', category: 'Cost' },
+      { id: 'B5', name: 'B5', description: 'BIM skills of staff', category: 'Knowledge' },
+      { id: 'B6', name: 'B6', description: 'Interoperability standards', category: 'Technology' },
+      { id: 'B7', name: 'B7', description: 'Collaborative contract forms', category: 'Legal' },
+      { id: 'B8', name: 'B8', description: 'Change of design and delivery processes', category: 'Process' },
+      { id: 'B9', name: 'B9', description: 'BIM adoption and project performance', category: 'Organization' },
+    ],
+    ssimRows: ['VOOOVOOO', 'VOOOOOO', 'VVOOOO', 'VOOOO', 'OOVO', 'VOO', 'VO', 'V', ''],
+    expectedLevels: [['B9'], ['B8'], ['B5', 'B7'], ['B4', 'B6'], ['B3'], ['B2'], ['B1']],
+    expectedQuadrants: {
+      [MicmacQuadrant.AUTONOMOUS]: ['B4', 'B6', 'B7'],
+      [MicmacQuadrant.DEPENDENT]: ['B5', 'B8', 'B9'],
+      [MicmacQuadrant.LINKAGE]: [],
+      [MicmacQuadrant.DRIVER]: ['B1', 'B2', 'B3'],
+    },
+  },
+  {
+    id: 'modular-construction',
+    title: 'Barriers to Modular Construction',
+    summary: 'Ten market, supply-chain and regulatory barriers, with a reinforcing loop between initial cost and market demand.',
+    source: ILLUSTRATIVE_SOURCE,
+    relationPhrase: 'aggravates',
+    factors: [
+      { id: 'M1', name: 'M1', description: 'Lack of codes and standards for modular buildings', category: 'Policy' },
+      { id: 'M2', name: 'M2', description: 'Lack of government incentives', category: 'Policy' },
+      { id: 'M3', name: 'M3', description: 'High initial cost', category: 'Cost' },
+      { id: 'M4', name: 'M4', description: 'Limited design flexibility', category: 'Technology' },
+      { id: 'M5', name: 'M5', description: 'Transport and logistics constraints', category: 'Process' },
+      { id: 'M6', name: 'M6', description: 'Lack of skilled workforce', category: 'Knowledge' },
+      { id: 'M7', name: 'M7', description: 'Fragmented supply chain', category: 'Organization' },
+      { id: 'M8', name: 'M8', description: 'Negative client perception', category: 'Management' },
+      { id: 'M9', name: 'M9', description: 'Low market demand', category: 'Cost' },
+      { id: 'M10', name: 'M10', description: 'Low adoption of modular construction', category: 'Organization' },
+    ],
+    ssimRows: ['OOVOOOVOO', 'VOOOOOOO', 'OAAOOXO', 'OOOVOO', 'OAOOO', 'AOOO', 'OOO', 'VO', 'V', ''],
+    expectedLevels: [['M10'], ['M3', 'M9'], ['M2', 'M5', 'M6', 'M8'], ['M4', 'M7'], ['M1']],
+    expectedQuadrants: {
+      [MicmacQuadrant.AUTONOMOUS]: ['M2', 'M4', 'M5', 'M6', 'M8'],
+      [MicmacQuadrant.DEPENDENT]: ['M3', 'M9', 'M10'],
+      [MicmacQuadrant.LINKAGE]: [],
+      [MicmacQuadrant.DRIVER]: ['M1', 'M7'],
+    },
+  },
+];
+
+/**
+ * Expands the row strings of an example into SSIM cells keyed by factor id.
+ */
+export const buildExampleSSIM = (dataset: ExampleDataset): SSIMData => {
+  const ssim: SSIMData = {};
+  dataset.factors.forEach((row, i) => {
+    [...(dataset.ssimRows[i] ?? '')].forEach((value, offset) => {
+      const col = dataset.factors[i + 1 + offset];
+      if (!col) return;
+      if (!ssim[row.id]) ssim[row.id] = {};
+      ssim[row.id][col.id] = value as SSIMValue;
+    });
+  });
+  return ssim;
+};
+
+export const createExampleStudy = (dataset: ExampleDataset): StudyMetadata => ({
+  ...createStudy(dataset.title),
+  relationPhrase: dataset.relationPhrase,
+});
@@ -0,0 +1,112 @@
+import {
+  SSIMValue,
+  SSIMData,
+  ExpertResponse,
+  AggregationMethod,
+  AggregationSettings,
+  AggregationResult,
+  CellDecision,
+  TieBreakRule,
+} from '../types';
+import { getSSIMCell } from './ssimModel';
+
+export const DEFAULT_AGGREGATION_SETTINGS: AggregationSettings = {
+  method: AggregationMethod.MAJORITY,
+  threshold: 0.6,
+  tieBreak: 'conservative',
+};
+
+// Preference order used to settle ties under the MODE rule
+const TIE_BREAK_ORDER: Record<TieBreakRule, SSIMValue[]> = {
+  conservative: [SSIMValue.O, SSIMValue.V, SSIMValue.A, SSIMValue.X],
+  inclusive: [SSIMValue.X, SSIMValue.V, SSIMValue.A, SSIMValue.O],
+};
+
+const emptyVotes = (): Record<SSIMValue, number> => ({
+  [SSIMValue.V]: 0,
+  [SSIMValue.A]: 0,
+  [SSIMValue.X]: 0,
+  [SSIMValue.O]: 0,
+});
+
+/**
+ * Counts how the panel voted on the upper-triangle cell (idI, idJ).
+ * An unanswered entry is not a vote; countUnanswered reports those.
+ */
+export const countVotes = (experts: ExpertResponse[], idI: string, idJ: string): Record<SSIMValue, number> => {
+  const votes = emptyVotes();
+  experts.forEach(expert => {
+    const val = getSSIMCell(expert.ssim, idI, idJ);
+    if (val) votes[val]++;
+  });
+  return votes;
+};
+
+export const countUnanswered = (experts: ExpertResponse[], idI: string, idJ: string): number =>
+  experts.filter(expert => getSSIMCell(expert.ssim, idI, idJ) === null).length;
+
+/**
+ * Picks the relation for a single cell according to the aggregation rule.
+ * Shares are taken over the experts who answered the cell.
+ */
+export const decideCell = (votes: Record<SSIMValue, number>, settings: AggregationSettings, unanswered = 0): CellDecision => {
+  const total = Object.values(votes).reduce((sum, n) => sum + n, 0);
+  const order = TIE_BREAK_ORDER[settings.tieBreak];
+
+  // Most frequent relation; ties resolved by the preference order
+  const top = order.reduce((best, val) => (votes[val] > votes[best] ? val : best), order[0]);
+  const share = total > 0 ? votes[top] / total : 0;
+
+  let consensus: boolean;
+  switch (settings.method) {
+    case AggregationMethod.MAJORITY:
+      consensus = share > 0.5;
+      break;
+    case AggregationMethod.THRESHOLD:
+      consensus = share >= settings.threshold;
+      break;
+    default:
+      consensus = total > 0;
+  }
+
+  const value = consensus ? top : SSIMValue.O;
+  return {
+    value,
+    votes,
+    unanswered,
+    agreement: total > 0 ? votes[value] / total : 0,
+    consensus,
+  };
+};
+
+/**
+ * Aggregates the expert SSIMs into a single working SSIM.
+ * Keeps the per-cell decision so the UI can show how each cell was settled.
+ * A cell stays unanswered until every expert has answered it.
+ */
+export const aggregateExpertSSIMs = (
+  ids: string[],
+  experts: ExpertResponse[],
+  settings: AggregationSettings
+): AggregationResult => {
+  const ssim: SSIMData = {};
+  const decisions: AggregationResult['decisions'] = {};
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const idI = ids[i];
+      const idJ = ids[j];
+      const unanswered = countUnanswered(experts, idI, idJ);
+      const decision = decideCell(countVotes(experts, idI, idJ), settings, unanswered);
+
+      if (!decisions[idI]) decisions[idI] = {};
+      decisions[idI][idJ] = decision;
+
+      if (unanswered > 0) continue;
+      if (!ssim[idI]) ssim[idI] = {};
+      ssim[idI][idJ] = decision.value;
+    }
+  }
+
+  return { ssim, decisions };
+};
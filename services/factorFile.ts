@@ -0,0 +1,227 @@
+import { ISMElement, FactorField, FactorColumnMapping, FactorTable, ImportIssue } from '../types';
+import { parseCSVRows, detectDelimiter, toCSV } from './csv';
+import { readXLSX, worksheetText } from './xlsx';
+
+const FACTOR_CSV_HEADERS = ['id', 'name', 'description', 'category'];
+
+export const FACTOR_FIELDS: FactorField[] = ['id', 'name', 'description', 'category'];
+
+// Header names recognised for each field, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<FactorField, string[]> = {
+  id: ['id', 'key', 'uuid', 'identifier'],
+  name: ['name', 'factor', 'code', 'label', 'shortname', 'abbreviation', 'factorcode'],
+  description: ['description', 'desc', 'details', 'definition', 'factordescription', 'factorname'],
+  category: ['category', 'cat', 'group', 'dimension', 'theme', 'type'],
+};
+
+export const ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'];
+
+const newId = () => crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2);
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Decodes a file by its byte order mark, else as UTF-8 when it is valid UTF-8,
+ * else as Windows-1252 (what Excel writes for "CSV" in Western locales).
+ */
+export const decodeText = (bytes: Uint8Array, encoding?: string): { text: string; encoding: string } => {
+  if (!encoding) {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) encoding = 'utf-8';
+    else if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le';
+    else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be';
+    else {
+      try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        encoding = 'utf-8';
+      } catch {
+        encoding = 'windows-1252';
+      }
+    }
+  }
+  // TextDecoder drops the byte order mark itself
+  return { text: new TextDecoder(encoding).decode(bytes), encoding };
+};
+
+const isHeaderRow = (row: string[]) =>
+  row.some(cell => FACTOR_FIELDS.some(field => FIELD_ALIASES[field].includes(normaliseHeader(cell))));
+
+// A JSON array of factor objects as a table whose columns are the keys in use
+const jsonToTable = (text: string): Pick<FactorTable, 'headers' | 'rows'> => {
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) throw new Error('The JSON file is not a list of factors.');
+  const headers = Array.from(new Set(parsed.flatMap(item => (item && typeof item === 'object' && !Array.isArray(item) ? Object.keys(item) : []))));
+  const rows = parsed.map(item => headers.map(key => {
+    const value = item && typeof item === 'object' ? item[key] : undefined;
+    return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+  }));
+  return { headers, rows };
+};
+
+// Splits off the header row, if any, and names the columns
+const withHeaders = (rows: string[][], hasHeaderOption?: boolean) => {
+  const hasHeader = hasHeaderOption ?? (rows.length > 0 && isHeaderRow(rows[0]));
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const headers = Array.from({ length: width }, (_, idx) => (hasHeader && rows[0][idx]) || `Column ${idx + 1}`);
+  return { hasHeader, headers, rows: hasHeader ? rows.slice(1) : rows, firstRowNumber: hasHeader ? 2 : 1 };
+};
+
+/**
+ * Decodes a factor file into a table. Encoding, delimiter and header row are detected
+ * unless given. JSON files (by extension) are read as an array of factor objects;
+ * workbooks from the sheet named "Factors", else the first sheet.
+ */
+export const readFactorTable = (
+  bytes: Uint8Array,
+  fileName: string,
+  options: { encoding?: string; delimiter?: string; hasHeader?: boolean; sheet?: string } = {}
+): FactorTable => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.xlsx')) {
+    const sheets = readXLSX(bytes);
+    const sheet = sheets.find(s => s.name === options.sheet) || sheets.find(s => /factor/i.test(s.name)) || sheets[0];
+    if (!sheet) throw new Error('The workbook has no sheets.');
+    return {
+      format: 'xlsx', encoding: 'utf-8', delimiter: null, sheets: sheets.map(s => s.name), sheet: sheet.name,
+      ...withHeaders(worksheetText(sheet), options.hasHeader),
+    };
+  }
+  const { text, encoding } = decodeText(bytes, options.encoding);
+  if (lowerName.endsWith('.json')) {
+    return { format: 'json', encoding, delimiter: null, sheets: [], sheet: null, hasHeader: true, ...jsonToTable(text), firstRowNumber: 1 };
+  }
+  const delimiter = options.delimiter || detectDelimiter(text);
+  return { format: 'csv', encoding, delimiter, sheets: [], sheet: null, ...withHeaders(parseCSVRows(text, delimiter), options.hasHeader) };
+};
+
+/**
+ * Maps columns to fields by header name. Without a header row the columns are taken
+ * by position, as in the template: name; name, description; name, description, category;
+ * or id, name, description, category.
+ */
+export const guessColumnMapping = (table: FactorTable): FactorColumnMapping => {
+  const mapping: FactorColumnMapping = { id: null, name: null, description: null, category: null };
+  if (!table.hasHeader) {
+    const width = table.headers.length;
+    const fields: FactorField[] = width >= 4 ? ['id', 'name', 'description', 'category'] : ['name', 'description', 'category'].slice(0, width) as FactorField[];
+    fields.forEach((field, idx) => { mapping[field] = idx; });
+    return mapping;
+  }
+  const headers = table.headers.map(normaliseHeader);
+  FACTOR_FIELDS.forEach(field => {
+    const idx = headers.findIndex((h, i) => FIELD_ALIASES[field].includes(h) && !Object.values(mapping).includes(i));
+    if (idx !== -1) mapping[field] = idx;
+  });
+  return mapping;
+};
+
+/**
+ * Turns the mapped rows into factors and lists what is wrong with them. Rows with an
+ * error are left out; warnings only inform. When known categories are given, new ones
+ * are reported and those matching a known one up to case take its spelling.
+ */
+export const validateFactorImport = (
+  table: FactorTable,
+  mapping: FactorColumnMapping,
+  knownCategories?: string[]
+): { factors: ISMElement[]; issues: ImportIssue[] } => {
+  const issues: ImportIssue[] = [];
+  if (mapping.name === null) {
+    issues.push({ row: 0, severity: 'error', message: 'No column is mapped to the factor code.' });
+    return { factors: [], issues };
+  }
+  if (table.rows.length === 0) {
+    issues.push({ row: 0, severity: 'error', message: 'The file has no factor rows.' });
+    return { factors: [], issues };
+  }
+
+  const factors: ISMElement[] = [];
+  const rowOfId = new Map<string, number>();
+  const rowOfName = new Map<string, number>();
+  const categories = knownCategories && new Map(knownCategories.map(c => [c.toLowerCase(), c]));
+  const cell = (values: string[], field: FactorField) => {
+    const idx = mapping[field];
+    return idx === null ? '' : (values[idx] || '').trim();
+  };
+
+  table.rows.forEach((values, idx) => {
+    const row = table.firstRowNumber + idx;
+    const name = cell(values, 'name');
+    if (!name) {
+      issues.push({ row, severity: 'error', message: 'Empty factor code; the row is skipped.' });
+      return;
+    }
+
+    // Without an ID of its own the factor is keyed by its code, so SSIM files keyed by code still match
+    let id = cell(values, 'id');
+    if (id && rowOfId.has(id)) {
+      issues.push({ row, severity: 'warning', message: `Duplicate ID "${id}" (also on row ${rowOfId.get(id)}); a new ID is assigned.` });
+      id = newId();
+    } else if (!id) {
+      id = rowOfId.has(name) ? newId() : name;
+    }
+    rowOfId.set(id, row);
+
+    const nameKey = name.toLowerCase();
+    if (rowOfName.has(nameKey)) {
+      issues.push({ row, severity: 'warning', message: `Duplicate code "${name}" (also on row ${rowOfName.get(nameKey)}).` });
+    } else {
+      rowOfName.set(nameKey, row);
+    }
+
+    const description = cell(values, 'description');
+    if (!description) issues.push({ row, severity: 'warning', message: `No description for ${name}.` });
+
+    let category = cell(values, 'category');
+    if (category && categories) {
+      const known = categories.get(category.toLowerCase());
+      if (known) category = known;
+      else {
+        issues.push({ row, severity: 'warning', message: `New category "${category}".` });
+        categories.set(category.toLowerCase(), category);
+      }
+    }
+
+    factors.push({
+      id,
+      name,
+      description,
+      ...(category ? { category } : {}),
+    });
+  });
+  return { factors, issues };
+};
+
+/**
+ * Adds imported factors to the list. A factor with the same ID, or else the same code
+ * (ignoring case), is updated in place and keeps its ID, so its SSIM entries stay.
+ * Empty imported fields leave the existing value.
+ */
+export const mergeImportedFactors = (existing: ISMElement[], imported: ISMElement[]) => {
+  const factors = [...existing];
+  let added = 0;
+  let updated = 0;
+  imported.forEach(factor => {
+    const idx = factors.findIndex(f => f.id === factor.id);
+    const match = idx !== -1 ? idx : factors.findIndex(f => f.name.toLowerCase() === factor.name.toLowerCase());
+    if (match === -1) {
+      factors.push(factor);
+      added++;
+    } else {
+      const fields = Object.fromEntries(Object.entries(factor).filter(([, value]) => value !== ''));
+      factors[match] = { ...factors[match], ...fields, id: factors[match].id };
+      updated++;
+    }
+  });
+  return { factors, added, updated };
+};
+
+/**
+ * Reads a factor file with the detected settings and the guessed column mapping.
+ */
+export const parseFactorFile = (bytes: Uint8Array, fileName: string, knownCategories?: string[]) => {
+  const table = readFactorTable(bytes, fileName);
+  return validateFactorImport(table, guessColumnMapping(table), knownCategories);
+};
+
+export const serialiseFactorCSV = (factors: ISMElement[]) =>
+  toCSV([FACTOR_CSV_HEADERS, ...factors.map(f => [f.id, f.name, f.description || '', f.category || ''])]);
@@ -0,0 +1,160 @@
+import { ISMElement, SSIMData, SSIMValue, MergeConflict, SSIMAnnotations, CellAnnotation, FuzzyInfluenceData, FuzzyRating, TISMData } from '../types';
+import { getSSIMRelation, setSSIMRelation, pruneOrphanCells, setCellAnnotation, reorientAnnotations } from './ssimModel';
+import { FUZZY_RATING_ORDER } from './fuzzyLogic';
+
+// Per-pair data kept beside the SSIM: notes, fuzzy ratings and TISM texts
+type CellMap<T> = Record<string, Record<string, T>>;
+
+// A relation as its two directions: does the row reach the column, and the column the row?
+const toDirections = (value: SSIMValue): [boolean, boolean] =>
+  [value === SSIMValue.V || value === SSIMValue.X, value === SSIMValue.A || value === SSIMValue.X];
+
+const fromDirections = ([forward, backward]: [boolean, boolean]): SSIMValue =>
+  forward ? (backward ? SSIMValue.X : SSIMValue.V) : backward ? SSIMValue.A : SSIMValue.O;
+
+/**
+ * Union of several relations to the same factor: the merged factor reaches (or is
+ * reached by) the other factor if any source did. Null when no source was answered.
+ */
+export const combineRelations = (values: (SSIMValue | null)[]): SSIMValue | null => {
+  const answered = values.filter((v): v is SSIMValue => v !== null);
+  if (answered.length === 0) return null;
+  const directions = answered.map(toDirections);
+  return fromDirections([directions.some(d => d[0]), directions.some(d => d[1])]);
+};
+
+/**
+ * Lists the factors that the sources of a merge relate to differently.
+ * Unanswered cells do not count as a disagreement.
+ */
+export const findMergeConflicts = (ssim: SSIMData, factors: ISMElement[], sourceIds: string[]): MergeConflict[] => {
+  const conflicts: MergeConflict[] = [];
+  factors.forEach(other => {
+    if (sourceIds.includes(other.id)) return;
+    const options = sourceIds.map(sourceId => ({ sourceId, value: getSSIMRelation(ssim, sourceId, other.id) }));
+    const values = options.map(o => o.value);
+    if (new Set(values.filter(Boolean)).size < 2) return;
+    conflicts.push({ otherId: other.id, options, suggested: combineRelations(values) });
+  });
+  return conflicts;
+};
+
+/**
+ * Replaces the source factors by the merged one. Each relation of the merged factor is the
+ * chosen resolution where given, otherwise the union of the sources' relations.
+ * `ids` is the factor order after the merge.
+ */
+export const mergeFactorSSIM = (
+  ssim: SSIMData,
+  ids: string[],
+  sourceIds: string[],
+  mergedId: string,
+  resolutions: Record<string, SSIMValue | null> = {}
+): SSIMData => {
+  const others = ids.filter(id => id !== mergedId);
+  const relations = others.map(otherId => otherId in resolutions
+    ? resolutions[otherId]
+    : combineRelations(sourceIds.map(sourceId => getSSIMRelation(ssim, sourceId, otherId))));
+
+  let next = pruneOrphanCells(ssim, others);
+  others.forEach((otherId, idx) => { next = setSSIMRelation(next, ids, mergedId, otherId, relations[idx]); });
+  return next;
+};
+
+/**
+ * Replaces a factor by its children, each starting with a copy of the parent's relations.
+ * Pairs between the children are left unanswered. `ids` is the factor order after the split.
+ */
+export const splitFactorSSIM = (ssim: SSIMData, ids: string[], parentId: string, childIds: string[]): SSIMData => {
+  const others = ids.filter(id => !childIds.includes(id));
+  let next = pruneOrphanCells(ssim, others);
+  childIds.forEach(childId => others.forEach(otherId => {
+    next = setSSIMRelation(next, ids, childId, otherId, getSSIMRelation(ssim, parentId, otherId));
+  }));
+  return next;
+};
+
+/**
+ * Moves the directed cells of the sources to the merged factor. Where several sources
+ * have a cell with the same factor, `combine` joins their values (in source order).
+ * Cells between the sources themselves are dropped.
+ */
+const mergeFactorCells = <T>(cells: CellMap<T>, sourceIds: string[], mergedId: string, combine: (values: T[]) => T): CellMap<T> => {
+  const sources = new Set(sourceIds);
+  const next: CellMap<T> = {};
+  const outgoing = new Map<string, T[]>();
+  const incoming = new Map<string, T[]>();
+  const collect = (map: Map<string, T[]>, otherId: string, value: T) => map.set(otherId, [...(map.get(otherId) || []), value]);
+
+  sourceIds.forEach(sourceId => Object.entries(cells).forEach(([fromId, row]) => Object.entries(row).forEach(([toId, value]) => {
+    if (fromId === sourceId && !sources.has(toId)) collect(outgoing, toId, value);
+    if (toId === sourceId && !sources.has(fromId)) collect(incoming, fromId, value);
+  })));
+  Object.entries(cells).forEach(([fromId, row]) => Object.entries(row).forEach(([toId, value]) => {
+    if (!sources.has(fromId) && !sources.has(toId)) next[fromId] = { ...next[fromId], [toId]: value };
+  }));
+  outgoing.forEach((values, toId) => { next[mergedId] = { ...next[mergedId], [toId]: combine(values) }; });
+  incoming.forEach((values, fromId) => { next[fromId] = { ...next[fromId], [mergedId]: combine(values) }; });
+  return next;
+};
+
+// Distinct texts in order, e.g. the interpretations the sources gave for links to the same factor
+const joinTexts = (texts: string[], separator: string) =>
+  Array.from(new Set(texts.map(t => t.trim()).filter(Boolean))).join(separator);
+
+// A confidence survives only when every note that has one agrees
+const combineNotes = (notes: CellAnnotation[]): CellAnnotation => {
+  const rationale = joinTexts(notes.map(n => n.rationale), '\n');
+  const confidences = Array.from(new Set(notes.map(n => n.confidence).filter(Boolean)));
+  return confidences.length === 1 ? { rationale, confidence: confidences[0] } : { rationale };
+};
+
+// The strongest rating of the sources, as the SSIM takes the union of their links
+const strongestRating = (ratings: FuzzyRating[]): FuzzyRating =>
+  ratings.reduce((a, b) => (FUZZY_RATING_ORDER.indexOf(b) > FUZZY_RATING_ORDER.indexOf(a) ? b : a));
+
+/**
+ * Gives the merged factor the notes of its sources; notes on the same pair are joined.
+ * `ids` is the factor order after the merge.
+ */
+export const mergeFactorAnnotations = (annotations: SSIMAnnotations, ids: string[], sourceIds: string[], mergedId: string): SSIMAnnotations => {
+  let next = mergeFactorCells(annotations, sourceIds, mergedId, combineNotes);
+  // One source may have been the row of a pair and another its column
+  ids.forEach(otherId => {
+    const forward = next[mergedId]?.[otherId];
+    const backward = next[otherId]?.[mergedId];
+    if (!forward || !backward) return;
+    next = setCellAnnotation(next, otherId, mergedId, null);
+    next = setCellAnnotation(next, mergedId, otherId, combineNotes([forward, backward]));
+  });
+  return reorientAnnotations(next, ids);
+};
+
+/**
+ * Gives the merged factor the strongest fuzzy rating of its sources for each link.
+ */
+export const mergeFactorRatings = (ratings: FuzzyInfluenceData, sourceIds: string[], mergedId: string): FuzzyInfluenceData =>
+  mergeFactorCells(ratings, sourceIds, mergedId, strongestRating);
+
+/**
+ * Gives the merged factor the link interpretations of its sources, joining different texts.
+ */
+export const mergeFactorTISM = (tism: TISMData, sourceIds: string[], mergedId: string): TISMData => ({
+  interpretations: mergeFactorCells(tism.interpretations, sourceIds, mergedId, texts => joinTexts(texts, ' / ')),
+  significantTransitive: mergeFactorCells(tism.significantTransitive, sourceIds, mergedId, texts => joinTexts(texts, ' / ')),
+});
+
+/**
+ * Copies the parent's cells (notes, fuzzy ratings or TISM texts) to every child, in both
+ * directions, and drops the parent's. The children take the parent's place in the order,
+ * so notes stay on the same side of the diagonal.
+ */
+export const splitFactorCells = <T>(cells: CellMap<T>, parentId: string, childIds: string[]): CellMap<T> => {
+  const next: CellMap<T> = {};
+  Object.entries(cells).forEach(([fromId, row]) => Object.entries(row).forEach(([toId, value]) => {
+    const froms = fromId === parentId ? childIds : [fromId];
+    const tos = toId === parentId ? childIds : [toId];
+    froms.forEach(from => tos.forEach(to => { next[from] = { ...next[from], [to]: value }; }));
+  }));
+  return next;
+};
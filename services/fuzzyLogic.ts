@@ -0,0 +1,151 @@
+import {
+  SSIMValue,
+  SSIMData,
+  FuzzyRating,
+  FuzzyInfluenceData,
+  TriangularFuzzyNumber,
+  WeightedMatrix,
+  FuzzyMicmacResult,
+} from '../types';
+
+export const FUZZY_RATING_ORDER: FuzzyRating[] = [
+  FuzzyRating.NO,
+  FuzzyRating.VERY_LOW,
+  FuzzyRating.LOW,
+  FuzzyRating.MEDIUM,
+  FuzzyRating.HIGH,
+  FuzzyRating.VERY_HIGH,
+];
+
+export const FUZZY_RATING_LABELS: Record<FuzzyRating, string> = {
+  [FuzzyRating.NO]: 'No influence',
+  [FuzzyRating.VERY_LOW]: 'Very low',
+  [FuzzyRating.LOW]: 'Low',
+  [FuzzyRating.MEDIUM]: 'Medium',
+  [FuzzyRating.HIGH]: 'High',
+  [FuzzyRating.VERY_HIGH]: 'Very high',
+};
+
+// Triangular fuzzy numbers for the linguistic scale
+export const FUZZY_SCALE: Record<FuzzyRating, TriangularFuzzyNumber> = {
+  [FuzzyRating.NO]: [0, 0, 0],
+  [FuzzyRating.VERY_LOW]: [0, 0, 0.25],
+  [FuzzyRating.LOW]: [0, 0.25, 0.5],
+  [FuzzyRating.MEDIUM]: [0.25, 0.5, 0.75],
+  [FuzzyRating.HIGH]: [0.5, 0.75, 1],
+  [FuzzyRating.VERY_HIGH]: [0.75, 1, 1],
+};
+
+/**
+ * Centroid defuzzification of a triangular fuzzy number.
+ */
+export const defuzzify = ([l, m, u]: TriangularFuzzyNumber): number => (l + m + u) / 3;
+
+const getRating = (ratings: FuzzyInfluenceData, idI: string, idJ: string) => ratings[idI]?.[idJ] || FuzzyRating.NO;
+
+/**
+ * Builds the weighted direct-reachability matrix from the linguistic ratings.
+ * The diagonal is left at 0, as in the binary direct relationship matrix.
+ */
+export const buildFuzzyDirectMatrix = (ids: string[], ratings: FuzzyInfluenceData): WeightedMatrix =>
+  ids.map((idI, i) => ids.map((idJ, j) => (i === j ? 0 : defuzzify(FUZZY_SCALE[getRating(ratings, idI, idJ)]))));
+
+/**
+ * Max-min composition: C[i][j] = max over k of min(A[i][k], B[k][j]).
+ */
+export const maxMinCompose = (a: WeightedMatrix, b: WeightedMatrix): WeightedMatrix => {
+  const size = a.length;
+  const result: WeightedMatrix = Array.from({ length: size }, () => Array(size).fill(0));
+  for (let i = 0; i < size; i++) {
+    for (let k = 0; k < size; k++) {
+      const aik = a[i][k];
+      if (aik === 0) continue;
+      for (let j = 0; j < size; j++) {
+        const v = Math.min(aik, b[k][j]);
+        if (v > result[i][j]) result[i][j] = v;
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Stabilises the matrix by repeated max-min composition until it stops changing.
+ * This is the fuzzy counterpart of the transitivity check on the binary matrix.
+ */
+export const stabiliseFuzzyMatrix = (direct: WeightedMatrix): { matrix: WeightedMatrix; iterations: number } => {
+  let current = direct.map(row => [...row]);
+  const maxIterations = direct.length + 1;
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    const composed = maxMinCompose(current, direct);
+    let changed = false;
+    const next = current.map((row, i) => row.map((val, j) => {
+      const merged = Math.max(val, composed[i][j]);
+      if (merged !== val) changed = true;
+      return merged;
+    }));
+    if (!changed) return { matrix: current, iterations: iteration };
+    current = next;
+  }
+  return { matrix: current, iterations: maxIterations };
+};
+
+/**
+ * Runs fuzzy MICMAC: defuzzify, stabilise, then sum rows (driving) and columns (dependence).
+ */
+export const runFuzzyMicmac = (ids: string[], ratings: FuzzyInfluenceData): FuzzyMicmacResult => {
+  const directMatrix = buildFuzzyDirectMatrix(ids, ratings);
+  const { matrix, iterations } = stabiliseFuzzyMatrix(directMatrix);
+  const size = ids.length;
+
+  return {
+    directMatrix,
+    stabilisedMatrix: matrix,
+    iterations,
+    drivingPower: matrix.map(row => row.reduce((sum, val) => sum + val, 0)),
+    dependencePower: Array.from({ length: size }, (_, j) => matrix.reduce((sum, row) => sum + row[j], 0)),
+  };
+};
+
+/**
+ * Derives the binary SSIM used by the classic ISM pipeline.
+ * Any rating above "No influence" counts as a direct relation.
+ */
+export const deriveSSIMFromFuzzy = (ids: string[], ratings: FuzzyInfluenceData): SSIMData => {
+  const ssim: SSIMData = {};
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const forward = getRating(ratings, ids[i], ids[j]) !== FuzzyRating.NO;
+      const backward = getRating(ratings, ids[j], ids[i]) !== FuzzyRating.NO;
+      let val = SSIMValue.O;
+      if (forward && backward) val = SSIMValue.X;
+      else if (forward) val = SSIMValue.V;
+      else if (backward) val = SSIMValue.A;
+
+      if (!ssim[ids[i]]) ssim[ids[i]] = {};
+      ssim[ids[i]][ids[j]] = val;
+    }
+  }
+  return ssim;
+};
+
+/**
+ * Seeds the directed ratings from an existing binary SSIM, rating every relation as Medium.
+ */
+export const seedFuzzyFromSSIM = (ids: string[], ssim: SSIMData): FuzzyInfluenceData => {
+  const ratings: FuzzyInfluenceData = {};
+  const set = (from: string, to: string) => {
+    if (!ratings[from]) ratings[from] = {};
+    ratings[from][to] = FuzzyRating.MEDIUM;
+  };
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const val = ssim[ids[i]]?.[ids[j]] || SSIMValue.O;
+      if (val === SSIMValue.V || val === SSIMValue.X) set(ids[i], ids[j]);
+      if (val === SSIMValue.A || val === SSIMValue.X) set(ids[j], ids[i]);
+    }
+  }
+  return ratings;
+};
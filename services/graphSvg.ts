@@ -0,0 +1,199 @@
+import { ISMElement, ISMResult } from '../types';
+import { getCategoryColorHex } from './categoryColors';
+
+// Standalone SVG markup of the hierarchy and digraph, for use without a browser DOM.
+// Layout and colours follow HierarchyGraph and InterrelationshipGraph.
+
+const FONT = 'Helvetica Neue, Helvetica, Arial, sans-serif';
+
+const escapeXML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Greedy word wrap by character count; the last kept line is cut with an ellipsis
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && (line + ' ' + word).length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`;
+  return kept;
+};
+
+const categoryLegend = (factors: ISMElement[], width: number, y: number, itemWidth: number) => {
+  const categories = Array.from(new Set(factors.map(f => f.category).filter(Boolean))) as string[];
+  const startX = (width - categories.length * itemWidth) / 2;
+  return categories.map((cat, idx) => `<g transform="translate(${startX + idx * itemWidth},${y})">`
+    + `<circle r="6" fill="${getCategoryColorHex(cat)}" stroke="#cbd5e1"/>`
+    + `<text x="12" y="4" font-size="12" font-family="${FONT}" fill="#475569">${escapeXML(cat)}</text></g>`).join('');
+};
+
+const wrapSVG = (width: number, height: number, body: string[]) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" style="background-color:#ffffff">`
+  + `<rect width="${width}" height="${height}" fill="#ffffff"/>${body.join('')}</svg>\n`;
+
+/**
+ * Level-by-level ISM model: cycle groups boxed together, links drawn between
+ * adjacent levels and within a level, as on the results screen.
+ */
+export const renderHierarchySVG = (result: ISMResult, factors: ISMElement[], title?: string): string => {
+  const { levels, initialReachabilityMatrix, componentOf } = result;
+  const boxWidth = 220;
+  const boxHeight = 80;
+  const hGap = 40;
+  const vGap = 100;
+  const groupPad = 12;
+  const innerGap = 16;
+  const footerHeight = 80;
+  const itemWidth = 180;
+  const categoryCount = new Set(factors.map(f => f.category).filter(Boolean)).size;
+
+  const levelUnits = levels.map(lvl => {
+    const units = new Map<number, number[]>();
+    lvl.elements.forEach(el => {
+      if (!units.has(componentOf[el])) units.set(componentOf[el], []);
+      units.get(componentOf[el])!.push(el);
+    });
+    return Array.from(units.values()).map(members => ({
+      members,
+      width: members.length * boxWidth + (members.length - 1) * innerGap + (members.length > 1 ? 2 * groupPad : 0),
+    }));
+  });
+  const getLevelWidth = (units: { width: number }[]) => units.reduce((sum, u) => sum + u.width, 0) + (units.length - 1) * hGap;
+
+  const width = Math.max(800, Math.max(0, ...levelUnits.map(getLevelWidth)) + 100, categoryCount * itemWidth + 100);
+  const height = Math.max(600, levels.length * (boxHeight + vGap) + 100 + footerHeight);
+
+  interface Anchor { x: number; y: number; width: number; height: number; level: number; isGroup: boolean }
+  const anchors: Anchor[] = [];
+  const anchorOf = new Map<number, Anchor>();
+  const nodes: { index: number; x: number; y: number }[] = [];
+
+  levelUnits.forEach((units, lvlIndex) => {
+    const y = 50 + lvlIndex * (boxHeight + vGap);
+    let x = (width - getLevelWidth(units)) / 2;
+    units.forEach(unit => {
+      const isGroup = unit.members.length > 1;
+      const anchor = { x, y: isGroup ? y - groupPad : y, width: unit.width, height: isGroup ? boxHeight + 2 * groupPad : boxHeight, level: levels[lvlIndex].level, isGroup };
+      anchors.push(anchor);
+      let memberX = isGroup ? x + groupPad : x;
+      unit.members.forEach(index => {
+        nodes.push({ index, x: memberX, y });
+        anchorOf.set(index, anchor);
+        memberX += boxWidth + innerGap;
+      });
+      x += unit.width + hGap;
+    });
+  });
+
+  // One link per pair of anchors; links inside a cycle group are implied by its box
+  const links = new Map<string, { source: Anchor; target: Anchor; levelDiff: number }>();
+  initialReachabilityMatrix.forEach((row, i) => row.forEach((val, j) => {
+    const source = anchorOf.get(i);
+    const target = anchorOf.get(j);
+    if (val !== 1 || i === j || !source || !target || source === target) return;
+    const levelDiff = source.level - target.level;
+    if (levelDiff !== 0 && levelDiff !== 1) return;
+    links.set(`${anchors.indexOf(source)}-${anchors.indexOf(target)}`, { source, target, levelDiff });
+  }));
+
+  const body: string[] = [
+    '<defs>',
+    `<marker id="arrowhead-side" viewBox="0 -5 10 10" refX="${boxWidth / 2 + 10}" refY="0" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,-5L10,0L0,5" fill="#94a3b8"/></marker>`,
+    '<marker id="arrowhead-bottom" viewBox="0 -5 10 10" refX="10" refY="0" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,-5L10,0L0,5" fill="#94a3b8"/></marker>',
+    '</defs>',
+  ];
+
+  links.forEach(({ source, target, levelDiff }) => {
+    const d = levelDiff === 0
+      ? `M${source.x + source.width / 2},${source.y + source.height / 2}L${target.x + target.width / 2},${target.y + target.height / 2}`
+      : `M${source.x + source.width / 2},${source.y}V${(source.y + target.y + target.height) / 2}H${target.x + target.width / 2}V${target.y + target.height}`;
+    body.push(`<path d="${d}" fill="none" stroke="#94a3b8" stroke-width="2" marker-end="url(#${levelDiff === 0 ? 'arrowhead-side' : 'arrowhead-bottom'})"/>`);
+  });
+
+  anchors.filter(a => a.isGroup).forEach(a => {
+    body.push(`<g transform="translate(${a.x},${a.y})"><rect width="${a.width}" height="${a.height}" rx="10" fill="#f8fafc" stroke="#64748b" stroke-width="1.5" stroke-dasharray="5,3"/>`
+      + `<text x="8" y="9" font-size="9" font-weight="bold" font-family="${FONT}" fill="#64748b">Cycle group</text></g>`);
+  });
+
+  nodes.forEach(({ index, x, y }) => {
+    const factor = factors[index];
+    const lines = wrapText(factor.description || factor.name, 34, 3);
+    const firstLineY = 46 - (lines.length - 1) * 7;
+    body.push(`<g transform="translate(${x},${y})">`
+      + `<rect width="${boxWidth}" height="${boxHeight}" rx="6" fill="#ffffff" stroke="${getCategoryColorHex(factor.category)}" stroke-width="2"/>`
+      + `<text x="${boxWidth / 2}" y="${firstLineY - 18}" text-anchor="middle" font-size="14" font-weight="bold" font-family="${FONT}" fill="#334155">${escapeXML(factor.name)}</text>`
+      + lines.map((line, idx) => `<text x="${boxWidth / 2}" y="${firstLineY + idx * 14}" text-anchor="middle" font-size="11" font-family="${FONT}" fill="#1e293b">${escapeXML(line)}</text>`).join('')
+      + '</g>');
+  });
+
+  levels.forEach((lvl, idx) => {
+    body.push(`<text x="20" y="${50 + idx * (boxHeight + vGap) + boxHeight / 2 + 5}" font-size="14" font-weight="bold" font-family="${FONT}" fill="#64748b">Level ${lvl.level}</text>`);
+  });
+
+  const footerY = height - footerHeight + 25;
+  body.push(`<text x="${width / 2}" y="${footerY - 10}" text-anchor="middle" font-size="18" font-weight="bold" font-family="${FONT}" fill="#1e293b">${escapeXML(`ISM-based model${title ? ` of ${title}` : ''}`)}</text>`);
+  body.push(categoryLegend(factors, width, footerY + 20, itemWidth));
+  return wrapSVG(width, height, body);
+};
+
+/**
+ * Circular digraph of the direct links, with mutual (X) links drawn once in purple.
+ */
+export const renderDigraphSVG = (result: ISMResult, factors: ISMElement[], title?: string): string => {
+  const irm = result.initialReachabilityMatrix;
+  const itemWidth = 160;
+  const categoryCount = new Set(factors.map(f => f.category).filter(Boolean)).size;
+  const width = Math.max(800, categoryCount * itemWidth + 100);
+  const height = 700;
+  const radius = Math.min(width, 600) / 2 - 60;
+  const nodeRadius = 24;
+  const refXEnd = 10 + nodeRadius + 5;
+
+  const nodes = factors.map((_, i) => {
+    const angle = (i / factors.length) * 2 * Math.PI - Math.PI / 2;
+    return { x: width / 2 + radius * Math.cos(angle), y: 300 + radius * Math.sin(angle) };
+  });
+
+  const body: string[] = [
+    '<defs>',
+    `<marker id="arrowhead-end-grey" viewBox="0 -5 10 10" refX="${refXEnd}" refY="0" markerWidth="10" markerHeight="10" orient="auto" markerUnits="userSpaceOnUse"><path d="M0,-5L10,0L0,5" fill="#64748b"/></marker>`,
+    `<marker id="arrowhead-end-purple" viewBox="0 -5 10 10" refX="${refXEnd}" refY="0" markerWidth="10" markerHeight="10" orient="auto" markerUnits="userSpaceOnUse"><path d="M0,-5L10,0L0,5" fill="#8b5cf6"/></marker>`,
+    `<marker id="arrowhead-start-purple" viewBox="0 -5 10 10" refX="${-(nodeRadius + 5)}" refY="0" markerWidth="10" markerHeight="10" orient="auto" markerUnits="userSpaceOnUse"><path d="M10,-5L0,0L10,5" fill="#8b5cf6"/></marker>`,
+    '</defs>',
+  ];
+
+  irm.forEach((row, i) => row.forEach((val, j) => {
+    if (val !== 1 || i === j) return;
+    const mutual = irm[j][i] === 1;
+    if (mutual && j < i) return;
+    const path = `M${nodes[i].x},${nodes[i].y}L${nodes[j].x},${nodes[j].y}`;
+    body.push(mutual
+      ? `<path d="${path}" fill="none" stroke="#8b5cf6" stroke-width="2.5" marker-end="url(#arrowhead-end-purple)" marker-start="url(#arrowhead-start-purple)"/>`
+      : `<path d="${path}" fill="none" stroke="#94a3b8" stroke-width="1.5" opacity="0.6" marker-end="url(#arrowhead-end-grey)"/>`);
+  }));
+
+  factors.forEach((factor, i) => {
+    body.push(`<g transform="translate(${nodes[i].x},${nodes[i].y})">`
+      + `<circle r="${nodeRadius}" fill="white" stroke="${getCategoryColorHex(factor.category)}" stroke-width="3"/>`
+      + `<text dy="5" text-anchor="middle" font-size="12" font-weight="bold" font-family="${FONT}" fill="#1e293b">${escapeXML(factor.name)}</text></g>`);
+  });
+
+  const footerY = 620;
+  body.push(`<text x="${width / 2}" y="${footerY}" text-anchor="middle" font-size="18" font-weight="bold" font-family="${FONT}" fill="#1e293b">${escapeXML(title ? `Interrelationships between factors of ${title}` : 'Interrelationships between factors / barriers')}</text>`);
+  body.push(`<g transform="translate(${width / 2 - 150},${footerY + 30})">`
+    + '<line x1="0" y1="0" x2="30" y2="0" stroke="#94a3b8" stroke-width="2"/>'
+    + `<text x="35" y="4" font-size="12" font-family="${FONT}" fill="#475569">One-way Arrow (V/A)</text>`
+    + '<line x1="170" y1="0" x2="200" y2="0" stroke="#8b5cf6" stroke-width="2"/>'
+    + `<text x="205" y="4" font-size="12" font-family="${FONT}" fill="#475569">Two-way Arrow (X)</text></g>`);
+  body.push(categoryLegend(factors, width, footerY + 60, itemWidth));
+  return wrapSVG(width, height, body);
+};
@@ -0,0 +1,187 @@
+import { EditableDocument, EditHistory, HistoryEntry, ISMElement, SSIMData, SSIMValue, DelphiRound } from '../types';
+
+type CellMap = Record<string, Record<string, unknown>>;
+import { getSSIMRelation } from './ssimModel';
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+// Oldest steps are dropped beyond this
+export const HISTORY_LIMIT = 100;
+// Changes of the same group closer together than this become one undo step
+export const GROUP_WINDOW_MS = 1500;
+
+interface ChangeDescription {
+  label: string;
+  group: string;
+}
+
+const describeFactorChange = (prev: ISMElement[], next: ISMElement[]): ChangeDescription | null => {
+  if (prev === next) return null;
+  const prevIds = new Set(prev.map(f => f.id));
+  const nextIds = new Set(next.map(f => f.id));
+  const added = next.filter(f => !prevIds.has(f.id));
+  const removed = prev.filter(f => !nextIds.has(f.id));
+
+  if (added.length === 1 && removed.length > 1) {
+    return { label: `Merge ${removed.map(f => f.name).join(', ')} into ${added[0].name}`, group: `factor-merge:${added[0].id}` };
+  }
+  if (removed.length === 1 && added.length > 1) {
+    return { label: `Split ${removed[0].name} into ${added.map(f => f.name).join(', ')}`, group: `factor-split:${removed[0].id}` };
+  }
+  if (added.length > 0 && removed.length > 0) return { label: `Replace factors (${next.length})`, group: 'factors-replace' };
+  if (added.length === 1) return { label: `Add factor ${added[0].name}`, group: `factor-add:${added[0].id}` };
+  if (added.length > 1) return { label: `Import ${added.length} factors`, group: 'factors-import' };
+  if (removed.length === 1) return { label: `Delete factor ${removed[0].name}`, group: `factor-delete:${removed[0].id}` };
+  if (removed.length > 1) return { label: next.length === 0 ? 'Clear factors' : `Delete ${removed.length} factors`, group: 'factors-delete' };
+
+  const byId = new Map(prev.map(f => [f.id, f]));
+  const edited = next.filter(f => JSON.stringify(f) !== JSON.stringify(byId.get(f.id)));
+  if (edited.length === 1) return { label: `Edit factor ${edited[0].name}`, group: `factor-edit:${edited[0].id}` };
+  if (edited.length > 1) return { label: `Edit ${edited.length} factors`, group: 'factors-edit' };
+  if (prev.some((f, idx) => f.id !== next[idx].id)) return { label: 'Reorder factors', group: 'factors-reorder' };
+  return null;
+};
+
+const describeSSIMChange = (factors: ISMElement[], prev: SSIMData, next: SSIMData, suffix = ''): ChangeDescription | null => {
+  if (prev === next) return null;
+  const changed: { i: number; j: number; to: SSIMValue | null }[] = [];
+  for (let i = 0; i < factors.length; i++) {
+    for (let j = i + 1; j < factors.length; j++) {
+      // Read either way round, so remapping cells for a new factor order is not a change
+      const to = getSSIMRelation(next, factors[i].id, factors[j].id);
+      if (getSSIMRelation(prev, factors[i].id, factors[j].id) !== to) changed.push({ i, j, to });
+    }
+  }
+  if (changed.length === 0) return null;
+  if (changed.length === 1) {
+    const { i, j, to } = changed[0];
+    return {
+      label: `Set (${factors[i].name}, ${factors[j].name}) to ${to ?? 'unanswered'}${suffix}`,
+      group: `cell${suffix}:${factors[i].id}|${factors[j].id}`,
+    };
+  }
+  if (changed.every(c => c.to === null)) return { label: `Clear SSIM${suffix}`, group: `ssim-clear${suffix}` };
+  return { label: `Change ${changed.length} SSIM cells${suffix}`, group: `ssim-bulk${suffix}` };
+};
+
+// Notes, fuzzy ratings and TISM texts, keyed [fromId][toId]; `undirected` reads notes either way round like SSIM cells
+const describeCellMapChange = (factors: ISMElement[], prev: CellMap, next: CellMap, noun: string, key: string, undirected = false): ChangeDescription | null => {
+  if (prev === next) return null;
+  const read = (map: CellMap, a: string, b: string) => JSON.stringify(undirected ? map[a]?.[b] ?? map[b]?.[a] : map[a]?.[b]);
+  const changed: [ISMElement, ISMElement][] = [];
+  for (let i = 0; i < factors.length; i++) {
+    for (let j = undirected ? i + 1 : 0; j < factors.length; j++) {
+      if (i === j) continue;
+      const [a, b] = [factors[i].id, factors[j].id];
+      if (read(prev, a, b) !== read(next, a, b)) changed.push([factors[i], factors[j]]);
+    }
+  }
+  if (changed.length === 0) return null;
+  if (changed.length === 1) {
+    const [from, to] = changed[0];
+    return { label: `Edit ${noun} (${from.name}, ${to.name})`, group: `${key}:${from.id}|${to.id}` };
+  }
+  return { label: `Edit ${changed.length} ${noun}s`, group: `${key}-bulk` };
+};
+
+const describeRoundsChange = (factors: ISMElement[], prev: DelphiRound[], next: DelphiRound[]): ChangeDescription | null => {
+  if (prev === next) return null;
+  if (next.length > prev.length) return { label: `Start Delphi round ${next.length}`, group: `round-start:${next.length}` };
+  if (next.length < prev.length) return { label: 'Reset Delphi rounds', group: 'rounds-reset' };
+
+  for (let r = 0; r < next.length; r++) {
+    const before = prev[r];
+    const after = next[r];
+    if (before === after) continue;
+    if (before.feedback !== after.feedback) return { label: `Edit round ${after.number} feedback`, group: `feedback:${after.number}` };
+
+    const beforeIds = new Set(before.experts.map(e => e.id));
+    const added = after.experts.find(e => !beforeIds.has(e.id));
+    if (added) return { label: `Add expert ${added.name}`, group: `expert-add:${added.id}` };
+    const afterIds = new Set(after.experts.map(e => e.id));
+    const removed = before.experts.find(e => !afterIds.has(e.id));
+    if (removed) return { label: `Remove expert ${removed.name}`, group: `expert-remove:${removed.id}` };
+
+    for (const expert of after.experts) {
+      const previous = before.experts.find(e => e.id === expert.id);
+      if (!previous || previous === expert) continue;
+      const cells = describeSSIMChange(factors, previous.ssim, expert.ssim, ` for ${expert.name}`);
+      if (cells) return cells;
+      if (previous.name !== expert.name || previous.role !== expert.role) {
+        return { label: `Edit expert ${expert.name}`, group: `expert-edit:${expert.id}` };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Names the change between two documents for the history list, or returns null
+ * when nothing undoable changed (e.g. a new object with the same content).
+ */
+export const describeChange = (prev: EditableDocument, next: EditableDocument): ChangeDescription | null => {
+  // Cells of added factors (e.g. relations copied by a merge or split) belong to the factor change
+  const prevIds = new Set(prev.factors.map(f => f.id));
+  const kept = next.factors.filter(f => prevIds.has(f.id));
+  const parts = [
+    describeFactorChange(prev.factors, next.factors),
+    describeSSIMChange(kept, prev.ssim, next.ssim),
+    describeRoundsChange(kept, prev.rounds, next.rounds),
+    describeCellMapChange(kept, prev.annotations, next.annotations, 'note', 'note', true),
+    describeCellMapChange(kept, prev.fuzzyRatings, next.fuzzyRatings, 'fuzzy rating', 'fuzzy'),
+    describeCellMapChange(kept, prev.tism.interpretations, next.tism.interpretations, 'interpretation', 'tism'),
+    describeCellMapChange(kept, prev.tism.significantTransitive, next.tism.significantTransitive, 'transitive link', 'tism-transitive'),
+  ].filter((part): part is ChangeDescription => part !== null);
+  if (parts.length === 0) return null;
+  return { label: parts.map(p => p.label).join('; '), group: parts.map(p => p.group).join('+') };
+};
+
+/**
+ * Records a change as an undo step, merging it into the previous step when it
+ * continues the same group within the grouping window. Clears the redo stack.
+ */
+export const recordChange = (history: EditHistory, prev: EditableDocument, next: EditableDocument, now = Date.now()): EditHistory => {
+  const change = describeChange(prev, next);
+  if (!change) return history;
+
+  const last = history.past[history.past.length - 1];
+  if (last && last.group === change.group && now - last.at < GROUP_WINDOW_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, label: change.label, at: now }], future: [] };
+  }
+  const entry: HistoryEntry = { ...change, state: prev, at: now };
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+/**
+ * Steps back once. Returns the document to restore, or null when there is nothing to undo.
+ */
+export const undoChange = (history: EditHistory, current: EditableDocument): { history: EditHistory; state: EditableDocument } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [{ ...entry, state: current }, ...history.future] },
+    state: entry.state,
+  };
+};
+
+export const redoChange = (history: EditHistory, current: EditableDocument): { history: EditHistory; state: EditableDocument } | null => {
+  const [entry, ...rest] = history.future;
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, { ...entry, state: current }], future: rest },
+    state: entry.state,
+  };
+};
+
+/**
+ * Undoes or redoes several steps at once. `steps` < 0 undoes, > 0 redoes.
+ */
+export const travelHistory = (history: EditHistory, current: EditableDocument, steps: number) => {
+  let position = { history, state: current };
+  for (let s = 0; s < Math.abs(steps); s++) {
+    const moved = steps < 0 ? undoChange(position.history, position.state) : redoChange(position.history, position.state);
+    if (!moved) break;
+    position = moved;
+  }
+  return position;
+};
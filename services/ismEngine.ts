@@ -0,0 +1,50 @@
+import { ISMResult, SSIMData } from '../types';
+import { runISMAnalysis, ISMProgressHandler } from './ismLogic';
+
+export interface ISMWorkerRequest {
+  size: number;
+  ids: string[];
+  ssim: SSIMData;
+}
+
+export type ISMWorkerMessage =
+  | { type: 'progress'; stage: string; progress: number }
+  | { type: 'result'; result: ISMResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Runs the ISM analysis in a Web Worker so large factor sets do not freeze the tab.
+ * Falls back to the main thread where workers are unavailable (e.g. under Node).
+ */
+export const runISMAnalysisAsync = (
+  size: number,
+  ids: string[],
+  ssim: SSIMData,
+  onProgress?: ISMProgressHandler
+): Promise<ISMResult> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => runISMAnalysis(size, ids, ssim, onProgress));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./ismWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<ISMWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.stage, message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'ISM worker failed'));
+    };
+
+    const request: ISMWorkerRequest = { size, ids, ssim };
+    worker.postMessage(request);
+  });
+};
@@ -1,4 +1,8 @@
-import { SSIMValue, BinaryMatrix, LevelPartition, ISMResult } from '../types';
+import { SSIMValue, SSIMData, SSIMCellChange, BinaryMatrix, LevelPartition, ISMResult, ReachabilityKind, ReachabilityKindMatrix, PartitionIteration } from '../types';
+import { BitMatrix, wordCount, createBitMatrix, hasBit, setBit, clearBit, orInto, forEachBit, toBitMatrix, toBinaryMatrix } from './bitset';
+
+// Reports the current stage and overall progress (0-1) of a long-running analysis
+export type ISMProgressHandler = (stage: string, progress: number) => void;
 
 /**
  * Converts the SSIM dictionary to an Initial Reachability Matrix (IRM).
@@ -18,7 +22,8 @@ export const convertSSIMToIRM = (
       const idI = ids[i];
       const idJ = ids[j];
       
-      // Look up relation. Safe access with default to 'O'.
+      // Look up relation. Unanswered cells add no link, like 'O';
+      // analysis is blocked until every cell is answered.
       const val = ssim[idI]?.[idJ] || SSIMValue.O;
 
       // Logic rules for ISM based on Upper Triangle input
@@ -45,133 +50,376 @@ export const convertSSIMToIRM = (
   return matrix;
 };
 
+export const REACHABILITY_NOTATION: Record<ReachabilityKind, string> = {
+  [ReachabilityKind.NONE]: '0',
+  [ReachabilityKind.SELF]: '1',
+  [ReachabilityKind.DIRECT]: '1',
+  [ReachabilityKind.TRANSITIVE]: '1*',
+};
+
 /**
- * Checks for transitivity using Warshall's Algorithm.
- * If A->B and B->C, then A->C.
+ * Classifies every entry of the final reachability matrix against the initial one,
+ * so views and exports read the 1* notation instead of re-deriving it.
  */
-export const computeFinalReachabilityMatrix = (irm: BinaryMatrix): BinaryMatrix => {
-  const size = irm.length;
-  // Deep copy
-  const matrix = irm.map((row) => [...row]);
+export const classifyReachability = (irm: BinaryMatrix, frm: BinaryMatrix): ReachabilityKindMatrix =>
+  frm.map((row, i) => row.map((val, j) => {
+    if (val !== 1) return ReachabilityKind.NONE;
+    if (i === j) return ReachabilityKind.SELF;
+    return irm[i][j] === 1 ? ReachabilityKind.DIRECT : ReachabilityKind.TRANSITIVE;
+  }));
+
+/**
+ * Warshall's algorithm on packed rows, in place: if i reaches k, row i absorbs row k.
+ */
+const closeTransitively = (bits: BitMatrix, onProgress?: (fraction: number) => void): BitMatrix => {
+  const size = bits.length;
+  const reportEvery = Math.max(1, Math.floor(size / 20));
 
   for (let k = 0; k < size; k++) {
+    const rowK = bits[k];
     for (let i = 0; i < size; i++) {
-      for (let j = 0; j < size; j++) {
-        // If i reaches k and k reaches j, then i reaches j
-        if (matrix[i][k] === 1 && matrix[k][j] === 1) {
-          matrix[i][j] = 1;
-        }
-      }
+      if (i !== k && hasBit(bits[i], k)) orInto(bits[i], rowK);
     }
+    if (onProgress && (k + 1) % reportEvery === 0) onProgress((k + 1) / size);
   }
-  return matrix;
+  return bits;
 };
 
 /**
- * Performs Level Partitioning on the Final Reachability Matrix.
+ * Lists the upper-triangle cells whose relation differs between two SSIMs.
  */
-export const performLevelPartitioning = (frm: BinaryMatrix): LevelPartition[] => {
-  const size = frm.length;
-  let remainingElements = new Set<number>(Array.from({ length: size }, (_, i) => i));
-  const levels: LevelPartition[] = [];
-  let currentLevel = 1;
-  const MAX_LEVELS = size + 5; // Safety cap
-
-  while (remainingElements.size > 0) {
-    const currentLevelElements: number[] = [];
-
-    // Check each remaining element
-    remainingElements.forEach((i) => {
-      // Reachability Set R(i)
-      const reachable: number[] = [];
-      // Antecedent Set A(i)
-      const antecedent: number[] = [];
-
-      // Only consider elements that are still remaining
-      remainingElements.forEach((j) => {
-        if (frm[i][j] === 1) reachable.push(j);
-        if (frm[j][i] === 1) antecedent.push(j);
-      });
+export const diffSSIM = (ids: string[], previous: SSIMData, current: SSIMData): SSIMCellChange[] => {
+  const changes: SSIMCellChange[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const from = previous[ids[i]]?.[ids[j]] || SSIMValue.O;
+      const to = current[ids[i]]?.[ids[j]] || SSIMValue.O;
+      if (from !== to) changes.push({ i, j, from, to });
+    }
+  }
+  return changes;
+};
 
-      // Intersection R(i) ∩ A(i)
-      // Since reachable contains only elements in remaining set, 
-      // and antecedent contains only elements in remaining set,
-      // we check if R(i) is a subset of A(i).
-      // Since x is always in R(x) and A(x), the intersection is never empty.
-      
-      const intersection = reachable.filter((x) => antecedent.includes(x));
+/**
+ * Checks for transitivity using Warshall's Algorithm.
+ * If A->B and B->C, then A->C.
+ */
+export const computeFinalReachabilityMatrix = (irm: BinaryMatrix): BinaryMatrix =>
+  toBinaryMatrix(closeTransitively(toBitMatrix(irm)), irm.length);
+
+/**
+ * Tarjan's algorithm over packed rows.
+ */
+const findComponentsInBits = (bits: BitMatrix): number[][] => {
+  const size = bits.length;
+  const index = Array(size).fill(-1);
+  const lowLink = Array(size).fill(0);
+  const onStack = Array(size).fill(false);
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  const strongConnect = (v: number) => {
+    index[v] = counter;
+    lowLink[v] = counter;
+    counter++;
+    stack.push(v);
+    onStack[v] = true;
 
-      // Condition: R(i) == R(i) ∩ A(i)
-      if (reachable.length === intersection.length) {
-        currentLevelElements.push(i);
+    forEachBit(bits[v], (w) => {
+      if (w === v) return;
+      if (index[w] === -1) {
+        strongConnect(w);
+        lowLink[v] = Math.min(lowLink[v], lowLink[w]);
+      } else if (onStack[w]) {
+        lowLink[v] = Math.min(lowLink[v], index[w]);
       }
     });
 
-    if (currentLevelElements.length === 0) {
-      // Logic fallback: If no elements found (cycle cluster remaining), output all remaining as one level
-      // This happens in strong components.
-      remainingElements.forEach(el => currentLevelElements.push(el));
-      levels.push({ level: currentLevel, elements: currentLevelElements });
-      break; 
+    // v is the root of a component: pop its members
+    if (lowLink[v] === index[v]) {
+      const component: number[] = [];
+      let w: number;
+      do {
+        w = stack.pop()!;
+        onStack[w] = false;
+        component.push(w);
+      } while (w !== v);
+      components.push(component.sort((a, b) => a - b));
     }
+  };
 
-    levels.push({ level: currentLevel, elements: currentLevelElements });
-    
-    // Remove found elements from remaining set
-    currentLevelElements.forEach((el) => remainingElements.delete(el));
-    currentLevel++;
-    
-    if (currentLevel > MAX_LEVELS) break;
+  for (let v = 0; v < size; v++) {
+    if (index[v] === -1) strongConnect(v);
+  }
+  return components.sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * Finds the strongly connected components (cycle groups) using Tarjan's algorithm.
+ * Components are ordered by their smallest member; members are sorted ascending.
+ */
+export const findStronglyConnectedComponents = (matrix: BinaryMatrix): number[][] =>
+  findComponentsInBits(toBitMatrix(matrix));
+
+/**
+ * Maps every element index to the index of its component.
+ */
+export const getComponentMembership = (components: number[][], size: number): number[] => {
+  const componentOf = Array(size).fill(-1);
+  components.forEach((members, c) => members.forEach(el => { componentOf[el] = c; }));
+  return componentOf;
+};
+
+const condenseBits = (bits: BitMatrix, components: number[][], componentOf: number[]): BitMatrix => {
+  const condensed = createBitMatrix(components.length);
+  components.forEach((_, c) => setBit(condensed[c], c));
+  bits.forEach((row, i) => forEachBit(row, (j) => setBit(condensed[componentOf[i]], componentOf[j])));
+  return condensed;
+};
+
+/**
+ * Condenses each strongly connected component into a single node.
+ * Returns the component-level matrix (a DAG with self-reachability on the diagonal).
+ */
+export const condenseMatrix = (matrix: BinaryMatrix, components: number[][]): BinaryMatrix => {
+  const componentOf = getComponentMembership(components, matrix.length);
+  return toBinaryMatrix(condenseBits(toBitMatrix(matrix), components, componentOf), components.length);
+};
+
+/**
+ * Partitions a condensed (acyclic) reachability matrix into levels.
+ * Returns the component indices of each level, top level first.
+ */
+const partitionCondensedLevels = (condensed: BitMatrix): number[][] => {
+  const size = condensed.length;
+  const remaining = new Uint32Array(wordCount(size));
+  for (let c = 0; c < size; c++) setBit(remaining, c);
+  let remainingCount = size;
+  const levels: number[][] = [];
+
+  while (remainingCount > 0) {
+    const current: number[] = [];
+
+    forEachBit(remaining, (c) => {
+      // Condition: R(c) ⊆ A(c) among the remaining nodes.
+      // In a DAG this only holds when c reaches no other remaining node.
+      let qualifies = true;
+      forEachBit(condensed[c], (d) => {
+        if (qualifies && hasBit(remaining, d) && !hasBit(condensed[d], c)) qualifies = false;
+      });
+      if (qualifies) current.push(c);
+    });
+
+    // Cannot happen for a transitively closed DAG; guards against malformed input
+    if (current.length === 0) {
+      const rest: number[] = [];
+      forEachBit(remaining, (c) => rest.push(c));
+      levels.push(rest);
+      break;
+    }
+
+    levels.push(current);
+    current.forEach((c) => clearBit(remaining, c));
+    remainingCount -= current.length;
   }
 
   return levels;
 };
 
+const expandLevels = (componentLevels: number[][], components: number[][]): LevelPartition[] =>
+  componentLevels.map((componentIndices, idx) => ({
+    level: idx + 1,
+    elements: componentIndices.flatMap((c) => components[c]).sort((a, b) => a - b),
+  }));
+
+/**
+ * Performs Level Partitioning on the Final Reachability Matrix.
+ * Cycle groups are condensed first so every member of a group lands on the same level.
+ */
+export const performLevelPartitioning = (frm: BinaryMatrix): LevelPartition[] => {
+  const bits = toBitMatrix(frm);
+  const components = findComponentsInBits(bits);
+  const condensed = condenseBits(bits, components, getComponentMembership(components, frm.length));
+  return expandLevels(partitionCondensedLevels(condensed), components);
+};
+
+/**
+ * The iteration tables of the level partition, as printed in ISM studies: on each pass,
+ * the reachability, antecedent and intersection sets of the factors still unplaced.
+ */
+export const describePartitionIterations = (frm: BinaryMatrix, levels: LevelPartition[]): PartitionIteration[] => {
+  const levelOf = new Map<number, number>();
+  levels.forEach(l => l.elements.forEach(idx => levelOf.set(idx, l.level)));
+  return levels.map(({ level }) => {
+    const remaining = frm.map((_, idx) => idx).filter(idx => (levelOf.get(idx) ?? 0) >= level);
+    return {
+      level,
+      rows: remaining.map(element => {
+        const reachability = remaining.filter(j => frm[element][j] === 1);
+        const antecedent = remaining.filter(j => frm[j][element] === 1);
+        return {
+          element,
+          reachability,
+          antecedent,
+          intersection: reachability.filter(j => antecedent.includes(j)),
+          selected: levelOf.get(element) === level,
+        };
+      }),
+    };
+  });
+};
+
+/**
+ * Transitive reduction of the condensed DAG: a link a -> b is dropped
+ * when b is also reached through some other successor c of a.
+ */
+const reduceCondensed = (condensed: BitMatrix): BitMatrix =>
+  condensed.map((row, a) => {
+    const indirect = new Uint32Array(row.length);
+    forEachBit(row, (c) => {
+      if (c === a) return;
+      // Everything c reaches, other than c itself, is also reached through c
+      const viaC = condensed[c].slice();
+      clearBit(viaC, c);
+      orInto(indirect, viaC);
+    });
+    const reduced = row.slice();
+    for (let w = 0; w < reduced.length; w++) reduced[w] &= ~indirect[w];
+    clearBit(reduced, a);
+    return reduced;
+  });
+
+const expandCanonical = (reduced: BitMatrix, componentOf: number[]): BinaryMatrix =>
+  componentOf.map((ci) => componentOf.map((cj) => (hasBit(reduced[ci], cj) ? 1 : 0)));
+
 /**
  * Calculates the Canonical Matrix (Transitive Reduction) for cleaner graphing.
+ * The reduction runs on the condensed DAG, where it is unique, and is then expanded:
+ * every member of a group links to every member of the groups it directly reaches.
+ * Links inside a cycle group are left out because the group is drawn as one node.
  */
 export const getCanonicalMatrix = (frm: BinaryMatrix): BinaryMatrix => {
-    const size = frm.length;
-    const skeleton = frm.map(row => [...row]);
+  const bits = toBitMatrix(frm);
+  const components = findComponentsInBits(bits);
+  const componentOf = getComponentMembership(components, frm.length);
+  return expandCanonical(reduceCondensed(condenseBits(bits, components, componentOf)), componentOf);
+};
 
-    // Remove self-loops for drawing
-    for(let i=0; i<size; i++) skeleton[i][i] = 0;
+// Everything derived from the closure: cycle groups, levels and the canonical matrix
+const deriveStructure = (bits: BitMatrix, onProgress?: ISMProgressHandler) => {
+  onProgress?.('Partitioning levels', 0.85);
+  const components = findComponentsInBits(bits);
+  const componentOf = getComponentMembership(components, bits.length);
+  const condensed = condenseBits(bits, components, componentOf);
+  const levels = expandLevels(partitionCondensedLevels(condensed), components);
 
-    for (let i = 0; i < size; i++) {
-        for (let j = 0; j < size; j++) {
-            if (skeleton[i][j] === 1) {
-                // Check if there is an intermediate path i -> k -> j
-                for (let k = 0; k < size; k++) {
-                    if (k !== i && k !== j && frm[i][k] === 1 && frm[k][j] === 1) {
-                        skeleton[i][j] = 0; // Remove direct link if indirect exists
-                        break; 
-                    }
-                }
-            }
-        }
-    }
-    return skeleton;
-}
+  onProgress?.('Building canonical matrix', 0.95);
+  const canonicalMatrix = expandCanonical(reduceCondensed(condensed), componentOf);
+  return { components, componentOf, levels, canonicalMatrix };
+};
+
+/**
+ * Breadth-first search over the direct links, returning every element reachable from start.
+ */
+const reachableFrom = (irmBits: BitMatrix, start: number): Uint32Array => {
+  const reach = new Uint32Array(wordCount(irmBits.length));
+  setBit(reach, start);
+  const queue = [start];
+  while (queue.length > 0) {
+    forEachBit(irmBits[queue.pop()!], (w) => {
+      if (!hasBit(reach, w)) {
+        setBit(reach, w);
+        queue.push(w);
+      }
+    });
+  }
+  return reach;
+};
+
+const setDirectLink = (irm: BinaryMatrix, from: number, to: number, value: SSIMValue, links: { add: [number, number][]; remove: [number, number][] }) => {
+  const forward = value === SSIMValue.V || value === SSIMValue.X ? 1 : 0;
+  const backward = value === SSIMValue.A || value === SSIMValue.X ? 1 : 0;
+  ([[from, to, forward], [to, from, backward]] as const).forEach(([a, b, val]) => {
+    if (irm[a][b] !== val) (val === 1 ? links.add : links.remove).push([a, b]);
+  });
+};
+
+/**
+ * Updates a previous result after SSIM cell changes instead of rebuilding it from scratch.
+ * Removed links re-derive only the rows that reached them; added links extend the closure
+ * in place. Levels and the canonical matrix are kept when the closure is unchanged.
+ */
+export const updateISMAnalysis = (previous: ISMResult, changes: SSIMCellChange[]): ISMResult => {
+  if (changes.length === 0) return previous;
+  const size = previous.initialReachabilityMatrix.length;
+  const irm = previous.initialReachabilityMatrix.map((row) => [...row]);
+
+  const links = { add: [] as [number, number][], remove: [] as [number, number][] };
+  changes.forEach(({ i, j, to }) => setDirectLink(irm, i, j, to, links));
+
+  const bits = toBitMatrix(previous.finalReachabilityMatrix);
+
+  // 1. Removals: rows that reached the tail of a removed link may have depended on it
+  if (links.remove.length > 0) {
+    links.remove.forEach(([a, b]) => { irm[a][b] = 0; });
+    const irmBits = toBitMatrix(irm);
+    const stale = new Set<number>();
+    links.remove.forEach(([a]) => bits.forEach((row, x) => { if (hasBit(row, a)) stale.add(x); }));
+    stale.forEach((x) => { bits[x] = reachableFrom(irmBits, x); });
+  }
+
+  // 2. Additions on the now exact closure: whoever reaches a also reaches everything b reaches
+  links.add.forEach(([a, b]) => {
+    irm[a][b] = 1;
+    const rowB = bits[b];
+    bits.forEach((row, x) => { if (hasBit(row, a)) orInto(row, rowB); });
+  });
+
+  const frm = toBinaryMatrix(bits, size);
+  const closureChanged = frm.some((row, i) => row.some((val, j) => val !== previous.finalReachabilityMatrix[i][j]));
+  const structure = closureChanged
+    ? deriveStructure(bits)
+    : { components: previous.components, componentOf: previous.componentOf, levels: previous.levels, canonicalMatrix: previous.canonicalMatrix };
+
+  return {
+    initialReachabilityMatrix: irm,
+    finalReachabilityMatrix: closureChanged ? frm : previous.finalReachabilityMatrix,
+    finalReachabilityKinds: classifyReachability(irm, frm),
+    canonicalMatrix: structure.canonicalMatrix,
+    levels: structure.levels,
+    components: structure.components,
+    componentOf: structure.componentOf,
+  };
+};
 
 export const runISMAnalysis = (
   size: number,
   ids: string[],
-  ssim: Record<string, Record<string, SSIMValue>>
+  ssim: Record<string, Record<string, SSIMValue>>,
+  onProgress?: ISMProgressHandler
 ): ISMResult => {
   // Ensure we have correct inputs
   if (!ids || ids.length !== size) {
       console.error("ISM Logic Error: IDs mismatch size");
   }
 
+  onProgress?.('Building initial reachability matrix', 0);
   const irm = convertSSIMToIRM(size, ids, ssim);
-  const frm = computeFinalReachabilityMatrix(irm);
-  const levels = performLevelPartitioning(frm);
-  const canonicalMatrix = getCanonicalMatrix(frm);
 
+  // Transitivity check dominates the run time, so it takes most of the progress bar
+  const bits = closeTransitively(toBitMatrix(irm), (fraction) => onProgress?.('Checking transitivity', 0.05 + fraction * 0.75));
+  const frm = toBinaryMatrix(bits, size);
+  const { components, componentOf, levels, canonicalMatrix } = deriveStructure(bits, onProgress);
+
+  onProgress?.('Done', 1);
   return {
     initialReachabilityMatrix: irm,
     finalReachabilityMatrix: frm,
+    finalReachabilityKinds: classifyReachability(irm, frm),
     canonicalMatrix,
     levels,
+    components,
+    componentOf,
   };
-};
\ No newline at end of file
+};
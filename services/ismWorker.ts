@@ -0,0 +1,17 @@
+import { runISMAnalysis } from './ismLogic';
+import { ISMWorkerRequest, ISMWorkerMessage } from './ismEngine';
+
+// Worker entry point: runs one analysis per request and streams progress back
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<ISMWorkerRequest>) => {
+  const { size, ids, ssim } = event.data;
+  const post = (message: ISMWorkerMessage) => ctx.postMessage(message);
+
+  try {
+    const result = runISMAnalysis(size, ids, ssim, (stage, progress) => post({ type: 'progress', stage, progress }));
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
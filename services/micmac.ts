@@ -0,0 +1,27 @@
+import { BinaryMatrix, MicmacQuadrant } from '../types';
+
+/**
+ * Driving power (row sums) and dependence power (column sums) of the final reachability matrix.
+ */
+export const computeMicmacPowers = (frm: BinaryMatrix) => ({
+  drivingPower: frm.map(row => row.reduce((sum, val) => sum + val, 0)),
+  dependencePower: frm.map((_, col) => frm.reduce((sum, row) => sum + row[col], 0)),
+});
+
+/**
+ * Powers at or below the split point count as weak.
+ */
+export const classifyQuadrant = (drivingPower: number, dependencePower: number, splitPoint: number): MicmacQuadrant => {
+  const strongDriving = drivingPower > splitPoint;
+  const strongDependence = dependencePower > splitPoint;
+  if (strongDriving) return strongDependence ? MicmacQuadrant.LINKAGE : MicmacQuadrant.DRIVER;
+  return strongDependence ? MicmacQuadrant.DEPENDENT : MicmacQuadrant.AUTONOMOUS;
+};
+
+/**
+ * Binary MICMAC quadrant of each factor, split at half the number of factors.
+ */
+export const classifyMicmac = (frm: BinaryMatrix): MicmacQuadrant[] => {
+  const { drivingPower, dependencePower } = computeMicmacPowers(frm);
+  return drivingPower.map((driving, i) => classifyQuadrant(driving, dependencePower[i], frm.length / 2));
+};
@@ -0,0 +1,236 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import {
+  AppStep,
+  ISMElement,
+  ISMResult,
+  ProjectFile,
+  ProjectSnapshot,
+  DelphiRound,
+  AggregationMethod,
+  FuzzyRating,
+  FuzzyInfluenceData,
+  LinkInterpretations,
+} from '../types';
+import { normaliseImportedSSIM, sanitiseAnnotations, SSIM_FILE_VERSION } from './ssimModel';
+import { createRound, DEFAULT_STOP_THRESHOLD } from './delphi';
+import { DEFAULT_AGGREGATION_SETTINGS } from './expertAggregation';
+import { EMPTY_TISM } from './tismLogic';
+import { createStudy, sanitiseStudy } from './study';
+import { sanitiseReferences } from './references';
+
+// Bump when the project schema changes, and add a migration from the previous version
+export const PROJECT_FILE_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.ism';
+
+// Name of the JSON entry inside the zip archive
+const PROJECT_ENTRY = 'project.json';
+
+/**
+ * Migrations keyed by the version they upgrade from. Version 0 is an unversioned
+ * JSON bundle of factors and SSIM, whose SSIMs still read a missing cell as O.
+ * Version 1 kept only the topic; version 2 holds it in the study metadata.
+ * Version 3 adds the bibliography.
+ */
+const MIGRATIONS: Record<number, (project: any) => any> = {
+  0: project => ({ ...project, version: 1, ssimVersion: 1 }),
+  1: ({ topic, ...project }) => ({
+    ...project,
+    version: 2,
+    study: {
+      ...createStudy(typeof topic === 'string' ? topic : ''),
+      date: typeof project.savedAt === 'string' ? project.savedAt.split('T')[0] : '',
+    },
+  }),
+  2: project => ({ ...project, version: 3, references: [] }),
+};
+
+export const migrateProject = (raw: any): any => {
+  let project = raw;
+  let version = typeof project.version === 'number' ? project.version : 0;
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`This project was saved by a newer version of the tool (schema ${version}).`);
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project schema ${version}.`);
+    project = migrate(project);
+    version = project.version;
+  }
+  return project;
+};
+
+/**
+ * A blank session at the factor step.
+ */
+export const createEmptySnapshot = (study = createStudy(), factors: ISMElement[] = []): ProjectSnapshot => ({
+  step: AppStep.DEFINE_FACTORS,
+  study,
+  factors,
+  references: [],
+  ssim: {},
+  annotations: {},
+  rounds: [createRound(1)],
+  activeRoundIndex: 0,
+  stopThreshold: DEFAULT_STOP_THRESHOLD,
+  aggregationSettings: DEFAULT_AGGREGATION_SETTINGS,
+  inputMode: 'grid',
+  fuzzyRatings: {},
+  tism: EMPTY_TISM,
+  result: null,
+  fuzzyResult: null,
+});
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Reference ids are only kept when they are in the bibliography
+const sanitiseFactors = (raw: unknown, referenceIds: string[]): ISMElement[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(f => isRecord(f) && typeof f.id === 'string' && typeof f.name === 'string')
+    .map(f => {
+      const references = Array.isArray(f.references) ? f.references.filter((id: unknown) => referenceIds.includes(id as string)) : [];
+      return {
+        id: f.id,
+        name: f.name,
+        description: f.description,
+        category: f.category,
+        ...(references.length > 0 ? { references } : {}),
+      };
+    });
+};
+
+const sanitiseTexts = (raw: unknown): LinkInterpretations => {
+  const texts: LinkInterpretations = {};
+  if (!isRecord(raw)) return texts;
+  Object.entries(raw).forEach(([fromId, row]) => {
+    if (!isRecord(row)) return;
+    Object.entries(row).forEach(([toId, text]) => {
+      if (typeof text !== 'string') return;
+      if (!texts[fromId]) texts[fromId] = {};
+      texts[fromId][toId] = text;
+    });
+  });
+  return texts;
+};
+
+const VALID_RATINGS = new Set<string>(Object.values(FuzzyRating));
+
+const sanitiseFuzzyRatings = (raw: unknown): FuzzyInfluenceData => {
+  const ratings: FuzzyInfluenceData = {};
+  Object.entries(sanitiseTexts(raw)).forEach(([fromId, row]) => {
+    Object.entries(row).forEach(([toId, rating]) => {
+      if (!VALID_RATINGS.has(rating)) return;
+      if (!ratings[fromId]) ratings[fromId] = {};
+      ratings[fromId][toId] = rating as FuzzyRating;
+    });
+  });
+  return ratings;
+};
+
+const sanitiseRounds = (raw: unknown, ids: string[], ssimVersion: number): DelphiRound[] => {
+  if (!Array.isArray(raw)) return [createRound(1)];
+  const rounds = raw.filter(isRecord).map((round, idx) => ({
+    number: idx + 1,
+    experts: (Array.isArray(round.experts) ? round.experts : [])
+      .filter((e: unknown) => isRecord(e) && typeof e.id === 'string')
+      .map((e: Record<string, any>) => ({
+        id: e.id,
+        name: typeof e.name === 'string' ? e.name : 'Expert',
+        role: e.role,
+        ssim: normaliseImportedSSIM(e.ssim, ids, ssimVersion),
+        annotations: sanitiseAnnotations(e.annotations),
+      })),
+    feedback: typeof round.feedback === 'string' ? round.feedback : '',
+  }));
+  return rounds.length > 0 ? rounds : [createRound(1)];
+};
+
+// Stored results are only kept when their matrices match the factor count
+const isResultFor = (result: unknown, size: number): result is ISMResult =>
+  isRecord(result)
+  && Array.isArray(result.finalReachabilityMatrix) && result.finalReachabilityMatrix.length === size
+  && Array.isArray(result.finalReachabilityKinds) && Array.isArray(result.levels)
+  && Array.isArray(result.components) && Array.isArray(result.componentOf);
+
+/**
+ * Turns a migrated project into a snapshot the app can load. Falls back to an
+ * earlier step when the saved step cannot be restored (e.g. results missing).
+ */
+export const readProject = (raw: unknown): ProjectSnapshot => {
+  if (!isRecord(raw)) throw new Error('Not an ISM project file.');
+  const project = migrateProject(raw);
+  const references = sanitiseReferences(project.references);
+  const factors = sanitiseFactors(project.factors, references.map(r => r.id));
+  if (factors.length === 0) throw new Error('The project contains no factors.');
+
+  const ids = factors.map(f => f.id);
+  const ssimVersion = typeof project.ssimVersion === 'number' ? project.ssimVersion : SSIM_FILE_VERSION;
+  const rounds = sanitiseRounds(project.rounds, ids, ssimVersion);
+  const result = isResultFor(project.result, factors.length) ? project.result : null;
+  const settings = isRecord(project.aggregationSettings) ? project.aggregationSettings : {};
+
+  let step: AppStep = Object.values(AppStep).includes(project.step) ? project.step : AppStep.DEFINE_FACTORS;
+  if (step === AppStep.ANALYSIS_RESULT && !result) step = AppStep.FILL_SSIM;
+  if (step === AppStep.SETUP_TOPIC || (step === AppStep.FILL_SSIM && factors.length < 2)) step = AppStep.DEFINE_FACTORS;
+
+  return {
+    step,
+    study: sanitiseStudy(project.study),
+    factors,
+    references,
+    ssim: normaliseImportedSSIM(project.ssim, ids, ssimVersion),
+    annotations: sanitiseAnnotations(project.annotations),
+    rounds,
+    activeRoundIndex: Number.isInteger(project.activeRoundIndex)
+      ? Math.min(Math.max(project.activeRoundIndex, 0), rounds.length - 1)
+      : rounds.length - 1,
+    stopThreshold: typeof project.stopThreshold === 'number' ? project.stopThreshold : DEFAULT_STOP_THRESHOLD,
+    aggregationSettings: {
+      method: Object.values(AggregationMethod).includes(settings.method) ? settings.method : DEFAULT_AGGREGATION_SETTINGS.method,
+      threshold: typeof settings.threshold === 'number' ? settings.threshold : DEFAULT_AGGREGATION_SETTINGS.threshold,
+      tieBreak: settings.tieBreak === 'inclusive' ? 'inclusive' : 'conservative',
+    },
+    inputMode: ['grid', 'guided', 'fuzzy'].includes(project.inputMode) ? project.inputMode : 'grid',
+    fuzzyRatings: sanitiseFuzzyRatings(project.fuzzyRatings),
+    tism: {
+      interpretations: sanitiseTexts(project.tism?.interpretations),
+      significantTransitive: sanitiseTexts(project.tism?.significantTransitive),
+    },
+    result,
+    fuzzyResult: result && isRecord(project.fuzzyResult) ? project.fuzzyResult as ProjectSnapshot['fuzzyResult'] : null,
+  };
+};
+
+/**
+ * Stamps a snapshot with the current schema versions, ready to be stored or zipped.
+ */
+export const toProjectFile = (snapshot: ProjectSnapshot): ProjectFile => ({
+  version: PROJECT_FILE_VERSION,
+  ssimVersion: SSIM_FILE_VERSION,
+  savedAt: new Date().toISOString(),
+  ...snapshot,
+});
+
+/**
+ * Packs a snapshot into a zipped .ism project file.
+ */
+export const encodeProjectFile = (snapshot: ProjectSnapshot): Uint8Array =>
+  zipSync({ [PROJECT_ENTRY]: strToU8(JSON.stringify(toProjectFile(snapshot))) }, { level: 6 });
+
+/**
+ * Opens a .ism project file. A plain JSON project (unzipped by hand) is accepted too.
+ */
+export const decodeProjectFile = (bytes: Uint8Array): ProjectSnapshot => {
+  // Zip archives start with "PK"
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  let json: string;
+  if (isZip) {
+    const entry = unzipSync(bytes)[PROJECT_ENTRY];
+    if (!entry) throw new Error(`The archive has no ${PROJECT_ENTRY}.`);
+    json = strFromU8(entry);
+  } else {
+    json = strFromU8(bytes);
+  }
+  return readProject(JSON.parse(json));
+};
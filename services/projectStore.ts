@@ -0,0 +1,79 @@
+import { ProjectSummary, StoredProject } from '../types';
+
+const DB_NAME = 'ism-tool';
+const DB_VERSION = 1;
+const STORE = 'projects';
+// The project reopened when the page loads
+const LAST_PROJECT_KEY = 'ism-tool:last-project';
+
+export const isProjectStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Lists the saved projects, most recently modified first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest<StoredProject[]>('readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadProject = async (id: string): Promise<StoredProject | null> =>
+  (await runRequest<StoredProject | undefined>('readonly', store => store.get(id))) ?? null;
+
+export const saveProject = async (project: StoredProject): Promise<void> => {
+  await runRequest('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) setLastProjectId(null);
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+    else localStorage.removeItem(LAST_PROJECT_KEY);
+  } catch {
+    // Storage can be blocked (private mode); recovery then falls back to the newest project
+  }
+};
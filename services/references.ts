@@ -0,0 +1,261 @@
+import { zipSync, strToU8 } from 'fflate';
+import { ISMElement, Reference, SourceMatrixRow } from '../types';
+import { toCSV } from './csv';
+
+const newId = () => crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).substring(2);
+
+export const createReference = (fields: Partial<Reference> = {}): Reference => ({
+  id: newId(),
+  key: '',
+  type: 'article',
+  authors: '',
+  year: '',
+  title: '',
+  source: '',
+  ...fields,
+});
+
+export const sanitiseReferences = (raw: unknown): Reference[] => {
+  if (!Array.isArray(raw)) return [];
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  return raw
+    .filter(r => r && typeof r === 'object' && typeof r.id === 'string')
+    .map(r => ({
+      id: r.id,
+      key: text(r.key),
+      type: text(r.type) || 'article',
+      authors: text(r.authors),
+      year: text(r.year),
+      title: text(r.title),
+      source: text(r.source),
+      ...(typeof r.doi === 'string' && r.doi ? { doi: r.doi } : {}),
+    }));
+};
+
+const lastNames = (authors: string) =>
+  authors.split(/\s+and\s+/i).map(a => a.trim()).filter(Boolean)
+    .map(author => (author.includes(',') ? author.split(',')[0] : author.split(/\s+/).pop() || '').trim());
+
+/**
+ * Short author-year label, e.g. "Smith et al. (2020)". Falls back to the citation key.
+ */
+export const citeLabel = (reference: Reference) => {
+  const names = lastNames(reference.authors);
+  if (names.length === 0) return reference.key || reference.title || 'Untitled';
+  const who = names.length === 1 ? names[0] : names.length === 2 ? `${names[0]} & ${names[1]}` : `${names[0]} et al.`;
+  return reference.year ? `${who} (${reference.year})` : who;
+};
+
+/**
+ * Citation key from the first author's last name and the year, unique among `taken`.
+ */
+export const makeCitationKey = (reference: Pick<Reference, 'authors' | 'year'>, taken: string[]) => {
+  const name = (lastNames(reference.authors)[0] || 'ref').normalize('NFD').replace(/[^A-Za-z]/g, '').toLowerCase() || 'ref';
+  const base = `${name}${reference.year.replace(/\D/g, '')}`;
+  let key = base;
+  for (let suffix = 0; taken.includes(key); suffix++) key = `${base}${String.fromCharCode(97 + (suffix % 26))}${suffix >= 26 ? suffix : ''}`;
+  return key;
+};
+
+// Reads a braced or quoted BibTeX value starting at `start`; returns the raw text and the index after it
+const readDelimited = (text: string, start: number): [string, number] => {
+  const close = text[start] === '{' ? '}' : '"';
+  let depth = 0;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') { i++; continue; }
+    if (char === '{') depth++;
+    else if (char === '}' && depth > 0) depth--;
+    else if (char === close && depth === 0) return [text.slice(start + 1, i), i + 1];
+  }
+  return [text.slice(start + 1), text.length];
+};
+
+// Combining marks of the LaTeX accent macros: \"u, \'{e}, \c c, ...
+const ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  u: '\u0306', v: '\u030c', H: '\u030b', c: '\u0327', k: '\u0328', r: '\u030a', d: '\u0323', b: '\u0331',
+};
+
+const SPECIAL_LETTERS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', aa: 'å', AA: 'Å', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+};
+
+// \i and \j are the dotless letters that carry accents
+const accentBase = (base: string) => (base === '\\i' ? 'i' : base === '\\j' ? 'j' : base);
+
+/**
+ * Turns LaTeX accent macros and special letters into Unicode; macros it does not know
+ * are left as they are.
+ */
+const decodeLatex = (value: string) =>
+  value
+    .replace(/\\(["'`^~=.])\s*(?:\{\s*(\\[ij]|[a-zA-Z])\s*\}|(\\[ij](?![a-zA-Z])|[a-zA-Z]))/g, (_, accent: string, braced?: string, bare?: string) =>
+      accentBase(braced || bare!) + ACCENTS[accent])
+    .replace(/\\([uvHckrdb])(?:\s*\{\s*(\\[ij]|[a-zA-Z])\s*\}|\s+([a-zA-Z]))/g, (_, accent: string, braced?: string, bare?: string) =>
+      accentBase(braced || bare!) + ACCENTS[accent])
+    .replace(/\\(ss|aa|AA|ae|AE|oe|OE|[oOlLij])(?![a-zA-Z])\s*(?:\{\})?/g, (_, letter: string) => SPECIAL_LETTERS[letter])
+    .replace(/\\([&%$#_])/g, '$1')
+    .normalize('NFC');
+
+// Outer braces only protect capitalisation in BibTeX; they are not part of the text
+const cleanValue = (value: string) => decodeLatex(value).replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+
+const SOURCE_FIELDS = ['journal', 'booktitle', 'publisher', 'school', 'institution', 'howpublished'];
+
+/**
+ * Reads the entries of a .bib file. @comment, @string and @preamble blocks are skipped,
+ * as are entries without a citation key.
+ */
+export const parseBibTeX = (text: string): Reference[] => {
+  const references: Reference[] = [];
+  let i = text.indexOf('@');
+  while (i !== -1) {
+    const open = text.slice(i).search(/[{(]/);
+    if (open === -1) break;
+    const type = text.slice(i + 1, i + open).trim().toLowerCase();
+    const bodyStart = i + open;
+    const [body, next] = text[bodyStart] === '{'
+      ? readDelimited(text, bodyStart)
+      : [text.slice(bodyStart + 1, text.indexOf(')', bodyStart)), text.indexOf(')', bodyStart) + 1];
+
+    if (!['comment', 'string', 'preamble'].includes(type)) {
+      const comma = body.indexOf(',');
+      const key = (comma === -1 ? body : body.slice(0, comma)).trim();
+      const fields: Record<string, string> = {};
+      let pos = comma === -1 ? body.length : comma + 1;
+      while (pos < body.length) {
+        const eq = body.indexOf('=', pos);
+        if (eq === -1) break;
+        const name = body.slice(pos, eq).replace(/[\s,]/g, '').toLowerCase();
+        let valueStart = eq + 1;
+        while (/\s/.test(body[valueStart] || '')) valueStart++;
+        let value: string;
+        if (body[valueStart] === '{' || body[valueStart] === '"') {
+          [value, pos] = readDelimited(body, valueStart);
+        } else {
+          const end = body.indexOf(',', valueStart);
+          value = body.slice(valueStart, end === -1 ? body.length : end);
+          pos = end === -1 ? body.length : end;
+        }
+        fields[name] = cleanValue(value);
+        while (pos < body.length && /[\s,]/.test(body[pos])) pos++;
+      }
+      if (key) {
+        references.push(createReference({
+          key,
+          type,
+          authors: fields.author || fields.editor || '',
+          year: fields.year || '',
+          title: fields.title || '',
+          source: SOURCE_FIELDS.map(f => fields[f]).find(Boolean) || '',
+          ...(fields.doi ? { doi: fields.doi } : {}),
+        }));
+      }
+    }
+    i = text.indexOf('@', Math.max(next, i + 1));
+  }
+  return references;
+};
+
+const sourceFieldFor = (type: string) =>
+  type === 'article' ? 'journal' : ['inproceedings', 'incollection', 'conference'].includes(type) ? 'booktitle' : 'publisher';
+
+export const serialiseBibTeX = (references: Reference[]) =>
+  references.map(ref => {
+    const fields: [string, string][] = [
+      ['author', ref.authors],
+      ['title', ref.title],
+      [sourceFieldFor(ref.type), ref.source],
+      ['year', ref.year],
+      ['doi', ref.doi || ''],
+    ];
+    const lines = fields.filter(([, value]) => value).map(([name, value]) => `  ${name} = {${value}}`);
+    return `@${ref.type || 'misc'}{${ref.key},\n${lines.join(',\n')}\n}`;
+  }).join('\n\n') + '\n';
+
+/**
+ * Factor identification matrix: which references mention each factor, how often,
+ * and the factor's rank by that count (ties share a rank, as in 1, 2, 2, 4).
+ */
+export const buildSourceMatrix = (factors: ISMElement[], references: Reference[]) => {
+  const rows = factors.map(factor => {
+    const mentions = references.map(ref => !!factor.references?.includes(ref.id));
+    return { factor, mentions, count: mentions.filter(Boolean).length, rank: 0 };
+  });
+  rows.forEach(row => { row.rank = 1 + rows.filter(other => other.count > row.count).length; });
+  const sourceTotals = references.map((_, r) => rows.filter(row => row.mentions[r]).length);
+  return { rows: rows as SourceMatrixRow[], sourceTotals };
+};
+
+/**
+ * The matrix as table rows for CSV and spreadsheets: a header, one row per factor
+ * (1 where a source mentions it) and the number of factors per source.
+ */
+export const buildSourceMatrixRows = (factors: ISMElement[], references: Reference[]): (string | number)[][] => {
+  const { rows, sourceTotals } = buildSourceMatrix(factors, references);
+  return [
+    ['Code', 'Factor', ...references.map(citeLabel), 'Count', 'Rank'],
+    ...rows.map(row => [row.factor.name, row.factor.description || '', ...row.mentions.map(m => (m ? 1 : '')), row.count, row.rank]),
+    ['', 'Factors per source', ...sourceTotals, '', ''],
+  ];
+};
+
+export const serialiseSourceMatrixCSV = (factors: ISMElement[], references: Reference[]) =>
+  toCSV(buildSourceMatrixRows(factors, references)) + '\n';
+
+const escapeLatex = (text: string) =>
+  text
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+
+/**
+ * LaTeX appendix citing the sources by key, to compile alongside the exported .bib:
+ * a ranked factor list and the full factor-versus-source matrix.
+ */
+export const buildLatexAppendix = (factors: ISMElement[], references: Reference[]) => {
+  const { rows, sourceTotals } = buildSourceMatrix(factors, references);
+  const ranked = [...rows].sort((a, b) => a.rank - b.rank);
+  const cite = (keys: string[]) => (keys.length > 0 ? `\\cite{${keys.join(',')}}` : '--');
+
+  return [
+    '% Factor identification appendix. Needs \\usepackage{longtable,graphicx,amssymb} and the references.bib file.',
+    '\\begin{longtable}{c l p{6cm} p{4cm} c}',
+    '\\caption{Factors identified from the literature, ranked by number of sources}\\\\',
+    '\\hline',
+    'Rank & Code & Factor & Sources & Count \\\\',
+    '\\hline',
+    '\\endhead',
+    ...ranked.map(row => {
+      const keys = references.filter((_, r) => row.mentions[r]).map(ref => ref.key);
+      return `${row.rank} & ${escapeLatex(row.factor.name)} & ${escapeLatex(row.factor.description || row.factor.name)} & ${cite(keys)} & ${row.count} \\\\`;
+    }),
+    '\\hline',
+    '\\end{longtable}',
+    '',
+    `\\begin{longtable}{l ${references.map(() => 'c').join(' ')} c}`,
+    '\\caption{Factor-versus-source matrix}\\\\',
+    '\\hline',
+    `Code & ${references.map(ref => `\\rotatebox{90}{${cite([ref.key])}}`).join(' & ')} & Count \\\\`,
+    '\\hline',
+    '\\endhead',
+    ...rows.map(row => `${escapeLatex(row.factor.name)} & ${row.mentions.map(m => (m ? '$\\checkmark$' : '')).join(' & ')} & ${row.count} \\\\`),
+    '\\hline',
+    `Total & ${sourceTotals.join(' & ')} & \\\\`,
+    '\\hline',
+    '\\end{longtable}',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Zip of appendix.tex, references.bib and the matrix as CSV.
+ */
+export const buildAppendixArchive = (factors: ISMElement[], references: Reference[]): Uint8Array =>
+  zipSync({
+    'appendix.tex': strToU8(buildLatexAppendix(factors, references)),
+    'references.bib': strToU8(serialiseBibTeX(references)),
+    'factor_sources.csv': strToU8(serialiseSourceMatrixCSV(factors, references)),
+  }, { level: 6 });
@@ -0,0 +1,207 @@
+import { ISMElement, MicmacQuadrant, ReachabilityKind, ResultWorkbookContent, SheetCell, SSIMData, Worksheet } from '../types';
+import { REACHABILITY_NOTATION, describePartitionIterations } from './ismLogic';
+import { computeMicmacPowers, classifyQuadrant } from './micmac';
+import { computeAgreementStats, interpretKappa } from './agreementStats';
+import { isSignificantTransitive, hasTISMContent } from './tismLogic';
+import { buildSourceMatrixRows } from './references';
+import { describeStudy } from './study';
+
+const QUADRANT_NAMES: Record<MicmacQuadrant, string> = {
+  [MicmacQuadrant.AUTONOMOUS]: 'Autonomous (I)',
+  [MicmacQuadrant.DEPENDENT]: 'Dependent (II)',
+  [MicmacQuadrant.LINKAGE]: 'Linkage (III)',
+  [MicmacQuadrant.DRIVER]: 'Driving (IV)',
+};
+
+// Decimals kept for fuzzy values, which are otherwise long binary fractions
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+const codes = (factors: ISMElement[], indices: number[]) => indices.map(idx => factors[idx].name).join(', ');
+
+/**
+ * A square matrix with factor codes along both edges; optionally the row sums
+ * (driving power) and column sums (dependence power).
+ */
+const matrixSheet = (name: string, factors: ISMElement[], matrix: SheetCell[][], powers?: { drivingPower: number[]; dependencePower: number[] }): Worksheet => ({
+  name,
+  rows: [
+    ['i \\ j', ...factors.map(f => f.name), ...(powers ? ['Driving Power'] : [])],
+    ...matrix.map((row, i) => [factors[i].name, ...row, ...(powers ? [powers.drivingPower[i]] : [])]),
+    ...(powers ? [['Dependence Power', ...powers.dependencePower]] : []),
+  ],
+  boldRows: [0],
+});
+
+/**
+ * The SSIM as a square table: V/A/X/O in the upper triangle, as the SSIM import reads it.
+ */
+export const buildSSIMSheet = (factors: ISMElement[], ssim: SSIMData): Worksheet =>
+  matrixSheet('SSIM', factors, factors.map((row, i) => factors.map((col, j) => (j > i ? ssim[row.id]?.[col.id] ?? null : null))));
+
+export const buildFactorSheet = (factors: ISMElement[]): Worksheet => ({
+  name: 'Factors',
+  rows: [['Code', 'Description', 'Category'], ...factors.map(f => [f.name, f.description || '', f.category || ''])],
+  boldRows: [0],
+});
+
+/**
+ * The results workbook: every matrix, partition iteration and MICMAC table on its own
+ * sheet, numbers as numeric cells. Sheets for the panel, TISM, fuzzy MICMAC, notes and
+ * sources are only added when there is something to show.
+ */
+export const buildResultWorkbook = (content: ResultWorkbookContent): Worksheet[] => {
+  const { factors, result, experts = [], annotatedSsims = [], fuzzyMicmac, tism, references = [] } = content;
+  const frm = result.finalReachabilityMatrix;
+  const levelOf = new Map<number, number>();
+  result.levels.forEach(l => l.elements.forEach(idx => levelOf.set(idx, l.level)));
+  const frmPowers = computeMicmacPowers(frm);
+  const { drivingPower, dependencePower } = frmPowers;
+  const sheets: Worksheet[] = [];
+
+  const studyRows = content.study ? describeStudy(content.study, experts.length) : [];
+  if (studyRows.length > 0) sheets.push({ name: 'Study', rows: studyRows, boldRows: [] });
+  sheets.push(buildFactorSheet(factors));
+  if (content.ssim) sheets.push(buildSSIMSheet(factors, content.ssim));
+
+  sheets.push(matrixSheet('Initial Matrix', factors, result.initialReachabilityMatrix, computeMicmacPowers(result.initialReachabilityMatrix)));
+  sheets.push(matrixSheet('Final Matrix', factors, frm, frmPowers));
+  // The report's notation, where transitive entries read 1*
+  const notation = matrixSheet('Final Matrix Notation', factors, result.finalReachabilityKinds.map(row => row.map(kind => REACHABILITY_NOTATION[kind])));
+  notation.rows.push([], ['Key'], ['1', 'Direct relationship'], ['1*', 'Transitive relationship'], ['0', 'No relationship']);
+  sheets.push(notation);
+  sheets.push(matrixSheet('Canonical Matrix', factors, result.canonicalMatrix));
+
+  const setHeader = ['Factor', 'Reachability Set', 'Antecedent Set', 'Intersection', 'Level'];
+  describePartitionIterations(frm, result.levels).forEach(iteration => sheets.push({
+    name: `Iteration ${iteration.level}`,
+    rows: [setHeader, ...iteration.rows.map(row => [
+      factors[row.element].name,
+      codes(factors, row.reachability),
+      codes(factors, row.antecedent),
+      codes(factors, row.intersection),
+      row.selected ? iteration.level : null,
+    ])],
+    boldRows: [0],
+  }));
+  sheets.push({
+    name: 'Level Partition',
+    rows: [
+      ['Level', 'Factors'],
+      ...result.levels.map(l => [l.level, codes(factors, l.elements)]),
+      [],
+      setHeader,
+      ...factors.map((factor, i) => {
+        const reachability = factors.map((_, j) => j).filter(j => frm[i][j] === 1);
+        const antecedent = factors.map((_, j) => j).filter(j => frm[j][i] === 1);
+        return [factor.name, codes(factors, reachability), codes(factors, antecedent), codes(factors, reachability.filter(j => antecedent.includes(j))), levelOf.get(i) ?? null];
+      }),
+    ],
+    boldRows: [0, result.levels.length + 2],
+  });
+
+  sheets.push({
+    name: 'MICMAC',
+    rows: [
+      ['Factor', 'Description', 'Driving Power', 'Dependence Power', 'Quadrant', 'Level'],
+      ...factors.map((factor, i) => [
+        factor.name,
+        factor.description || '',
+        drivingPower[i],
+        dependencePower[i],
+        QUADRANT_NAMES[classifyQuadrant(drivingPower[i], dependencePower[i], factors.length / 2)],
+        levelOf.get(i) ?? null,
+      ]),
+    ],
+    boldRows: [0],
+  });
+
+  if (fuzzyMicmac) {
+    sheets.push(matrixSheet('Fuzzy Direct Matrix', factors, fuzzyMicmac.directMatrix.map(row => row.map(v => round(v)))));
+    sheets.push(matrixSheet('Fuzzy Stabilised Matrix', factors, fuzzyMicmac.stabilisedMatrix.map(row => row.map(v => round(v))), {
+      drivingPower: fuzzyMicmac.drivingPower.map(v => round(v)),
+      dependencePower: fuzzyMicmac.dependencePower.map(v => round(v)),
+    }));
+    // Split at the middle of the observed scale, as in the MICMAC chart
+    const scaleMax = Math.max(1, Math.ceil(Math.max(...fuzzyMicmac.drivingPower, ...fuzzyMicmac.dependencePower)));
+    sheets.push({
+      name: 'Fuzzy MICMAC',
+      rows: [
+        ['Factor', 'Driving Power', 'Dependence Power', 'Quadrant'],
+        ...factors.map((factor, i) => [
+          factor.name,
+          round(fuzzyMicmac.drivingPower[i]),
+          round(fuzzyMicmac.dependencePower[i]),
+          QUADRANT_NAMES[classifyQuadrant(fuzzyMicmac.drivingPower[i], fuzzyMicmac.dependencePower[i], scaleMax / 2)],
+        ]),
+        [],
+        ['Iterations to stabilise', fuzzyMicmac.iterations],
+      ],
+      boldRows: [0],
+    });
+  }
+
+  if (tism && hasTISMContent(tism)) {
+    sheets.push(matrixSheet('Interpretive Matrix', factors, factors.map((rowFactor, i) => factors.map((colFactor, j) => {
+      const kind = result.finalReachabilityKinds[i][j];
+      if (kind === ReachabilityKind.DIRECT) return `1: ${tism.interpretations[rowFactor.id]?.[colFactor.id] || ''}`;
+      if (kind === ReachabilityKind.TRANSITIVE && isSignificantTransitive(tism, rowFactor.id, colFactor.id)) {
+        return `1*: ${tism.significantTransitive[rowFactor.id][colFactor.id]}`;
+      }
+      return i === j ? null : REACHABILITY_NOTATION[kind];
+    }))));
+  }
+
+  if (experts.length >= 2) {
+    const stats = computeAgreementStats(factors.map(f => f.id), experts);
+    const pairHeaderRow = 6;
+    sheets.push({
+      name: 'Agreement',
+      rows: [
+        ['Experts', stats.raterCount],
+        ['Mean Cell Agreement (%)', round(stats.meanAgreement * 100, 1)],
+        ["Fleiss' Kappa", stats.fleissKappa === null ? 'n/a' : round(stats.fleissKappa), interpretKappa(stats.fleissKappa)],
+        ["Kendall's W", stats.kendallW === null ? 'n/a' : round(stats.kendallW)],
+        [`Chi-square (df = ${stats.degreesOfFreedom})`, stats.kendallChiSquare === null ? 'n/a' : round(stats.kendallChiSquare, 2)],
+        [],
+        ['Pair (i, j)', 'V', 'A', 'X', 'O', 'Unanswered', 'Modal', 'Agreement (%)'],
+        ...stats.cells.map(cell => [
+          `${factors[cell.i].name}, ${factors[cell.j].name}`,
+          cell.votes.V, cell.votes.A, cell.votes.X, cell.votes.O,
+          cell.unanswered,
+          cell.modalValue,
+          round(cell.agreement * 100, 0),
+        ]),
+        [],
+        ['Driving power by expert', ...factors.map(f => f.name)],
+        ...stats.drivingPowerByExpert.map((row, e) => [experts[e]?.name || '', ...row]),
+      ],
+      boldRows: [pairHeaderRow, pairHeaderRow + stats.cells.length + 2],
+    });
+  }
+
+  const notes: SheetCell[][] = [];
+  const withLabels = annotatedSsims.some(entry => entry.label);
+  annotatedSsims.forEach(entry => factors.forEach((rowFactor, i) => factors.slice(i + 1).forEach(colFactor => {
+    const note = entry.annotations[rowFactor.id]?.[colFactor.id];
+    if (!note) return;
+    notes.push([
+      ...(withLabels ? [entry.label || ''] : []),
+      `${rowFactor.name}, ${colFactor.name}`,
+      entry.ssim[rowFactor.id]?.[colFactor.id] || '',
+      note.confidence ?? null,
+      note.rationale,
+    ]);
+  })));
+  if (notes.length > 0) {
+    sheets.push({
+      name: 'SSIM Annotations',
+      rows: [[...(withLabels ? ['Expert'] : []), 'Cell (i, j)', 'Relation', 'Confidence', 'Rationale'], ...notes],
+      boldRows: [0],
+    });
+  }
+
+  if (references.length > 0) {
+    sheets.push({ name: 'Factor Sources', rows: buildSourceMatrixRows(factors, references), boldRows: [0] });
+  }
+  return sheets;
+};
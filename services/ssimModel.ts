@@ -0,0 +1,260 @@
+import { SSIMValue, SSIMData, SSIMAnnotations, CellAnnotation, ConfidenceLevel } from '../types';
+import { parseCSVRows, detectDelimiter } from './csv';
+import { readXLSX, worksheetText } from './xlsx';
+
+// Version 2 files keep unanswered cells out of the SSIM; older files meant O by a missing cell
+export const SSIM_FILE_VERSION = 2;
+
+const VALID_VALUES = new Set<string>(Object.values(SSIMValue));
+const VALID_CONFIDENCE = new Set<string>(Object.values(ConfidenceLevel));
+
+// The same relation read from the other factor's side
+const REVERSED: Record<SSIMValue, SSIMValue> = {
+  [SSIMValue.V]: SSIMValue.A,
+  [SSIMValue.A]: SSIMValue.V,
+  [SSIMValue.X]: SSIMValue.X,
+  [SSIMValue.O]: SSIMValue.O,
+};
+
+/**
+ * Reads an upper-triangle cell. Returns null while the cell is unanswered,
+ * which is distinct from an explicit O (no relation).
+ */
+export const getSSIMCell = (ssim: SSIMData, rowId: string, colId: string): SSIMValue | null =>
+  ssim[rowId]?.[colId] ?? null;
+
+/**
+ * Reads the relation from one factor to another, whichever way round the cell is stored.
+ */
+export const getSSIMRelation = (ssim: SSIMData, fromId: string, toId: string): SSIMValue | null => {
+  const direct = ssim[fromId]?.[toId];
+  if (direct) return direct;
+  const reverse = ssim[toId]?.[fromId];
+  return reverse ? REVERSED[reverse] : null;
+};
+
+/**
+ * Writes the relation from one factor to another into the upper triangle of the `ids` order.
+ * A null value clears the pair.
+ */
+export const setSSIMRelation = (ssim: SSIMData, ids: string[], fromId: string, toId: string, value: SSIMValue | null): SSIMData => {
+  const flipped = ids.indexOf(fromId) > ids.indexOf(toId);
+  const [rowId, colId] = flipped ? [toId, fromId] : [fromId, toId];
+  const row = { ...(ssim[rowId] || {}) };
+  if (value) row[colId] = flipped ? REVERSED[value] : value;
+  else delete row[colId];
+  const next = { ...ssim, [rowId]: row };
+  if (Object.keys(row).length === 0) delete next[rowId];
+  // Drop a copy stored the other way round
+  if (next[colId]?.[rowId]) {
+    const mirror = { ...next[colId] };
+    delete mirror[rowId];
+    if (Object.keys(mirror).length > 0) next[colId] = mirror;
+    else delete next[colId];
+  }
+  return next;
+};
+
+/**
+ * Drops the cells of factors that are no longer in `ids`. Returns the same object
+ * when nothing had to go, so callers can skip the update.
+ */
+export const pruneOrphanCells = <T>(cells: Record<string, Record<string, T>>, ids: string[]): Record<string, Record<string, T>> => {
+  const known = new Set(ids);
+  const isOrphan = (rowId: string, row: Record<string, T>) => !known.has(rowId) || Object.keys(row).some(colId => !known.has(colId));
+  if (!Object.entries(cells).some(([rowId, row]) => isOrphan(rowId, row))) return cells;
+
+  const next: Record<string, Record<string, T>> = {};
+  Object.entries(cells).forEach(([rowId, row]) => {
+    if (!known.has(rowId)) return;
+    const kept = Object.fromEntries(Object.entries(row).filter(([colId]) => known.has(colId)));
+    if (Object.keys(kept).length > 0) next[rowId] = kept;
+  });
+  return next;
+};
+
+// Moves cells stored below the diagonal of the `ids` order to the mirrored position.
+// Cells of factors missing from `ids` are kept where they are.
+const reorientCells = <T>(cells: Record<string, Record<string, T>>, ids: string[], flip: (value: T) => T) => {
+  const position = new Map(ids.map((id, idx) => [id, idx]));
+  const next: Record<string, Record<string, T>> = {};
+  Object.entries(cells).forEach(([rowId, row]) => {
+    Object.entries(row).forEach(([colId, value]) => {
+      const i = position.get(rowId);
+      const j = position.get(colId);
+      const flipped = i !== undefined && j !== undefined && i > j;
+      const [from, to] = flipped ? [colId, rowId] : [rowId, colId];
+      if (!next[from]) next[from] = {};
+      next[from][to] = flipped ? flip(value) : value;
+    });
+  });
+  return next;
+};
+
+/**
+ * Re-keys an SSIM for a new factor order. Pairs whose order flipped move to the
+ * other triangle with V and A swapped, so every relation keeps its direction.
+ */
+export const reorientSSIM = (ssim: SSIMData, ids: string[]): SSIMData =>
+  reorientCells(ssim, ids, value => REVERSED[value]);
+
+// Notes move with their cell; the text itself is left alone
+export const reorientAnnotations = (annotations: SSIMAnnotations, ids: string[]): SSIMAnnotations =>
+  reorientCells(annotations, ids, note => note);
+
+/**
+ * Sets or clears the annotation of one cell. A note without text or confidence is removed.
+ */
+export const setCellAnnotation = (
+  annotations: SSIMAnnotations,
+  rowId: string,
+  colId: string,
+  annotation: CellAnnotation | null
+): SSIMAnnotations => {
+  const row = { ...(annotations[rowId] || {}) };
+  if (annotation && (annotation.rationale.trim() || annotation.confidence)) row[colId] = annotation;
+  else delete row[colId];
+
+  const next = { ...annotations };
+  if (Object.keys(row).length > 0) next[rowId] = row;
+  else delete next[rowId];
+  return next;
+};
+
+/**
+ * Lists the upper-triangle pairs that have not been answered yet.
+ */
+export const findMissingPairs = (ids: string[], ssim: SSIMData): { i: number; j: number }[] => {
+  const missing: { i: number; j: number }[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      if (getSSIMCell(ssim, ids[i], ids[j]) === null) missing.push({ i, j });
+    }
+  }
+  return missing;
+};
+
+/**
+ * Answered cells per row of the upper triangle (row i has N - 1 - i cells) and overall.
+ */
+export const getSSIMCompletion = (ids: string[], ssim: SSIMData) => {
+  const rows = ids.map((idI, i) => ({
+    answered: ids.slice(i + 1).filter(idJ => getSSIMCell(ssim, idI, idJ) !== null).length,
+    total: ids.length - 1 - i,
+  }));
+  return {
+    rows,
+    answered: rows.reduce((sum, r) => sum + r.answered, 0),
+    total: rows.reduce((sum, r) => sum + r.total, 0),
+  };
+};
+
+// Keeps only well-formed V/A/X/O entries
+const sanitiseSSIM = (raw: any): SSIMData => {
+  const ssim: SSIMData = {};
+  if (!raw || typeof raw !== 'object') return ssim;
+  Object.entries(raw).forEach(([rowId, row]) => {
+    if (!row || typeof row !== 'object') return;
+    Object.entries(row as Record<string, unknown>).forEach(([colId, val]) => {
+      if (typeof val !== 'string' || !VALID_VALUES.has(val)) return;
+      if (!ssim[rowId]) ssim[rowId] = {};
+      ssim[rowId][colId] = val as SSIMValue;
+    });
+  });
+  return ssim;
+};
+
+// Keeps notes that have a rationale or a known confidence level
+export const sanitiseAnnotations = (raw: any): SSIMAnnotations => {
+  let annotations: SSIMAnnotations = {};
+  if (!raw || typeof raw !== 'object') return annotations;
+  Object.entries(raw).forEach(([rowId, row]) => {
+    if (!row || typeof row !== 'object') return;
+    Object.entries(row as Record<string, any>).forEach(([colId, note]) => {
+      if (!note || typeof note !== 'object') return;
+      annotations = setCellAnnotation(annotations, rowId, colId, {
+        rationale: typeof note.rationale === 'string' ? note.rationale : '',
+        confidence: VALID_CONFIDENCE.has(note.confidence) ? note.confidence : undefined,
+      });
+    });
+  });
+  return annotations;
+};
+
+/**
+ * Normalises an SSIM read from a file. Files before version 2 treated a missing
+ * cell as O, so those cells are filled with an explicit O to keep their meaning.
+ */
+export const normaliseImportedSSIM = (raw: any, ids: string[], version?: number): SSIMData => {
+  const ssim = sanitiseSSIM(raw);
+  if (version !== undefined && version >= SSIM_FILE_VERSION) return ssim;
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      if (getSSIMCell(ssim, ids[i], ids[j]) !== null) continue;
+      if (!ssim[ids[i]]) ssim[ids[i]] = {};
+      ssim[ids[i]][ids[j]] = SSIMValue.O;
+    }
+  }
+  return ssim;
+};
+
+/**
+ * Reads a saved SSIM file: the versioned wrapper with its annotations,
+ * or a bare SSIM from older versions.
+ */
+export const parseSSIMFile = (parsed: any, ids: string[]): { ssim: SSIMData; annotations: SSIMAnnotations } | null => {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  if (typeof parsed.version === 'number' && parsed.ssim) {
+    return {
+      ssim: normaliseImportedSSIM(parsed.ssim, ids, parsed.version),
+      annotations: sanitiseAnnotations(parsed.annotations),
+    };
+  }
+  return { ssim: normaliseImportedSSIM(parsed, ids), annotations: {} };
+};
+
+export const serialiseSSIMFile = (ssim: SSIMData, annotations: SSIMAnnotations = {}) =>
+  ({ version: SSIM_FILE_VERSION, ssim, annotations });
+
+/**
+ * Reads an SSIM laid out as a square table: factors along the first row and column,
+ * V/A/X/O in the upper triangle of the table. Factors are named by id, or by code when
+ * `codes` (in the order of `ids`) is given. Only the upper triangle is read; when the
+ * table lists factors in another order than `ids`, cells are turned around to match.
+ * Empty cells stay unanswered.
+ */
+export const parseSSIMTable = (table: string[][], ids: string[], codes: string[] = []): SSIMData => {
+  const [header, ...rows] = table;
+  if (!header) return {};
+  const position = new Map(ids.map((id, idx) => [id, idx]));
+  codes.forEach((code, idx) => { if (!position.has(code)) position.set(code, idx); });
+  const ssim: SSIMData = {};
+  rows.forEach((row, r) => {
+    header.forEach((colLabel, c) => {
+      // Column 0 holds the row labels; the table's own diagonal and lower triangle are skipped
+      if (c === 0 || c <= r + 1) return;
+      const value = (row[c] || '').toUpperCase();
+      const i = position.get(row[0]);
+      const j = position.get(colLabel);
+      if (!VALID_VALUES.has(value) || i === undefined || j === undefined || i === j) return;
+      const [from, to, cell] = i < j ? [ids[i], ids[j], value as SSIMValue] : [ids[j], ids[i], REVERSED[value as SSIMValue]];
+      if (!ssim[from]) ssim[from] = {};
+      ssim[from][to] = cell;
+    });
+  });
+  return ssim;
+};
+
+export const parseSSIMCSV = (text: string, ids: string[], codes?: string[]): SSIMData =>
+  parseSSIMTable(parseCSVRows(text, detectDelimiter(text)), ids, codes);
+
+/**
+ * Reads the SSIM table from a workbook: the sheet named "SSIM", else the first sheet.
+ */
+export const parseSSIMWorkbook = (bytes: Uint8Array, ids: string[], codes?: string[]): SSIMData => {
+  const sheets = readXLSX(bytes);
+  const sheet = sheets.find(s => /ssim/i.test(s.name)) || sheets[0];
+  if (!sheet) throw new Error('The workbook has no sheets.');
+  return parseSSIMTable(worksheetText(sheet), ids, codes);
+};
@@ -0,0 +1,42 @@
+import { StudyMetadata } from '../types';
+
+export const DEFAULT_RELATION_PHRASE = 'leads to';
+
+// Offered as suggestions; any phrase can be typed
+export const RELATION_PHRASES = ['leads to', 'influences', 'aggravates', 'enables', 'contributes to', 'drives'];
+
+export const createStudy = (topic = ''): StudyMetadata => ({
+  topic,
+  relationPhrase: DEFAULT_RELATION_PHRASE,
+  author: '',
+  date: new Date().toISOString().split('T')[0],
+  panelSize: null,
+});
+
+export const sanitiseStudy = (raw: any): StudyMetadata => {
+  const study = createStudy();
+  if (!raw || typeof raw !== 'object') return study;
+  return {
+    topic: typeof raw.topic === 'string' ? raw.topic : study.topic,
+    relationPhrase: typeof raw.relationPhrase === 'string' && raw.relationPhrase.trim() ? raw.relationPhrase : study.relationPhrase,
+    author: typeof raw.author === 'string' ? raw.author : study.author,
+    date: typeof raw.date === 'string' ? raw.date : study.date,
+    panelSize: Number.isInteger(raw.panelSize) && raw.panelSize > 0 ? raw.panelSize : null,
+  };
+};
+
+/**
+ * Label/value pairs for report and export headers. Empty fields are left out;
+ * the panel size falls back to the number of experts when not set.
+ */
+export const describeStudy = (study: StudyMetadata, expertCount = 0): [string, string][] => {
+  const panelSize = study.panelSize ?? (expertCount > 0 ? expertCount : null);
+  const rows: [string, string][] = [
+    ['Topic', study.topic],
+    ['Contextual relation', study.relationPhrase ? `Factor i ${study.relationPhrase} factor j` : ''],
+    ['Author', study.author],
+    ['Date', study.date],
+    ['Panel size', panelSize === null ? '' : String(panelSize)],
+  ];
+  return rows.filter(([, value]) => value !== '');
+};
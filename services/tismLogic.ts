@@ -0,0 +1,55 @@
+import { ISMResult, LinkInterpretations, TISMData, ReachabilityKind } from '../types';
+
+export const EMPTY_TISM: TISMData = {
+  interpretations: {},
+  significantTransitive: {},
+};
+
+export interface TISMLink {
+  source: number; // Factor index
+  target: number;
+  interpretation: string;
+  transitive: boolean; // True for significant transitive links
+}
+
+/**
+ * Immutably sets (or with null, removes) the text of a directed link.
+ */
+export const setLinkText = (
+  links: LinkInterpretations,
+  fromId: string,
+  toId: string,
+  text: string | null
+): LinkInterpretations => {
+  const row = { ...(links[fromId] || {}) };
+  if (text === null) delete row[toId];
+  else row[toId] = text;
+  return { ...links, [fromId]: row };
+};
+
+export const isSignificantTransitive = (tism: TISMData, fromId: string, toId: string) =>
+  tism.significantTransitive[fromId]?.[toId] !== undefined;
+
+export const hasTISMContent = (tism: TISMData) =>
+  Object.values(tism.interpretations).some(row => Object.values(row).some(Boolean)) ||
+  Object.values(tism.significantTransitive).some(row => Object.keys(row).length > 0);
+
+/**
+ * Collects the links of the TISM digraph: every direct link of the initial reachability
+ * matrix plus the transitive links the user kept as significant.
+ */
+export const buildTISMLinks = (result: ISMResult, ids: string[], tism: TISMData): TISMLink[] => {
+  const kinds = result.finalReachabilityKinds;
+  const links: TISMLink[] = [];
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = 0; j < ids.length; j++) {
+      if (kinds[i][j] === ReachabilityKind.DIRECT) {
+        links.push({ source: i, target: j, interpretation: tism.interpretations[ids[i]]?.[ids[j]] || '', transitive: false });
+      } else if (kinds[i][j] === ReachabilityKind.TRANSITIVE && isSignificantTransitive(tism, ids[i], ids[j])) {
+        links.push({ source: i, target: j, interpretation: tism.significantTransitive[ids[i]][ids[j]], transitive: true });
+      }
+    }
+  }
+  return links;
+};
@@ -0,0 +1,176 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { SheetCell, Worksheet } from '../types';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Style 1 is bold; styles.xml below defines exactly these two
+const BOLD_STYLE = 1;
+
+const STYLES_XML = `${XML_HEADER}<styleSheet xmlns="${NS_MAIN}">`
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+  + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+  + '</styleSheet>';
+
+// Characters XML 1.0 cannot hold are dropped
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+    if (entity[0] === '#') return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity]!;
+  });
+
+/**
+ * Column letters of a zero-based index: 0 → A, 25 → Z, 26 → AA.
+ */
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const columnIndex = (letters: string) =>
+  letters.split('').reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Excel limits sheet names to 31 characters without []:*?/\ and requires them to be unique
+const sheetNames = (sheets: Worksheet[]) => {
+  const used = new Set<string>();
+  return sheets.map((sheet, idx) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${idx + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const cellXml = (value: SheetCell, ref: string, bold: boolean) => {
+  if (value === null || value === '') return '';
+  const style = bold ? ` s="${BOLD_STYLE}"` : '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : '';
+  }
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const worksheetXml = (sheet: Worksheet) => {
+  const bold = new Set(sheet.boldRows || []);
+  const width = Math.max(0, ...sheet.rows.map(row => row.length));
+  // Columns fit their longest entry, within reason
+  const cols = Array.from({ length: width }, (_, c) => {
+    const longest = Math.max(4, ...sheet.rows.map(row => String(row[c] ?? '').length));
+    return `<col min="${c + 1}" max="${c + 1}" width="${Math.min(longest + 2, 60)}" customWidth="1"/>`;
+  }).join('');
+  const rows = sheet.rows.map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, bold.has(r))).join('')}</row>`
+  ).join('');
+  return `${XML_HEADER}<worksheet xmlns="${NS_MAIN}">${width > 0 ? `<cols>${cols}</cols>` : ''}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+/**
+ * Builds an Office Open XML workbook with one worksheet per entry. Strings are written
+ * inline, so no shared string table is needed.
+ */
+export const buildXLSX = (sheets: Worksheet[]): Uint8Array => {
+  const names = sheetNames(sheets);
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(`${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + sheets.map((_, idx) => `<Override PartName="/xl/worksheets/sheet${idx + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+      + '</Types>'),
+    '_rels/.rels': strToU8(`${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">`
+      + `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+    'xl/workbook.xml': strToU8(`${XML_HEADER}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>`
+      + names.map((name, idx) => `<sheet name="${escapeXml(name)}" sheetId="${idx + 1}" r:id="rId${idx + 1}"/>`).join('')
+      + '</sheets></workbook>'),
+    'xl/_rels/workbook.xml.rels': strToU8(`${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">`
+      + sheets.map((_, idx) => `<Relationship Id="rId${idx + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${idx + 1}.xml"/>`).join('')
+      + `<Relationship Id="rId${sheets.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/></Relationships>`),
+    'xl/styles.xml': strToU8(STYLES_XML),
+  };
+  sheets.forEach((sheet, idx) => { files[`xl/worksheets/sheet${idx + 1}.xml`] = strToU8(worksheetXml(sheet)); });
+  return zipSync(files, { level: 6 });
+};
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+
+// Text of every <t> element, which covers plain and rich-text strings
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => unescapeXml(match[1])).join('');
+
+/**
+ * Reads the worksheets of an .xlsx workbook as rows of cell values: numbers stay
+ * numbers, booleans become TRUE/FALSE, empty cells are null. Formulas give their
+ * cached value.
+ */
+export const readXLSX = (bytes: Uint8Array): Worksheet[] => {
+  const files = unzipSync(bytes);
+  const read = (path: string) => (files[path] ? strFromU8(files[path]) : null);
+  const workbook = read('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook.');
+
+  const targets = new Map<string, string>();
+  Array.from((read('xl/_rels/workbook.xml.rels') || '').matchAll(/<Relationship\b([^>]*)\/?>/g)).forEach(([, attrs]) => {
+    const id = attribute(attrs, 'Id');
+    const target = attribute(attrs, 'Target');
+    if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  });
+  const sharedStrings = Array.from((read('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)).map(([, si]) => textRuns(si));
+
+  return Array.from(workbook.matchAll(/<sheet\b([^>]*)\/?>/g)).map(([, attrs]) => {
+    const name = unescapeXml(attribute(attrs, 'name') || '');
+    const path = targets.get(attribute(attrs, 'r:id') || '');
+    const xml = (path && read(path)) || '';
+    const rows: SheetCell[][] = [];
+    Array.from(xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)).forEach(([, rowAttrs, content], idx) => {
+      const r = Number(attribute(rowAttrs, 'r')) - 1;
+      const rowIndex = Number.isInteger(r) && r >= 0 ? r : idx;
+      const row: SheetCell[] = [];
+      Array.from((content || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)).forEach(([, cellAttrs, inner]) => {
+        const ref = attribute(cellAttrs, 'r');
+        const column = ref ? columnIndex(ref.replace(/\d+$/, '')) : row.length;
+        const type = attribute(cellAttrs, 't');
+        const v = inner?.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+        let value: SheetCell = null;
+        if (type === 'inlineStr') value = textRuns(inner || '');
+        else if (v === undefined) value = null;
+        else if (type === 's') value = sharedStrings[Number(v)] ?? '';
+        else if (type === 'b') value = v === '1' ? 'TRUE' : 'FALSE';
+        else if (type === 'str' || type === 'e') value = unescapeXml(v);
+        else value = Number.isNaN(Number(v)) ? unescapeXml(v) : Number(v);
+        while (row.length < column) row.push(null);
+        row[column] = value;
+      });
+      rows[rowIndex] = row;
+    });
+    return { name, rows: Array.from(rows, row => row || []) };
+  });
+};
+
+/**
+ * A worksheet's rows as trimmed text, the way CSV rows are read. Blank rows are skipped.
+ */
+export const worksheetText = (sheet: Worksheet): string[][] =>
+  sheet.rows
+    .map(row => Array.from(row, value => (value === null || value === undefined ? '' : String(value).trim())))
+    .filter(row => row.some(value => value !== ''));
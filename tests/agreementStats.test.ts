@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExpertResponse, SSIMValue } from '../types';
+import { computeCellAgreement, computeFleissKappa, meanCellAgreement } from '../services/agreementStats';
+import { aggregateExpertSSIMs, DEFAULT_AGGREGATION_SETTINGS } from '../services/expertAggregation';
+
+const { V, A, X, O } = SSIMValue;
+const ids = ['F1', 'F2', 'F3'];
+const expert = (id: string, ssim: ExpertResponse['ssim']): ExpertResponse => ({ id, name: id, ssim });
+
+describe('agreement with unanswered cells', () => {
+  const experts = [
+    expert('e1', { F1: { F2: V, F3: X }, F2: { F3: A } }),
+    expert('e2', { F1: { F2: V, F3: X }, F2: { F3: O } }),
+    expert('e3', { F1: { F3: X } }),
+  ];
+
+  it('leaves blank entries out of the votes and the shares', () => {
+    const [f1f2, f1f3, f2f3] = computeCellAgreement(ids, experts);
+    assert.deepEqual(f1f2.votes, { V: 2, A: 0, X: 0, O: 0 });
+    assert.equal(f1f2.unanswered, 1);
+    assert.equal(f1f2.agreement, 1);
+    assert.equal(f1f3.unanswered, 0);
+    assert.deepEqual(f2f3.votes, { V: 0, A: 1, X: 0, O: 1 });
+    assert.equal(f2f3.agreement, 0.5);
+  });
+
+  it('has no modal value for a cell nobody answered, and skips it in the mean', () => {
+    const cells = computeCellAgreement(ids, [expert('e1', { F1: { F2: V } }), expert('e2', { F1: { F2: V } })]);
+    assert.deepEqual(cells.map(c => c.modalValue), [V, null, null]);
+    assert.equal(meanCellAgreement(cells), 1);
+  });
+
+  it('computes kappa over answered ratings only', () => {
+    // Blanks would otherwise add O votes that pull the chance agreement around
+    const complete = computeCellAgreement(ids, [
+      expert('e1', { F1: { F2: V, F3: X }, F2: { F3: A } }),
+      expert('e2', { F1: { F2: V, F3: X }, F2: { F3: A } }),
+    ]);
+    assert.equal(computeFleissKappa(complete), 1);
+    const partial = computeCellAgreement(ids, [
+      expert('e1', { F1: { F2: V, F3: X }, F2: { F3: A } }),
+      expert('e2', { F1: { F2: V, F3: X }, F2: { F3: A } }),
+      expert('e3', { F1: { F2: V } }),
+    ]);
+    assert.equal(computeFleissKappa(partial), 1);
+    assert.equal(computeFleissKappa(computeCellAgreement(ids, [expert('e1', {}), expert('e2', {})])), null);
+  });
+
+  it('reports blanks in the aggregate decision and keeps the cell unanswered', () => {
+    const { ssim, decisions } = aggregateExpertSSIMs(ids, experts, DEFAULT_AGGREGATION_SETTINGS);
+    assert.equal(decisions.F1.F2.unanswered, 1);
+    assert.equal(decisions.F1.F2.agreement, 1);
+    assert.equal(ssim.F1?.F2, undefined);
+    assert.equal(ssim.F1?.F3, X);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSIMData, SSIMValue } from '../types';
+import { findTransitivityViolations } from '../services/consistencyCheck';
+
+const { V, A, X, O } = SSIMValue;
+
+describe('findTransitivityViolations', () => {
+  it('reports an O cell that a chain of links overrides', () => {
+    const ssim: SSIMData = { F1: { F2: V, F3: O }, F2: { F3: V } };
+    assert.deepEqual(findTransitivityViolations(['F1', 'F2', 'F3'], ssim), [
+      { i: 0, j: 2, from: 0, to: 2, stated: O, path: [0, 1, 2] },
+    ]);
+  });
+
+  it('reports links added against the stated direction', () => {
+    // F3 -> F1 closes a cycle, so every factor reaches the other two
+    const ssim: SSIMData = { F1: { F2: V, F3: A }, F2: { F3: V } };
+    assert.deepEqual(findTransitivityViolations(['F1', 'F2', 'F3'], ssim), [
+      { i: 0, j: 1, from: 1, to: 0, stated: V, path: [1, 2, 0] },
+      { i: 0, j: 2, from: 0, to: 2, stated: A, path: [0, 1, 2] },
+      { i: 1, j: 2, from: 2, to: 1, stated: V, path: [2, 0, 1] },
+    ]);
+  });
+
+  it('ignores unanswered cells and consistent answers', () => {
+    assert.deepEqual(findTransitivityViolations(['F1', 'F2', 'F3'], { F1: { F2: V }, F2: { F3: V } }), []);
+    assert.deepEqual(findTransitivityViolations(['F1', 'F2', 'F3'], { F1: { F2: V, F3: V }, F2: { F3: X } }), []);
+  });
+
+  it('traces the shortest chain', () => {
+    // F1 reaches F5 through F2, F3 and F4, but F1 -> F4 -> F5 is shorter
+    const ssim: SSIMData = { F1: { F2: V, F4: V, F5: O }, F2: { F3: V }, F3: { F4: V }, F4: { F5: V } };
+    assert.deepEqual(findTransitivityViolations(['F1', 'F2', 'F3', 'F4', 'F5'], ssim), [
+      { i: 0, j: 4, from: 0, to: 4, stated: O, path: [0, 3, 4] },
+    ]);
+  });
+});
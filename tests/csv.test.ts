@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCSVRows, detectDelimiter, toCSV } from '../services/csv';
+
+describe('parseCSVRows', () => {
+  it('reads quoted cells with delimiters, doubled quotes and line breaks', () => {
+    const text = 'code,description\nF1,"Cost, time and ""scope"" creep"\nF2,"Two\nlines"\n';
+    assert.deepEqual(parseCSVRows(text), [
+      ['code', 'description'],
+      ['F1', 'Cost, time and "scope" creep'],
+      ['F2', 'Two\nlines'],
+    ]);
+  });
+
+  it('handles CRLF line ends, blank lines and a trailing cell without a newline', () => {
+    assert.deepEqual(parseCSVRows('a,b\r\n\r\n , \r\nc, d '), [['a', 'b'], ['c', 'd']]);
+  });
+
+  it('drops a byte order mark left at the start of the text', () => {
+    assert.deepEqual(parseCSVRows('﻿id,name\nF1,Cost'), [['id', 'name'], ['F1', 'Cost']]);
+    assert.deepEqual(parseCSVRows('﻿"id",name'), [['id', 'name']]);
+  });
+
+  it('splits on another delimiter when given one', () => {
+    assert.deepEqual(parseCSVRows('F1;"1,5";Cost\nF2;2;"a;b"', ';'), [['F1', '1,5', 'Cost'], ['F2', '2', 'a;b']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits the rows consistently', () => {
+    assert.equal(detectDelimiter('code;description\nF1;Cost, time\nF2;Skills'), ';');
+    assert.equal(detectDelimiter('code\tdescription\nF1\tCost'), '\t');
+    assert.equal(detectDelimiter('code,description\nF1,Cost'), ',');
+    assert.equal(detectDelimiter('F1'), ',');
+  });
+});
+
+describe('toCSV', () => {
+  it('quotes cells that need it and reads back the same', () => {
+    const rows = [['id', 'note'], ['F1', 'a, "b"\nc'], ['F2', '3']];
+    assert.deepEqual(parseCSVRows(toCSV(rows)), rows);
+  });
+});
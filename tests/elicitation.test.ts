@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSIMValue } from '../types';
+import { inferRelations, nextQuestion, allowedValues, countDecided, knowledgeToSSIM, answersFromSSIM } from '../services/elicitation';
+
+const { V, A, X, O } = SSIMValue;
+const ids = ['F1', 'F2', 'F3', 'F4'];
+
+describe('inferRelations', () => {
+  it('propagates influence along chains', () => {
+    // F1 -> F2 -> F3 -> F4, each a V cell, decides the whole upper triangle
+    const known = inferRelations(4, [{ i: 0, j: 1, value: V }, { i: 1, j: 2, value: V }, { i: 2, j: 3, value: V }]);
+    assert.deepEqual([known[0][3], known[3][0]], [1, 0]);
+    assert.deepEqual([known[0][2], known[2][0]], [1, 0]);
+  });
+
+  it('propagates non-influence back along chains', () => {
+    // F1 -> F2 and F1 -/-> F3 give F2 -/-> F3; F2 -> F3 would otherwise imply F1 -> F3
+    const known = inferRelations(3, [{ i: 0, j: 1, value: V }, { i: 0, j: 2, value: O }]);
+    assert.equal(known[1][2], 0);
+    assert.equal(known[2][1], null);
+  });
+
+  it('closes cycles through X', () => {
+    const known = inferRelations(3, [{ i: 0, j: 1, value: X }, { i: 1, j: 2, value: X }]);
+    assert.deepEqual([known[0][2], known[2][0]], [1, 1]);
+  });
+});
+
+describe('questions', () => {
+  it('asks one question per SSIM cell and offers only consistent values', () => {
+    const known = inferRelations(3, [{ i: 0, j: 1, value: V }, { i: 0, j: 2, value: O }]);
+    assert.deepEqual(nextQuestion(known), { i: 1, j: 2 });
+    // F2 -/-> F3 is already decided, so only A and O remain
+    assert.deepEqual(allowedValues(known, 1, 2), [A, O]);
+    assert.deepEqual(allowedValues(inferRelations(3, []), 0, 1), [V, A, X, O]);
+    assert.equal(nextQuestion(inferRelations(2, [{ i: 0, j: 1, value: A }])), null);
+  });
+
+  it('needs at most N(N-1)/2 questions', () => {
+    let answers: { i: number; j: number; value: SSIMValue }[] = [];
+    for (let q = nextQuestion(inferRelations(4, answers)); q; q = nextQuestion(inferRelations(4, answers))) {
+      answers = [...answers, { ...q, value: O }];
+    }
+    assert.equal(answers.length, 6);
+    assert.equal(countDecided(inferRelations(4, answers)), 6);
+  });
+});
+
+describe('knowledgeToSSIM', () => {
+  it('writes decided cells and marks the ones that were not asked as inferred', () => {
+    const answers = [{ i: 0, j: 1, value: V }, { i: 1, j: 2, value: V }];
+    const { ssim, inferred } = knowledgeToSSIM(ids.slice(0, 3), inferRelations(3, answers), answers);
+    assert.deepEqual(ssim, { F1: { F2: V, F3: V }, F2: { F3: V } });
+    assert.deepEqual(inferred, ['F1|F3']);
+  });
+
+  it('leaves cells with an open direction unwritten', () => {
+    // F1 -/-> F2 and F1 -> F3 only settle F2/F3 in one direction
+    const answers = [{ i: 0, j: 1, value: O }, { i: 0, j: 2, value: V }];
+    const { ssim } = knowledgeToSSIM(ids.slice(0, 3), inferRelations(3, answers), answers);
+    assert.deepEqual(ssim, { F1: { F2: O, F3: V } });
+  });
+
+  it('starts from the answered SSIM cells and leaves them out of the result', () => {
+    const given = answersFromSSIM(ids, { F1: { F2: V }, F2: { F3: V }, F3: { F4: O } });
+    assert.deepEqual(given, [{ i: 0, j: 1, value: V }, { i: 1, j: 2, value: V }, { i: 2, j: 3, value: O }]);
+    const known = inferRelations(4, given);
+    // The chain decides F1/F3 before anything is asked; the next question is F1/F4
+    assert.deepEqual(nextQuestion(known), { i: 0, j: 3 });
+    const answers = [{ i: 0, j: 3, value: O }];
+    const { ssim, inferred } = knowledgeToSSIM(ids, inferRelations(4, [...given, ...answers]), answers, given);
+    assert.equal(ssim.F1?.F2, undefined);
+    assert.equal(ssim.F1?.F3, V);
+    assert.equal(ssim.F1?.F4, O);
+    assert.ok(inferred.includes('F1|F3'));
+    assert.ok(!inferred.includes('F1|F4'));
+  });
+});
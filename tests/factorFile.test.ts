@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeText, readFactorTable, guessColumnMapping, validateFactorImport, mergeImportedFactors, parseFactorFile } from '../services/factorFile';
+import { detectDelimiter } from '../services/csv';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('reading factor files', () => {
+  it('detects semicolons and keeps quoted line breaks', () => {
+    const text = 'Code;Beschreibung;Kategorie\nF1;"Hohe Kosten; lange\nLieferzeiten";Cost\nF2;Wissen, Schulung;Knowledge\n';
+    assert.equal(detectDelimiter(text), ';');
+    const table = readFactorTable(utf8(text), 'factors.csv');
+    assert.equal(table.hasHeader, true);
+    assert.equal(table.rows[0][1], 'Hohe Kosten; lange\nLieferzeiten');
+    assert.equal(table.rows[1][1], 'Wissen, Schulung');
+  });
+
+  it('falls back to Windows-1252 when the bytes are not UTF-8', () => {
+    const bytes = new Uint8Array([0x46, 0x31, 0x2c, 0x43, 0x61, 0x66, 0xe9]); // "F1,Café"
+    assert.deepEqual(decodeText(bytes), { text: 'F1,Café', encoding: 'windows-1252' });
+    assert.equal(decodeText(utf8('\uFEFFF1')).text, 'F1');
+  });
+
+  it('maps columns by position when there is no header', () => {
+    const table = readFactorTable(utf8('F1,Cost overrun,Cost\nF2,Skills gap,Knowledge'), 'factors.csv');
+    assert.equal(table.hasHeader, false);
+    assert.deepEqual(guessColumnMapping(table), { id: null, name: 0, description: 1, category: 2 });
+    assert.deepEqual(validateFactorImport(table, guessColumnMapping(table)).factors.map(f => f.id), ['F1', 'F2']);
+  });
+
+  it('reads a JSON list of factors through the same mapping', () => {
+    const { factors, issues } = parseFactorFile(utf8(JSON.stringify([{ id: 'a', name: 'F1', description: 'Cost' }])), 'factors.json');
+    assert.deepEqual(factors, [{ id: 'a', name: 'F1', description: 'Cost' }]);
+    assert.deepEqual(issues, []);
+  });
+});
+
+describe('validateFactorImport', () => {
+  it('reports empty codes, duplicates, missing descriptions and new categories', () => {
+    const text = 'id,name,description,category\na,F1,Cost,cost\na,F2,Time,Planning\nb,,Orphan,Cost\nc,f1,,Cost';
+    const table = readFactorTable(utf8(text), 'factors.csv');
+    const { factors, issues } = validateFactorImport(table, guessColumnMapping(table), ['Cost']);
+    assert.deepEqual(factors.map(f => f.name), ['F1', 'F2', 'f1']);
+    assert.equal(factors[0].category, 'Cost');
+    assert.notEqual(factors[1].id, 'a');
+    assert.deepEqual(issues.map(i => [i.row, i.severity]), [
+      [3, 'warning'], [3, 'warning'], [4, 'error'], [5, 'warning'], [5, 'warning'],
+    ]);
+  });
+
+  it('needs a code column', () => {
+    const table = readFactorTable(utf8('description\nCost'), 'factors.csv');
+    const { factors, issues } = validateFactorImport(table, guessColumnMapping(table));
+    assert.equal(factors.length, 0);
+    assert.equal(issues[0].severity, 'error');
+  });
+});
+
+describe('mergeImportedFactors', () => {
+  it('updates matches by ID or code and appends the rest', () => {
+    const existing = [{ id: 'x', name: 'F1', description: 'Old', references: ['r'] }, { id: 'y', name: 'F2', description: 'Keep' }];
+    const { factors, added, updated } = mergeImportedFactors(existing, [
+      { id: 'new1', name: 'f1', description: 'New' },
+      { id: 'y', name: 'F2', description: '' },
+      { id: 'new2', name: 'F3', description: 'Added' },
+    ]);
+    assert.deepEqual(factors, [
+      { id: 'x', name: 'f1', description: 'New', references: ['r'] },
+      { id: 'y', name: 'F2', description: 'Keep' },
+      { id: 'new2', name: 'F3', description: 'Added' },
+    ]);
+    assert.deepEqual([added, updated], [1, 2]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSIMData, SSIMValue, SSIMAnnotations, ConfidenceLevel, FuzzyInfluenceData, FuzzyRating } from '../types';
+import {
+  combineRelations, findMergeConflicts, mergeFactorSSIM, splitFactorSSIM,
+  mergeFactorAnnotations, mergeFactorRatings, mergeFactorTISM, splitFactorCells,
+} from '../services/factorRestructure';
+import { pruneOrphanCells } from '../services/ssimModel';
+
+const { V, A, X, O } = SSIMValue;
+const factorsOf = (...ids: string[]) => ids.map(id => ({ id, name: id }));
+
+// F1 -> F2, F1 -> F3, F3 -> F2, F3 <-> F4
+const ssim: SSIMData = { F1: { F2: V, F3: V, F4: O }, F2: { F3: A, F4: O }, F3: { F4: X } };
+
+describe('combineRelations', () => {
+  it('takes the union of the directions', () => {
+    assert.equal(combineRelations([V, A]), X);
+    assert.equal(combineRelations([V, O]), V);
+    assert.equal(combineRelations([O, O]), O);
+    assert.equal(combineRelations([null, A]), A);
+    assert.equal(combineRelations([null, null]), null);
+  });
+});
+
+describe('merging factors', () => {
+  it('reports only the factors the sources disagree on', () => {
+    const conflicts = findMergeConflicts(ssim, factorsOf('F1', 'F2', 'F3', 'F4'), ['F2', 'F3']);
+    assert.deepEqual(conflicts, [{
+      otherId: 'F4',
+      options: [{ sourceId: 'F2', value: O }, { sourceId: 'F3', value: X }],
+      suggested: X,
+    }]);
+  });
+
+  it('combines the relations and applies the chosen resolutions', () => {
+    const ids = ['F1', 'M', 'F4'];
+    assert.deepEqual(mergeFactorSSIM(ssim, ids, ['F2', 'F3'], 'M'), { F1: { F4: O, M: V }, M: { F4: X } });
+    assert.deepEqual(mergeFactorSSIM(ssim, ids, ['F2', 'F3'], 'M', { F4: O }), { F1: { F4: O, M: V }, M: { F4: O } });
+  });
+});
+
+describe('splitting a factor', () => {
+  it('copies the parent relations to every child and leaves the children unrelated', () => {
+    const split = splitFactorSSIM(ssim, ['F1', 'a', 'b', 'F3', 'F4'], 'F2', ['a', 'b']);
+    assert.deepEqual(split, {
+      F1: { F3: V, F4: O, a: V, b: V },
+      F3: { F4: X },
+      a: { F3: A, F4: O },
+      b: { F3: A, F4: O },
+    });
+  });
+});
+
+describe('pruneOrphanCells', () => {
+  it('drops cells of removed factors', () => {
+    assert.deepEqual(pruneOrphanCells(ssim, ['F1', 'F3']), { F1: { F3: V } });
+  });
+
+  it('returns the same object when nothing is orphaned', () => {
+    assert.equal(pruneOrphanCells(ssim, ['F1', 'F2', 'F3', 'F4']), ssim);
+  });
+});
+
+describe('notes, ratings and TISM texts', () => {
+  const { HIGH, LOW, MEDIUM } = FuzzyRating;
+
+  it('joins the notes of the merged factors on each pair', () => {
+    const annotations: SSIMAnnotations = {
+      F1: { F2: { rationale: 'Budget', confidence: ConfidenceLevel.HIGH }, F3: { rationale: 'Staff', confidence: ConfidenceLevel.LOW } },
+      F3: { F4: { rationale: 'Rules' } },
+      F2: { F3: { rationale: 'Between the sources' } },
+    };
+    // F2 was the column of (F1, F2) and F3 the row of (F3, F4); M sits between F1 and F4
+    assert.deepEqual(mergeFactorAnnotations(annotations, ['F1', 'M', 'F4'], ['F2', 'F3'], 'M'), {
+      F1: { M: { rationale: 'Budget\nStaff' } },
+      M: { F4: { rationale: 'Rules' } },
+    });
+    // Notes stored on either side of the diagonal still meet on one cell
+    const mirrored: SSIMAnnotations = { F2: { F4: { rationale: 'Funds' } }, F4: { F3: { rationale: 'Staff' } } };
+    assert.deepEqual(mergeFactorAnnotations(mirrored, ['F4', 'M'], ['F2', 'F3'], 'M'), { F4: { M: { rationale: 'Funds\nStaff' } } });
+  });
+
+  it('keeps the strongest rating and both interpretations of the sources', () => {
+    const ratings: FuzzyInfluenceData = { F1: { F2: LOW, F3: HIGH }, F2: { F4: MEDIUM, F3: HIGH } };
+    assert.deepEqual(mergeFactorRatings(ratings, ['F2', 'F3'], 'M'), { F1: { M: HIGH }, M: { F4: MEDIUM } });
+
+    const tism = { interpretations: { F2: { F4: 'Funds' }, F3: { F4: 'Staff' } }, significantTransitive: { F1: { F3: '' } } };
+    assert.deepEqual(mergeFactorTISM(tism, ['F2', 'F3'], 'M'), {
+      interpretations: { M: { F4: 'Funds / Staff' } },
+      significantTransitive: { F1: { M: '' } },
+    });
+  });
+
+  it('copies the parent cells to every child in both directions', () => {
+    const ratings: FuzzyInfluenceData = { F1: { F2: LOW }, F2: { F3: HIGH }, F3: { F4: MEDIUM } };
+    assert.deepEqual(splitFactorCells(ratings, 'F2', ['a', 'b']), {
+      F1: { a: LOW, b: LOW },
+      a: { F3: HIGH },
+      b: { F3: HIGH },
+      F3: { F4: MEDIUM },
+    });
+  });
+});
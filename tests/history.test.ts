@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EditableDocument, FuzzyRating, SSIMValue } from '../types';
+import { EMPTY_HISTORY, GROUP_WINDOW_MS, HISTORY_LIMIT, describeChange, recordChange, undoChange, redoChange, travelHistory } from '../services/history';
+import { setSSIMRelation } from '../services/ssimModel';
+import { EMPTY_TISM } from '../services/tismLogic';
+
+const { V, A } = SSIMValue;
+const factors = [{ id: 'F1', name: 'Cost' }, { id: 'F2', name: 'Skills' }, { id: 'F3', name: 'Policy' }];
+const ids = factors.map(f => f.id);
+const base: EditableDocument = { factors, ssim: {}, rounds: [], annotations: {}, fuzzyRatings: {}, tism: EMPTY_TISM };
+
+const withCell = (doc: EditableDocument, from: string, to: string, value: SSIMValue | null): EditableDocument =>
+  ({ ...doc, ssim: setSSIMRelation(doc.ssim, ids, from, to, value) });
+
+describe('describeChange', () => {
+  it('names single cell edits and ignores content-equal documents', () => {
+    assert.equal(describeChange(base, withCell(base, 'F1', 'F2', V))?.label, 'Set (Cost, Skills) to V');
+    assert.equal(describeChange(base, { ...base, ssim: {} }), null);
+  });
+
+  it('covers notes, fuzzy ratings and TISM texts', () => {
+    const noted = { ...base, annotations: { F1: { F2: { rationale: 'Budget limits training' } } } };
+    assert.deepEqual(describeChange(base, noted), { label: 'Edit note (Cost, Skills)', group: 'note:F1|F2' });
+    const rated = { ...base, fuzzyRatings: { F2: { F1: FuzzyRating.HIGH } } };
+    assert.equal(describeChange(base, rated)?.label, 'Edit fuzzy rating (Skills, Cost)');
+    const explained = { ...base, tism: { ...EMPTY_TISM, interpretations: { F1: { F3: 'Lobbying' } } } };
+    assert.equal(describeChange(base, explained)?.label, 'Edit interpretation (Cost, Policy)');
+  });
+
+  it('leaves cells of removed factors to the factor change', () => {
+    const deleted = { ...base, factors: factors.slice(0, 2), annotations: {} };
+    const noted = { ...base, annotations: { F1: { F3: { rationale: 'x' } } } };
+    assert.equal(describeChange(noted, deleted)?.label, 'Delete factor Policy');
+  });
+});
+
+describe('recordChange', () => {
+  it('merges edits of one cell within the grouping window', () => {
+    const a = withCell(base, 'F1', 'F2', V);
+    const b = withCell(a, 'F1', 'F2', A);
+    let history = recordChange(EMPTY_HISTORY, base, a, 1000);
+    history = recordChange(history, a, b, 1000 + GROUP_WINDOW_MS - 1);
+    assert.equal(history.past.length, 1);
+    assert.equal(history.past[0].label, 'Set (Cost, Skills) to A');
+    assert.equal(history.past[0].state, base);
+    assert.equal(history.past[0].at, 1000 + GROUP_WINDOW_MS - 1);
+  });
+
+  it('starts a new step after the window or for another group', () => {
+    const a = withCell(base, 'F1', 'F2', V);
+    const b = withCell(a, 'F1', 'F2', A);
+    const late = recordChange(recordChange(EMPTY_HISTORY, base, a, 1000), a, b, 1000 + GROUP_WINDOW_MS);
+    assert.equal(late.past.length, 2);
+    const c = withCell(a, 'F2', 'F3', V);
+    const other = recordChange(recordChange(EMPTY_HISTORY, base, a, 1000), a, c, 1001);
+    assert.equal(other.past.length, 2);
+  });
+
+  it(`keeps the latest ${HISTORY_LIMIT} steps`, () => {
+    let history = EMPTY_HISTORY;
+    let doc = base;
+    for (let n = 0; n < HISTORY_LIMIT + 5; n++) {
+      const next = { ...doc, factors: [...doc.factors, { id: `N${n}`, name: `New ${n}` }] };
+      history = recordChange(history, doc, next, n * GROUP_WINDOW_MS * 2);
+      doc = next;
+    }
+    assert.equal(history.past.length, HISTORY_LIMIT);
+    assert.equal(history.past[0].label, 'Add factor New 5');
+  });
+
+  it('clears the redo stack', () => {
+    const a = withCell(base, 'F1', 'F2', V);
+    const history = recordChange(EMPTY_HISTORY, base, a, 0);
+    const undone = undoChange(history, a)!;
+    assert.equal(undone.history.future.length, 1);
+    const c = withCell(base, 'F2', 'F3', V);
+    assert.equal(recordChange(undone.history, base, c, 10).future.length, 0);
+  });
+});
+
+describe('undo and redo', () => {
+  const a = withCell(base, 'F1', 'F2', V);
+  const b = { ...a, annotations: { F1: { F2: { rationale: 'Budget limits training' } } } };
+  const c = { ...b, factors: factors.slice(0, 2) };
+  const history = [[base, a], [a, b], [b, c]].reduce((h, [prev, next], n) => recordChange(h, prev, next, n * 10_000), EMPTY_HISTORY);
+
+  it('restores each step and back', () => {
+    const undone = undoChange(history, c)!;
+    assert.equal(undone.state, b);
+    assert.equal(undone.state.annotations.F1.F2.rationale, 'Budget limits training');
+    const redone = redoChange(undone.history, undone.state)!;
+    assert.equal(redone.state, c);
+    assert.equal(redone.history.past.length, 3);
+    assert.equal(redoChange(redone.history, c), null);
+    assert.equal(undoChange(EMPTY_HISTORY, base), null);
+  });
+
+  it('travels several steps and stops at the ends', () => {
+    const back = travelHistory(history, c, -2);
+    assert.equal(back.state, a);
+    assert.deepEqual(back.history.future.map(e => e.state), [b, c]);
+    assert.equal(travelHistory(back.history, back.state, 5).state, c);
+    assert.equal(travelHistory(history, c, -10).state, base);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Runs the command-line runner the way `npm run ism` does
+const runCli = (args: string[]) =>
+  spawnSync(process.execPath, ['--import', 'tsx', 'scripts/ism-cli.ts', ...args], { encoding: 'utf8', timeout: 60000 });
+
+describe('ism command line', () => {
+  let dir: string;
+  const file = (name: string, content: string) => {
+    writeFileSync(join(dir, name), content);
+    return join(dir, name);
+  };
+
+  before(() => { dir = mkdtempSync(join(tmpdir(), 'ism-cli-')); });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('analyses a semicolon factor file with a byte order mark and a CSV SSIM', () => {
+    const factors = file('factors.csv', '﻿code;description\nF1;"Funding; budget"\nF2;Skills\nF3;Adoption\n');
+    const ssim = file('ssim.csv', ',F1,F2,F3\nF1,,V,V\nF2,,,V\nF3,,,\n');
+    const out = join(dir, 'out');
+    const run = runCli(['--factors', factors, '--ssim', ssim, '--out', out, '--format', 'json']);
+    assert.equal(run.status, 0, run.stderr);
+    const result = JSON.parse(readFileSync(join(out, 'result.json'), 'utf8'));
+    assert.equal(result.factors[0].description, 'Funding; budget');
+    assert.deepEqual(result.levels, [{ level: 1, factors: ['F3'] }, { level: 2, factors: ['F2'] }, { level: 3, factors: ['F1'] }]);
+  });
+
+  it('refuses an SSIM with unanswered pairs', () => {
+    const factors = file('factors.csv', 'code,description\nF1,Funding\nF2,Skills\nF3,Adoption\n');
+    const ssim = file('partial.json', JSON.stringify({ version: 2, ssim: { F1: { F2: 'V' } } }));
+    const run = runCli(['--factors', factors, '--ssim', ssim, '--out', join(dir, 'partial')]);
+    assert.equal(run.status, 1);
+    assert.match(run.stderr, /2 SSIM cell\(s\) unanswered: \(F1, F3\), \(F2, F3\)/);
+  });
+
+  it('reports factor rows it skips and fails without factors', () => {
+    const factors = file('empty.csv', 'code,description\n,No code\n');
+    const ssim = file('ssim.json', '{}');
+    const run = runCli(['--factors', factors, '--ssim', ssim]);
+    assert.equal(run.status, 1);
+    assert.match(run.stderr, /row 2: error: Empty factor code/);
+    assert.match(run.stderr, /no factors in/);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { zipSync, strToU8 } from 'fflate';
+import { AppStep, AggregationMethod, ProjectSnapshot, SSIMValue } from '../types';
+import { encodeProjectFile, decodeProjectFile, readProject, createEmptySnapshot, PROJECT_FILE_VERSION } from '../services/projectFile';
+import { createStudy } from '../services/study';
+import { createReference } from '../services/references';
+import { runISMAnalysis } from '../services/ismLogic';
+
+const { V, A, X, O } = SSIMValue;
+const factors = [
+  { id: 'f1', name: 'F1', description: 'Funding' },
+  { id: 'f2', name: 'F2', description: 'Skills', category: 'People' },
+  { id: 'f3', name: 'F3', description: 'Adoption' },
+];
+const ids = factors.map(f => f.id);
+
+const json = (value: unknown) => strToU8(JSON.stringify(value));
+
+describe('project file', () => {
+  it('round-trips a current project through the archive', () => {
+    const reference = createReference({ key: 'smith2020', authors: 'Smith, John', year: '2020', title: 'Barriers' });
+    const ssim = { f1: { f2: V, f3: V }, f2: { f3: A } };
+    const snapshot: ProjectSnapshot = {
+      ...createEmptySnapshot({ ...createStudy('BIM adoption'), author: 'A. Author', date: '2026-01-15', panelSize: 12 }),
+      step: AppStep.ANALYSIS_RESULT,
+      factors: [{ ...factors[0], references: [reference.id] }, factors[1], factors[2]],
+      references: [reference],
+      ssim,
+      annotations: { f1: { f2: { rationale: 'Budget drives training' } } },
+      rounds: [{ number: 1, experts: [{ id: 'e1', name: 'Expert 1', ssim: { f1: { f2: X } }, annotations: {} }], feedback: 'Round one' }],
+      aggregationSettings: { method: AggregationMethod.THRESHOLD, threshold: 0.7, tieBreak: 'inclusive' },
+      tism: { interpretations: { f1: { f2: 'by paying for courses' } }, significantTransitive: {} },
+      result: runISMAnalysis(3, ids, ssim),
+    };
+    const restored = decodeProjectFile(encodeProjectFile(snapshot));
+    assert.deepEqual(JSON.parse(JSON.stringify(restored)), JSON.parse(JSON.stringify(snapshot)));
+  });
+
+  it('accepts the project JSON without the archive', () => {
+    const snapshot = { ...createEmptySnapshot(createStudy('Plain'), factors), ssim: { f1: { f2: O } } };
+    const restored = decodeProjectFile(json({ version: PROJECT_FILE_VERSION, ssimVersion: 2, ...snapshot }));
+    assert.equal(restored.study.topic, 'Plain');
+    assert.deepEqual(restored.ssim, { f1: { f2: O } });
+  });
+});
+
+describe('project migrations', () => {
+  it('loads an unversioned v0 bundle, reading missing SSIM cells as O', () => {
+    const restored = readProject({ factors, ssim: { f1: { f2: V } }, step: AppStep.FILL_SSIM });
+    assert.deepEqual(restored.ssim, { f1: { f2: V, f3: O }, f2: { f3: O } });
+    assert.equal(restored.step, AppStep.FILL_SSIM);
+    assert.equal(restored.study.topic, '');
+    assert.deepEqual(restored.references, []);
+  });
+
+  it('moves the v1 topic and save date into the study metadata', () => {
+    const restored = readProject({
+      version: 1,
+      ssimVersion: 2,
+      savedAt: '2024-05-02T10:00:00.000Z',
+      topic: 'Supply chain risk',
+      factors,
+      ssim: { f1: { f2: V } },
+      rounds: [{ experts: [{ id: 'e1', name: 'Expert 1', ssim: { f1: { f3: X } } }], feedback: '' }],
+    });
+    assert.equal(restored.study.topic, 'Supply chain risk');
+    assert.equal(restored.study.date, '2024-05-02');
+    // Saved with the current SSIM schema, so unanswered cells stay unanswered
+    assert.deepEqual(restored.ssim, { f1: { f2: V } });
+    assert.deepEqual(restored.rounds[0].experts[0].ssim, { f1: { f3: X } });
+    assert.equal(restored.rounds[0].number, 1);
+  });
+
+  it('adds an empty bibliography to a v2 project and drops unknown reference ids', () => {
+    const restored = readProject({
+      version: 2,
+      ssimVersion: 2,
+      study: { topic: 'Lean', relationPhrase: 'enables', author: 'B', date: '2025-03-01', panelSize: 5 },
+      factors: [{ ...factors[0], references: ['r1'] }, factors[1]],
+      ssim: {},
+      inputMode: 'fuzzy',
+      fuzzyRatings: { f1: { f2: 'H', f3: 'bogus' } },
+    });
+    assert.deepEqual(restored.references, []);
+    assert.equal(restored.factors[0].references, undefined);
+    assert.equal(restored.study.relationPhrase, 'enables');
+    assert.equal(restored.inputMode, 'fuzzy');
+    assert.deepEqual(restored.fuzzyRatings, { f1: { f2: 'H' } });
+  });
+
+  it('falls back to the SSIM step when the saved results do not fit the factors', () => {
+    const restored = readProject({ version: 3, ssimVersion: 2, factors, step: AppStep.ANALYSIS_RESULT, result: { finalReachabilityMatrix: [[1]] } });
+    assert.equal(restored.result, null);
+    assert.equal(restored.step, AppStep.FILL_SSIM);
+  });
+});
+
+describe('project file errors', () => {
+  it('rejects a project from a newer version', () => {
+    assert.throws(() => readProject({ version: PROJECT_FILE_VERSION + 1, factors }), /newer version/);
+  });
+
+  it('rejects an archive without the project entry', () => {
+    assert.throws(() => decodeProjectFile(zipSync({ 'other.json': json({ factors }) })), /no project\.json/);
+  });
+
+  it('rejects a damaged archive and text that is not JSON', () => {
+    const archive = encodeProjectFile(createEmptySnapshot(createStudy(), factors));
+    assert.throws(() => decodeProjectFile(archive.slice(0, archive.length / 2)));
+    assert.throws(() => decodeProjectFile(strToU8('not a project')), SyntaxError);
+  });
+
+  it('rejects projects that are not objects or have no factors', () => {
+    assert.throws(() => readProject([factors]), /Not an ISM project/);
+    assert.throws(() => readProject({ version: 3, factors: [{ name: 'no id' }] }), /no factors/);
+  });
+});
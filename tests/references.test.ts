@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBibTeX, serialiseBibTeX, buildSourceMatrix, citeLabel, makeCitationKey, createReference } from '../services/references';
+
+const BIB = `
+@comment{Exported from a reference manager}
+@Article{smith2020,
+  author = {Smith, John and Lee, Ann and Kim, Joon},
+  title = {Barriers to {BIM} adoption: a {\\"u}nified view},
+  journal = "Automation in Construction",
+  year = 2020,
+  doi = {10.1000/xyz}
+}
+@inproceedings{lee2019, author={Lee, Ann}, title={Safety culture}, booktitle={Proc. CIB}, year={2019}}
+`;
+
+describe('BibTeX', () => {
+  it('reads braced, quoted and bare values and skips comments', () => {
+    const refs = parseBibTeX(BIB);
+    assert.deepEqual(refs.map(r => r.key), ['smith2020', 'lee2019']);
+    assert.equal(refs[0].type, 'article');
+    assert.equal(refs[0].title, 'Barriers to BIM adoption: a ünified view');
+    assert.equal(refs[0].source, 'Automation in Construction');
+    assert.equal(refs[0].year, '2020');
+    assert.equal(refs[0].doi, '10.1000/xyz');
+    assert.equal(refs[1].source, 'Proc. CIB');
+  });
+
+  it('decodes accent macros and special letters to Unicode', () => {
+    const title = (value: string) => parseBibTeX(`@misc{k, title = {${value}}}`)[0].title;
+    assert.equal(title('G{\\"o}del, M\\"uller, Jos\\\'{e}, \\`a, \\^{o}, Pe\\~na, Fran\\c{c}ois, Fran\\c cois'), 'Gödel, Müller, José, à, ô, Peña, François, François');
+    assert.equal(title('Dvo\\v{r}\\\'ak, Erd\\H{o}s, Na\\"{\\i}ve, Stra\\ss e, {\\O}stergaard, \\L{}\\\'od\\\'z, R\\&D'), 'Dvořák, Erdős, Naïve, Straße, Østergaard, Łódź, R&D');
+    // Macros that are not accents are left as they are
+    assert.equal(title('\\emph{kept} and \\ldots'), '\\emphkept and \\ldots');
+  });
+
+  it('round-trips through the serialiser', () => {
+    const refs = parseBibTeX(BIB);
+    const again = parseBibTeX(serialiseBibTeX(refs));
+    assert.deepEqual(again.map(({ id, ...r }) => r), refs.map(({ id, ...r }) => r));
+  });
+
+  it('labels and keys entries by author and year', () => {
+    const [smith, lee] = parseBibTeX(BIB);
+    assert.equal(citeLabel(smith), 'Smith et al. (2020)');
+    assert.equal(citeLabel(lee), 'Lee (2019)');
+    assert.equal(makeCitationKey({ authors: 'Müller, Jan', year: '2021' }, ['muller2021']), 'muller2021a');
+  });
+});
+
+describe('buildSourceMatrix', () => {
+  it('counts mentions and gives tied factors the same rank', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map(id => createReference({ id, key: id }));
+    const factors = [
+      { id: 'F1', name: 'F1', references: ['a'] },
+      { id: 'F2', name: 'F2', references: ['a', 'b', 'c'] },
+      { id: 'F3', name: 'F3' },
+      { id: 'F4', name: 'F4', references: ['c', 'missing'] },
+    ];
+    const { rows, sourceTotals } = buildSourceMatrix(factors, [a, b, c]);
+    assert.deepEqual(rows.map(r => r.count), [1, 3, 0, 1]);
+    assert.deepEqual(rows.map(r => r.rank), [2, 1, 4, 2]);
+    assert.deepEqual(rows[3].mentions, [false, false, true]);
+    assert.deepEqual(sourceTotals, [2, 1, 2]);
+  });
+});
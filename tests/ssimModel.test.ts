@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SSIMData, SSIMValue } from '../types';
+import { reorientSSIM, reorientAnnotations, getSSIMRelation, parseSSIMCSV } from '../services/ssimModel';
+import { runISMAnalysis } from '../services/ismLogic';
+import { EXAMPLE_DATASETS, buildExampleSSIM } from '../services/exampleDatasets';
+
+const { V, A, X, O } = SSIMValue;
+
+describe('reorientSSIM', () => {
+  const ssim: SSIMData = { F1: { F2: V, F3: X }, F2: { F3: A } };
+
+  it('swaps V and A for pairs whose order flips', () => {
+    assert.deepEqual(reorientSSIM(ssim, ['F3', 'F2', 'F1']), { F3: { F1: X, F2: V }, F2: { F1: A } });
+  });
+
+  it('keeps every relation readable in both directions', () => {
+    const reordered = reorientSSIM(ssim, ['F2', 'F3', 'F1']);
+    [['F1', 'F2'], ['F2', 'F1'], ['F1', 'F3'], ['F3', 'F2']].forEach(([from, to]) => {
+      assert.equal(getSSIMRelation(reordered, from, to), getSSIMRelation(ssim, from, to), `${from} -> ${to}`);
+    });
+  });
+
+  it('leaves cells of unknown factors in place', () => {
+    assert.deepEqual(reorientSSIM({ F9: { F1: O } }, ['F1', 'F2']), { F9: { F1: O } });
+  });
+
+  it('moves notes with their cell', () => {
+    const note = { rationale: 'Budget drives training', confidence: undefined };
+    assert.deepEqual(reorientAnnotations({ F1: { F2: note } }, ['F2', 'F1']), { F2: { F1: note } });
+  });
+
+  it('gives the same levels for any factor order', () => {
+    const dataset = EXAMPLE_DATASETS[0];
+    const ids = dataset.factors.map(f => f.id);
+    const reversed = [...ids].reverse();
+    const levelsOf = (order: string[], data: SSIMData) =>
+      runISMAnalysis(order.length, order, data).levels.map(l => l.elements.map(e => order[e]).sort());
+    assert.deepEqual(
+      levelsOf(reversed, reorientSSIM(buildExampleSSIM(dataset), reversed)),
+      levelsOf(ids, buildExampleSSIM(dataset)),
+    );
+  });
+});
+
+describe('parseSSIMCSV', () => {
+  it('reads the upper triangle of a square table', () => {
+    const csv = ',F1,F2,F3\nF1,,V,O\nF2,,,X\nF3,,,';
+    assert.deepEqual(parseSSIMCSV(csv, ['F1', 'F2', 'F3']), { F1: { F2: V, F3: O }, F2: { F3: X } });
+  });
+
+  it('turns cells around when the table uses another order', () => {
+    const csv = ',F2,F1\nF2,,V\nF1,,';
+    assert.deepEqual(parseSSIMCSV(csv, ['F1', 'F2']), { F1: { F2: A } });
+  });
+
+  it('matches factors by code and reads semicolon tables', () => {
+    const csv = 'i \\ j;B1;B2\nB1;;x\nB2;;';
+    assert.deepEqual(parseSSIMCSV(csv, ['id-1', 'id-2'], ['B1', 'B2']), { 'id-1': { 'id-2': X } });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { unzipSync, strFromU8 } from 'fflate';
+import { ISMElement, SSIMValue } from '../types';
+import { buildXLSX, readXLSX, columnName, worksheetText } from '../services/xlsx';
+import { buildResultWorkbook } from '../services/resultsWorkbook';
+import { runISMAnalysis } from '../services/ismLogic';
+import { parseSSIMWorkbook } from '../services/ssimModel';
+import { readFactorTable } from '../services/factorFile';
+
+const { V, A, O } = SSIMValue;
+
+const factors: ISMElement[] = [
+  { id: 'a', name: 'F1', description: 'Top management support' },
+  { id: 'b', name: 'F2', description: 'Training & skills' },
+  { id: 'c', name: 'F3', description: 'Cost <overrun>' },
+];
+const ssim = { a: { b: V, c: V }, b: { c: A } };
+
+describe('columnName', () => {
+  it('counts in letters', () => {
+    assert.deepEqual([0, 25, 26, 51, 52, 701, 702].map(columnName), ['A', 'Z', 'AA', 'AZ', 'BA', 'ZZ', 'AAA']);
+  });
+});
+
+describe('XLSX', () => {
+  it('round-trips strings, numbers and gaps', () => {
+    const rows = [['Factor', 'Power', null, 'Note'], ['F1', 3, null, 'a & b'], [], ['F2', 0.125, -1, '"quoted" <text>']];
+    const [sheet] = readXLSX(buildXLSX([{ name: 'Data', rows, boldRows: [0] }]));
+    assert.equal(sheet.name, 'Data');
+    assert.deepEqual(sheet.rows, [['Factor', 'Power', null, 'Note'], ['F1', 3, null, 'a & b'], [], ['F2', 0.125, -1, '"quoted" <text>']]);
+    assert.deepEqual(worksheetText(sheet), [['Factor', 'Power', '', 'Note'], ['F1', '3', '', 'a & b'], ['F2', '0.125', '-1', '"quoted" <text>']]);
+  });
+
+  it('writes numbers as numeric cells and makes sheet names valid', () => {
+    const files = unzipSync(buildXLSX([{ name: 'Final Matrix (1*)', rows: [[1]] }, { name: 'final matrix (1 )', rows: [] }]));
+    assert.match(strFromU8(files['xl/worksheets/sheet1.xml']), /<c r="A1"><v>1<\/v><\/c>/);
+    assert.deepEqual(readXLSX(buildXLSX([{ name: 'A/B', rows: [] }, { name: 'a b', rows: [] }])).map(s => s.name), ['A B', 'a b 2']);
+  });
+});
+
+describe('result workbook', () => {
+  const result = runISMAnalysis(3, factors.map(f => f.id), ssim);
+  const sheets = buildResultWorkbook({ factors, result, ssim });
+
+  it('puts every matrix, iteration and MICMAC table on its own sheet', () => {
+    assert.deepEqual(sheets.map(s => s.name), [
+      'Factors', 'SSIM', 'Initial Matrix', 'Final Matrix', 'Final Matrix Notation', 'Canonical Matrix',
+      ...result.levels.map(l => `Iteration ${l.level}`), 'Level Partition', 'MICMAC',
+    ]);
+    const frm = sheets.find(s => s.name === 'Final Matrix')!;
+    assert.deepEqual(frm.rows[1], ['F1', ...result.finalReachabilityMatrix[0], 3]);
+  });
+
+  it('reads its factors and SSIM back', () => {
+    const bytes = buildXLSX(sheets);
+    const table = readFactorTable(bytes, 'results.xlsx');
+    assert.equal(table.sheet, 'Factors');
+    assert.deepEqual(table.rows.map(row => row[0]), ['F1', 'F2', 'F3']);
+    assert.deepEqual(parseSSIMWorkbook(bytes, factors.map(f => f.id), factors.map(f => f.name)), ssim);
+  });
+
+  it('reads an SSIM sheet that lists the factors in another order', () => {
+    const bytes = buildXLSX([{ name: 'Sheet1', rows: [['', 'F3', 'F1'], ['F3', null, 'O'], ['F1']] }]);
+    assert.deepEqual(parseSSIMWorkbook(bytes, factors.map(f => f.id), factors.map(f => f.name)), { a: { c: O } });
+  });
+});
@@ -3,6 +3,27 @@ export interface ISMElement {
   name: string;
   description?: string;
   category?: string;
+  references?: string[]; // Ids of the bibliography entries that mention the factor
+}
+
+// Literature source of the factors, as kept in the bibliography
+export interface Reference {
+  id: string;
+  key: string; // BibTeX citation key
+  type: string; // BibTeX entry type, e.g. "article"
+  authors: string; // "Last, First and Last, First", as in BibTeX
+  year: string;
+  title: string;
+  source: string; // Journal, proceedings or publisher
+  doi?: string;
+}
+
+// One factor's row of the factor identification matrix
+export interface SourceMatrixRow {
+  factor: ISMElement;
+  mentions: boolean[]; // Per reference, in bibliography order
+  count: number;
+  rank: number; // 1 = mentioned most often; ties share a rank
 }
 
 export enum SSIMValue {
@@ -12,10 +33,178 @@ export enum SSIMValue {
   O = 'O', // No relation
 }
 
+// Upper-triangle answers: a cell without an entry is unanswered, which is not the same as O
 export type SSIMData = Record<string, Record<string, SSIMValue>>;
 
+export enum ConfidenceLevel {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+// Why a relation was chosen, kept per upper-triangle cell beside the SSIM value
+export interface CellAnnotation {
+  rationale: string;
+  confidence?: ConfidenceLevel;
+}
+
+// Keyed like SSIMData: annotations[rowId][colId]
+export type SSIMAnnotations = Record<string, Record<string, CellAnnotation>>;
+
+// An SSIM with its annotations, labelled by expert when it comes from a panel
+export interface AnnotatedSSIM {
+  label?: string;
+  ssim: SSIMData;
+  annotations: SSIMAnnotations;
+}
+
+export interface SSIMCellChange {
+  i: number; // Row index (upper triangle)
+  j: number; // Column index
+  from: SSIMValue;
+  to: SSIMValue;
+}
+
+// Directed link texts for TISM: data[fromId][toId]
+export type LinkInterpretations = Record<string, Record<string, string>>;
+
+export interface TISMData {
+  interpretations: LinkInterpretations; // How each direct (V/A/X) link works
+  significantTransitive: LinkInterpretations; // Transitive links kept as significant, with their interpretation
+}
+
+// One answered question of the guided elicitation: the relation between factors i < j as an SSIM value
+export interface ElicitationAnswer {
+  i: number;
+  j: number;
+  value: SSIMValue;
+}
+
+// Directed knowledge built from the answers: 1 / 0 once decided, null while open
+export type RelationKnowledge = (0 | 1 | null)[][];
+
+// An answered SSIM cell overridden by transitivity
+export interface TransitivityViolation {
+  i: number; // Cell row index (upper triangle)
+  j: number; // Cell column index
+  from: number; // Source of the implied link
+  to: number; // Target of the implied link
+  stated: SSIMValue; // The explicit answer the implied link contradicts
+  path: number[]; // Shortest chain of direct links from -> ... -> to
+}
+
+export interface ExpertResponse {
+  id: string;
+  name: string;
+  role?: string;
+  ssim: SSIMData;
+  annotations?: SSIMAnnotations;
+}
+
+export enum AggregationMethod {
+  MAJORITY = 'majority', // More than half of the panel
+  THRESHOLD = 'threshold', // Share of the panel at or above a set threshold
+  MODE = 'mode', // Most frequent relation, ties broken by preference order
+}
+
+export type TieBreakRule = 'conservative' | 'inclusive';
+
+export interface AggregationSettings {
+  method: AggregationMethod;
+  threshold: number; // 0-1, only used by THRESHOLD
+  tieBreak: TieBreakRule; // only used by MODE
+}
+
+export interface CellDecision {
+  value: SSIMValue;
+  votes: Record<SSIMValue, number>; // Answered entries only
+  unanswered: number; // Experts who left the cell blank
+  agreement: number; // Share of answering experts backing the chosen value (0-1)
+  consensus: boolean; // False when the rule fell back to O
+}
+
+export interface AggregationResult {
+  ssim: SSIMData;
+  decisions: Record<string, Record<string, CellDecision>>;
+}
+
+export interface DelphiRound {
+  number: number; // 1-based round number
+  experts: ExpertResponse[]; // Expert IDs persist across rounds
+  feedback: string; // Summary fed back to the panel before the next round
+}
+
+export interface RoundConvergence {
+  meanAgreement: number;
+  changes: SSIMCellChange[]; // Aggregate cells that changed since the previous round
+  stability: number | null; // Share of aggregate cells unchanged; null for the first round
+  passed: boolean; // Mean agreement reached the stop threshold
+}
+
+export interface CellAgreement {
+  i: number; // Row index (upper triangle)
+  j: number; // Column index
+  votes: Record<SSIMValue, number>; // Answered entries only
+  unanswered: number; // Experts who left the cell blank
+  modalValue: SSIMValue | null; // Null when nobody answered
+  agreement: number; // Share of answering experts choosing the modal value (0-1)
+}
+
+export interface AgreementStats {
+  raterCount: number;
+  cells: CellAgreement[];
+  meanAgreement: number;
+  fleissKappa: number | null; // Null when chance agreement is total
+  drivingPowerByExpert: number[][]; // [expert][factor]
+  kendallW: number | null;
+  kendallChiSquare: number | null;
+  degreesOfFreedom: number;
+}
+
 export type BinaryMatrix = number[][];
 
+export enum FuzzyRating {
+  NO = 'N',
+  VERY_LOW = 'VL',
+  LOW = 'L',
+  MEDIUM = 'M',
+  HIGH = 'H',
+  VERY_HIGH = 'VH',
+}
+
+// Directed ratings: data[i][j] is the influence of i on j
+export type FuzzyInfluenceData = Record<string, Record<string, FuzzyRating>>;
+
+export type TriangularFuzzyNumber = [number, number, number]; // (lower, mode, upper)
+
+export type WeightedMatrix = number[][];
+
+export interface FuzzyMicmacResult {
+  directMatrix: WeightedMatrix; // Defuzzified direct-reachability matrix
+  stabilisedMatrix: WeightedMatrix; // After max-min composition converges
+  iterations: number;
+  drivingPower: number[];
+  dependencePower: number[];
+}
+
+// Kind of each final reachability matrix entry, written 1, 1* or 0 in tables and exports
+export enum ReachabilityKind {
+  NONE = 'none', // 0
+  SELF = 'self', // 1 on the diagonal
+  DIRECT = 'direct', // 1: present in the initial reachability matrix
+  TRANSITIVE = 'transitive', // 1*: added by the transitivity check
+}
+
+export type ReachabilityKindMatrix = ReachabilityKind[][];
+
+// MICMAC quadrant by driving and dependence power, split at the middle of the scale
+export enum MicmacQuadrant {
+  AUTONOMOUS = 'autonomous', // I: weak driving, weak dependence
+  DEPENDENT = 'dependent', // II: weak driving, strong dependence
+  LINKAGE = 'linkage', // III: strong driving, strong dependence
+  DRIVER = 'driver', // IV: strong driving, weak dependence
+}
+
 export interface LevelPartition {
   level: number;
   elements: number[]; // Indices of elements
@@ -24,8 +213,11 @@ export interface LevelPartition {
 export interface ISMResult {
   initialReachabilityMatrix: BinaryMatrix;
   finalReachabilityMatrix: BinaryMatrix; // After transitivity
+  finalReachabilityKinds: ReachabilityKindMatrix; // Direct, transitive or self entry of each FRM cell
   canonicalMatrix: BinaryMatrix; // Skeleton matrix for graph (transitive reduction)
   levels: LevelPartition[];
+  components: number[][]; // Strongly connected components (cycle groups), as element indices
+  componentOf: number[]; // Component index of each element
 }
 
 export enum AppStep {
@@ -33,4 +225,153 @@ export enum AppStep {
   DEFINE_FACTORS = 1,
   FILL_SSIM = 2,
   ANALYSIS_RESULT = 3,
-}
\ No newline at end of file
+}
+export type SSIMInputMode = 'grid' | 'guided' | 'fuzzy';
+
+export interface StudyMetadata {
+  topic: string;
+  relationPhrase: string; // Contextual relation read between factors, e.g. "leads to"
+  author: string;
+  date: string; // YYYY-MM-DD
+  panelSize: number | null; // null: the number of experts in the panel
+}
+
+// Everything needed to restore a session, as bundled into a .ism project file
+export interface ProjectSnapshot {
+  step: AppStep;
+  study: StudyMetadata;
+  factors: ISMElement[];
+  references: Reference[];
+  ssim: SSIMData;
+  annotations: SSIMAnnotations;
+  rounds: DelphiRound[];
+  activeRoundIndex: number;
+  stopThreshold: number;
+  aggregationSettings: AggregationSettings;
+  inputMode: SSIMInputMode;
+  fuzzyRatings: FuzzyInfluenceData;
+  tism: TISMData;
+  result: ISMResult | null;
+  fuzzyResult: FuzzyMicmacResult | null;
+}
+
+export interface ProjectFile extends ProjectSnapshot {
+  version: number; // Project schema version, migrated on open
+  ssimVersion: number; // SSIM_FILE_VERSION the SSIMs were saved with
+  savedAt: string; // ISO timestamp
+}
+
+// Entry of the local project library
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
+
+export interface StoredProject extends ProjectSummary {
+  data: ProjectFile;
+}
+
+// The parts of a session covered by undo/redo
+export interface EditableDocument {
+  factors: ISMElement[];
+  ssim: SSIMData;
+  rounds: DelphiRound[]; // Expert panel SSIMs
+  annotations: SSIMAnnotations;
+  fuzzyRatings: FuzzyInfluenceData;
+  tism: TISMData;
+}
+
+export interface HistoryEntry {
+  label: string;
+  group: string; // Consecutive entries of one group (e.g. toggling the same cell) merge into one step
+  state: EditableDocument; // Document before the change (undo) or after it (redo)
+  at: number; // Epoch milliseconds of the latest merged change
+}
+
+export interface EditHistory {
+  past: HistoryEntry[]; // Oldest first
+  future: HistoryEntry[]; // Next redo first
+}
+
+// Complete study bundled with the app for teaching and for checking the engine
+export interface ExampleDataset {
+  id: string;
+  title: string;
+  summary: string;
+  source: string; // Where the case comes from; says so when it is illustrative rather than published
+  relationPhrase: string;
+  factors: ISMElement[];
+  ssimRows: string[]; // Upper triangle row by row: row i holds the V/A/X/O cells for j > i
+  // Results of the analysis that tests hold the tool to; for illustrative cases a snapshot of its own output
+  expectedLevels: string[][]; // Factor ids per level, top level first
+  expectedQuadrants: Record<MicmacQuadrant, string[]>;
+}
+
+// A factor that the factors being merged relate to differently
+export interface MergeConflict {
+  otherId: string;
+  options: { sourceId: string; value: SSIMValue | null }[]; // Each source's relation to the other factor
+  suggested: SSIMValue | null; // Union of the sources' relations
+}
+
+export type FactorField = 'id' | 'name' | 'description' | 'category';
+
+// Column index read into each factor field; null when the field is not imported
+export type FactorColumnMapping = Record<FactorField, number | null>;
+
+// A factor file decoded into rows of cells, before the columns are mapped
+export interface FactorTable {
+  format: 'csv' | 'json' | 'xlsx';
+  encoding: string;
+  delimiter: string | null; // Null for JSON and workbooks
+  sheets: string[]; // Sheet names of a workbook
+  sheet: string | null; // Sheet the rows were read from
+  hasHeader: boolean;
+  headers: string[]; // "Column 1", ... when the file has no header row
+  rows: string[][];
+  firstRowNumber: number; // Row number of rows[0] in the file, for the validation report
+}
+
+export interface ImportIssue {
+  row: number; // 0 for problems with the file as a whole
+  severity: 'error' | 'warning'; // Rows with errors are skipped
+  message: string;
+}
+
+export type FactorImportMode = 'replace' | 'merge';
+
+export type SheetCell = string | number | null;
+
+// One worksheet of an .xlsx workbook; numbers are written as numeric cells
+export interface Worksheet {
+  name: string;
+  rows: SheetCell[][];
+  boldRows?: number[]; // Indices of heading rows
+}
+
+// One step of the level partition: the sets of the factors not yet placed on a level
+export interface PartitionIteration {
+  level: number;
+  rows: {
+    element: number;
+    reachability: number[];
+    antecedent: number[];
+    intersection: number[];
+    selected: boolean; // Placed on this iteration's level
+  }[];
+}
+
+// Everything the results workbook can hold; optional parts add their sheets when present
+export interface ResultWorkbookContent {
+  factors: ISMElement[];
+  result: ISMResult;
+  study?: StudyMetadata;
+  ssim?: SSIMData; // SSIM behind the result, written so the workbook can be imported again
+  experts?: ExpertResponse[];
+  annotatedSsims?: AnnotatedSSIM[];
+  fuzzyMicmac?: FuzzyMicmacResult | null;
+  tism?: TISMData;
+  references?: Reference[];
+}